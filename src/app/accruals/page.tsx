@@ -1,10 +1,28 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { Upload, Loader2, Coins, TrendingUp, TrendingDown, ReceiptText, ArrowRightLeft, FileSpreadsheet, Info, Percent, AlertTriangle, Check, FileDown } from "lucide-react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Upload, Loader2, Coins, TrendingUp, TrendingDown, ReceiptText, ArrowRightLeft, FileSpreadsheet, Info, Percent, AlertTriangle, Check, FileDown, GitCompare, SlidersHorizontal, Tags, Fingerprint, Landmark, X } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Header } from "@/components/Header";
-import { parseAccrualsReport, parseCogsCsv, parseCogsXlsx, type AccrualsSummary, type AccrualsBreakdownItem } from "@/lib/parseAccruals";
+import { ImportDiagnosticsPanel } from "@/components/ImportDiagnosticsPanel";
+import { ExpenseRulesEditor } from "@/components/ExpenseRulesEditor";
+import { CategoryManager } from "@/components/CategoryManager";
+import { SkuIdentityManager } from "@/components/SkuIdentityManager";
+import { AccrualsTimeline } from "@/components/AccrualsTimeline";
+import { MissingCogsEditor } from "@/components/MissingCogsEditor";
+import { CogsSourcesPanel } from "@/components/CogsSourcesPanel";
+import { TaxSettingsButton } from "@/components/TaxSettingsButton";
+import { mergeAccrualsSummaries, sliceAccrualsSummary, parseCogsCsv, type CogsImport, type AccrualsSummary, type AccrualsBreakdownItem, type AccrualsSheetCandidate } from "@/lib/parseAccruals";
+import { runParseTask, isParseCancelled } from "@/lib/parseInWorker";
+import type { ImportDiagnostics } from "@/lib/importDiagnostics";
+import { compareBreakdowns, groupComparison, getShareDelta, type AccrualsComparisonItem, type AccrualsComparisonGroup } from "@/lib/compareAccruals";
+import { classifyExpense, getVatBases, type ExpenseClassification, type ExpenseRule } from "@/lib/expenseRules";
+import { getProductCategory } from "@/lib/productCategories";
+import type { TimeSeriesPoint } from "@/lib/accrualsTimeSeries";
+import { addToCostBreakdown, createCostBreakdown, listCostBreakdown } from "@/lib/landedCost";
+import { countCogsVersions, getCogsVersionAt, upsertCogsSource, type CogsHistory, type CogsSource } from "@/lib/cogsHistory";
+import type { SkuResolver } from "@/lib/skuIdentity";
+import { TAX_REGIMES, calculateTaxes, getEffectiveVatRate, type LegalEntity } from "@/lib/taxRegime";
 import { cn } from "@/lib/utils";
 
 import { useAppState } from "@/components/StoreProvider";
@@ -27,96 +45,134 @@ const formatCurrency = (val: number, compact: boolean = false): string => {
   }).format(val);
 };
 
-const getCategoryFromArticle = (article: string): string => {
-  const artLower = article.toLowerCase();
-  if (artLower.includes("тапоч") || artLower.includes("тапок")) return "Тапочки";
-  if (artLower.includes("жилет")) return "Жилеты";
-  if (artLower.includes("рубашк")) return "Рубашки";
-  if (artLower.includes("носк")) return "Носки";
-  return "Прочее";
-};
+// Commission and logistics sliders rescale expenses by class; storage counts towards logistics as before
+const isCommissionClass = (c: ExpenseClassification): boolean => c.expenseClass === "commission";
+const isLogisticsClass = (c: ExpenseClassification): boolean => c.expenseClass === "logistics" || c.expenseClass === "storage";
 
-const isCommission = (group: string, type: string): boolean => {
+// Sales and returns always follow volume, expenses do when their rule says so
+const isVolumeDependent = (group: string, c: ExpenseClassification): boolean => {
   const g = group.toLowerCase();
-  const t = type.toLowerCase();
-  return g.includes("вознаграждение") || g.includes("комисси") || t.includes("вознаграждение") || t.includes("комисси");
+  if (g.includes("продажи") || g.includes("возвраты")) return true;
+  return c.scalesWithVolume;
 };
 
-const isLogistics = (group: string, type: string): boolean => {
-  const g = group.toLowerCase();
-  const t = type.toLowerCase();
-  const keywords = ["логистик", "доставк", "магистрал", "обработк", "сборк", "склад", "хранени", "кросс-док", "размещен", "упаковк", "сортировк"];
-  return keywords.some(k => g.includes(k) || t.includes(k));
-};
+// Real economy of a single report with actual (non-forecast) values, used by the comparison mode
+const getRealEconomy = (
+  summary: AccrualsSummary,
+  cogsHistory: CogsHistory,
+  resolveSku: SkuResolver,
+  legalEntity: LegalEntity,
+  expenseRules: ExpenseRule[]
+) => {
+  let productionCogs = 0;
+  const cogsBreakdown = createCostBreakdown();
+  summary.skuTransactions.forEach((tx) => {
+    if (!tx.sku) return;
+    const isSale = tx.group === "Продажи" && tx.type === "Выручка";
+    const isReturn = tx.group === "Возвраты" && tx.type === "Возврат выручки";
+    if (!isSale && !isReturn) return;
+    const version = getCogsVersionAt(cogsHistory, resolveSku(tx.sku), tx.date);
+    const signedQty = isSale ? tx.quantity : -tx.quantity;
+    productionCogs += signedQty * (version?.cost ?? 0);
+    if (version) addToCostBreakdown(cogsBreakdown, version.cost, version.components, signedQty);
+  });
 
-const isVolumeDependent = (group: string, type: string): boolean => {
-  const g = group.toLowerCase();
-  const t = type.toLowerCase();
-  
-  if (g.includes("продажи") || g.includes("возвраты")) return true;
-  if (isCommission(group, type)) return true;
-  if (g.includes("эквайринг") || t.includes("эквайринг")) return true;
-  
-  if (isLogistics(group, type)) {
-    // Исключаем хранение и размещение из пропорционального масштабирования
-    if (g.includes("хранени") || t.includes("хранени") || g.includes("размещен") || t.includes("размещен") || g.includes("кросс-док") || t.includes("кросс-док")) {
-      return false;
-    }
-    return true;
-  }
-  return false;
+  const taxableProfit = summary.netResult - productionCogs;
+  const { sales, ozonServices } = getVatBases(summary.breakdown, expenseRules);
+  const taxes = calculateTaxes(legalEntity, sales, ozonServices, taxableProfit);
+  const realNetResult = taxableProfit - taxes.total;
+
+  return {
+    totalInflow: summary.totalInflow,
+    totalOutflow: summary.totalOutflow,
+    netResult: summary.netResult,
+    ozonMargin: summary.totalInflow > 0 ? (summary.netResult / summary.totalInflow) * 100 : 0,
+    productionCogs,
+    cogsBreakdown,
+    taxAmount: taxes.incomeTax,
+    taxes,
+    realNetResult,
+    realMargin: summary.totalInflow ? (realNetResult / summary.totalInflow) * 100 : 0
+  };
 };
 
+const getPeriodLabel = (summary: AccrualsSummary): string =>
+  (summary.period || summary.sources.map(s => s.fileName).join(", ")).replace("Период: ", "");
+
 export default function AccrualsPage() {
   const [isDragActive, setIsDragActive] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const { accrualsResult: result, setAccrualsResult: setResult, skuCogs, setSkuCogs, cogsFileName, setCogsFileName } = useAppState();
+  const [processedRows, setProcessedRows] = useState(0);
+  const parseAbortRef = useRef<AbortController | null>(null);
+  const { accrualsResult: result, setAccrualsResult: setResult, accrualsReports, setAccrualsReports, cogsHistory, cogsSources, setCogsSources, cogsFileName, setCogsFileName, cogsDiagnostics, setCogsDiagnostics, expenseRules, productCategories, legalEntity, resolveSku, addSkuLinks } = useAppState();
   const [error, setError] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState<"all" | "inflow" | "outflow">("all");
   const [groupingMode, setGroupingMode] = useState<"narrow" | "extended" | "hierarchical">("extended");
+  const [sheetChoice, setSheetChoice] = useState<{
+    files: File[];
+    sheetPaths: Record<number, string>; // by index in files, names can repeat across folders
+    fileIndex: number;
+    sheets: AccrualsSheetCandidate[];
+  } | null>(null);
 
   // Cost Database States
   const [isCogsLoading, setIsCogsLoading] = useState(false);
   const [cogsError, setCogsError] = useState<string | null>(null);
 
+  // Period comparison States
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareIdxA, setCompareIdxA] = useState(0);
+  const [compareIdxB, setCompareIdxB] = useState(1);
+
   // Forecasting States
   const [isForecastMode, setIsForecastMode] = useState(false);
   const [commissionRate, setCommissionRate] = useState<number | null>(null);
   const [logisticsRate, setLogisticsRate] = useState<number | null>(null);
   const [cogsRate, setCogsRate] = useState<number | null>(null);
   const [categoryGrowth, setCategoryGrowth] = useState<Record<string, number>>({});
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [isIdentityManagerOpen, setIsIdentityManagerOpen] = useState(false);
+  const [selectedInterval, setSelectedInterval] = useState<TimeSeriesPoint | null>(null);
 
-  // Auto-load default себестоимость file on mount (prefers XLSX template if available)
+  // Auto-load default себестоимость file on mount (prefers XLSX template if available).
+  // Sources already in the store (uploads, manual edits, reordering) are kept when coming back to the page
   useEffect(() => {
+    if (cogsSources.length > 0) return;
     const fetchDefaultCogs = async () => {
       try {
-        let finalCogs: Record<string, number> = {};
+        let sources: CogsSource[] = [];
         let finalName = "";
+        const diagnostics: ImportDiagnostics[] = [];
 
         // Try XLSX template first
         const xlsxRes = await fetch("/Шаблон для обновления цен_18.06.26 (2).xlsx");
         if (xlsxRes.ok) {
           const blob = await xlsxRes.blob();
           const file = new File([blob], "Шаблон для обновления цен_18.06.26 (2).xlsx");
-          finalCogs = await parseCogsXlsx(file);
+          const imported = await runParseTask({ kind: "cogsXlsx", file });
+          sources = upsertCogsSource(sources, { name: file.name, kind: "template", entries: imported.entries });
+          addSkuLinks(imported.links || []);
+          diagnostics.push(imported.diagnostics);
           finalName = "Шаблон для обновления цен_18.06.26 (2).xlsx (авто)";
         } else {
           // Fallback to CSV database
           const csvRes = await fetch("/Товары что мы продаем.csv");
           if (csvRes.ok) {
-            const text = await csvRes.text();
-            finalCogs = parseCogsCsv(text);
+            const imported = parseCogsCsv(await csvRes.arrayBuffer(), "Товары что мы продаем.csv");
+            sources = upsertCogsSource(sources, { name: "Товары что мы продаем.csv", kind: "csv", entries: imported.entries });
+            diagnostics.push(imported.diagnostics);
             finalName = "Товары что мы продаем.csv (авто)";
           }
         }
 
-        // Merge with archived COGS
+        // The archive has the lowest priority, so it only fills in what the template lacks
         try {
           const archRes = await fetch("/archived_cogs.csv");
           if (archRes.ok) {
-            const text = await archRes.text();
-            const archCogs = parseCogsCsv(text);
-            finalCogs = { ...finalCogs, ...archCogs };
+            const archived = parseCogsCsv(await archRes.arrayBuffer(), "archived_cogs.csv");
+            sources = upsertCogsSource(sources, { name: "archived_cogs.csv", kind: "archive", entries: archived.entries });
+            diagnostics.push(archived.diagnostics);
             if (finalName) {
               finalName += " + Архив";
             } else {
@@ -125,9 +181,11 @@ export default function AccrualsPage() {
           }
         } catch (e) {}
 
-        if (Object.keys(finalCogs).length > 0) {
-          setSkuCogs(finalCogs);
+        if (sources.some(s => s.entries.length > 0)) {
+          // Merged rather than replaced, in case a file was uploaded or a cost entered while the defaults loaded
+          setCogsSources(prev => sources.reduce((next, source) => upsertCogsSource(next, source), prev));
           setCogsFileName(finalName);
+          setCogsDiagnostics(diagnostics);
         }
       } catch (err) {
         console.error("Ошибка автозагрузки себестоимости:", err);
@@ -136,32 +194,50 @@ export default function AccrualsPage() {
     fetchDefaultCogs();
   }, []);
 
+  // Stop a running background parse when leaving the page
+  useEffect(() => () => parseAbortRef.current?.abort(), []);
+
   const handleCogsFile = useCallback(async (file: File) => {
     setIsCogsLoading(true);
     setCogsError(null);
     try {
-      let parsed: Record<string, number> = {};
+      // Costs without a date of their own start applying from the day they are loaded
+      const importDate = new Date();
+      const validFrom = new Date(importDate.getFullYear(), importDate.getMonth(), importDate.getDate());
+
+      let imported: CogsImport;
       if (file.name.endsWith(".csv")) {
-        const text = await file.text();
-        parsed = parseCogsCsv(text);
+        imported = parseCogsCsv(await file.arrayBuffer(), file.name, validFrom);
       } else if (file.name.endsWith(".xlsx")) {
-        parsed = await parseCogsXlsx(file);
+        imported = await runParseTask({ kind: "cogsXlsx", file, validFrom });
+        addSkuLinks(imported.links || []);
       } else {
         throw new Error("Пожалуйста, загрузите себестоимость в формате CSV (.csv) или Excel (.xlsx)");
       }
 
+      let archived: CogsImport | null = null;
+      const diagnostics = [imported.diagnostics];
+
       // Automatically merge with archived COGS if available
       try {
         const archRes = await fetch("/archived_cogs.csv");
         if (archRes.ok) {
-          const text = await archRes.text();
-          const archCogs = parseCogsCsv(text);
-          parsed = { ...parsed, ...archCogs };
+          archived = parseCogsCsv(await archRes.arrayBuffer(), "archived_cogs.csv");
+          diagnostics.push(archived.diagnostics);
         }
       } catch (e) {}
 
-      setSkuCogs(parsed);
+      // The upload keeps the sources already loaded and ranks above files, but below manual edits
+      setCogsSources(prev => {
+        const next = upsertCogsSource(prev, {
+          name: file.name,
+          kind: file.name.endsWith(".csv") ? "csv" : "template",
+          entries: imported.entries
+        });
+        return archived ? upsertCogsSource(next, { name: "archived_cogs.csv", kind: "archive", entries: archived.entries }) : next;
+      });
       setCogsFileName(file.name + " + Архив");
+      setCogsDiagnostics(diagnostics);
 
     } catch (err) {
       console.error(err);
@@ -171,29 +247,81 @@ export default function AccrualsPage() {
     }
   }, []);
 
-  const handleFile = useCallback(async (file: File) => {
+  const handleFiles = useCallback(async (files: File[], sheetPaths: Record<number, string> = {}) => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+
     setIsProcessing(true);
+    setProcessedRows(0);
     setError(null);
     setResult(null);
+    setAccrualsReports([]);
+    setSelectedInterval(null);
+    setSheetChoice(null);
 
     try {
-      if (!file.name.endsWith(".xlsx")) {
-        throw new Error("Пожалуйста, загрузите файл отчета в формате Excel (.xlsx)");
+      if (files.some(f => !f.name.endsWith(".xlsx"))) {
+        throw new Error("Пожалуйста, загрузите файлы отчетов в формате Excel (.xlsx)");
+      }
+
+      // Several sheets look like an accruals report: let the user decide which one to read
+      for (const [fileIndex, file] of files.entries()) {
+        if (sheetPaths[fileIndex]) continue;
+        const sheets = await runParseTask({ kind: "accrualsSheets", file }, { signal: controller.signal });
+        if (sheets.length > 1) {
+          setSheetChoice({ files, sheetPaths, fileIndex, sheets });
+          return;
+        }
+      }
+
+      // Row counter keeps growing across files so the progress reads as one job
+      const reports: AccrualsSummary[] = [];
+      let rowsInPreviousFiles = 0;
+      for (const [fileIndex, file] of files.entries()) {
+        let rowsInFile = 0;
+        reports.push(await runParseTask(
+          { kind: "accruals", file, sheetPath: sheetPaths[fileIndex] },
+          {
+            signal: controller.signal,
+            onProgress: (processed) => {
+              rowsInFile = processed;
+              setProcessedRows(rowsInPreviousFiles + processed);
+            }
+          }
+        ));
+        rowsInPreviousFiles += rowsInFile;
       }
 
-      const data = await parseAccrualsReport(file);
-      setResult(data);
+      setAccrualsReports(reports);
+      setResult(mergeAccrualsSummaries(reports));
+      setSelectedInterval(null);
+      setCompareIdxA(0);
+      setCompareIdxB(Math.max(0, reports.length - 1));
+      setIsCompareMode(false);
     } catch (err) {
+      if (isParseCancelled(err)) return;
       console.error(err);
       setError(err instanceof Error ? err.message : "Произошла ошибка при обработке файла");
     } finally {
-      setIsProcessing(false);
+      // A newer upload may have replaced this one; its own handler owns the spinner
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setIsProcessing(false);
+      }
     }
   }, []);
 
+  const handleCancelParsing = () => {
+    parseAbortRef.current?.abort();
+  };
+
   const handleReset = () => {
     setResult(null);
+    setAccrualsReports([]);
+    setSelectedInterval(null);
     setError(null);
+    setSheetChoice(null);
   };
 
   const onDragOver = (e: React.DragEvent) => {
@@ -210,51 +338,52 @@ export default function AccrualsPage() {
     e.preventDefault();
     setIsDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const onFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
     }
   };
 
   // Calculate COGS and real economy metrics (unadjusted)
   let baseProductionCogs = 0;
   let scaledBaseProductionCogs = 0;
+  const baseCogsBreakdown = createCostBreakdown();
   const missingCogsSkus: Record<string, { qty: number }> = {};
 
-  const categoryData: Record<string, { sold: number; returned: number; revenue: number }> = {
-    "Тапочки": { sold: 0, returned: 0, revenue: 0 },
-    "Жилеты": { sold: 0, returned: 0, revenue: 0 },
-    "Рубашки": { sold: 0, returned: 0, revenue: 0 },
-    "Носки": { sold: 0, returned: 0, revenue: 0 },
-    "Прочее": { sold: 0, returned: 0, revenue: 0 }
-  };
+  const categoryData: Record<string, { sold: number; returned: number; revenue: number }> = {};
 
   if (result && result.skuTransactions) {
     result.skuTransactions.forEach((tx) => {
       const isSale = tx.group === "Продажи" && tx.type === "Выручка";
       const isReturn = tx.group === "Возвраты" && tx.type === "Возврат выручки";
 
-      if (isSale || isReturn) {
-        const cogsRateVal = skuCogs[tx.sku] || 0;
+      if (tx.sku && (isSale || isReturn)) {
+        const article = resolveSku(tx.sku);
+        const cogsVersion = getCogsVersionAt(cogsHistory, article, tx.date);
+        const cogsRateVal = cogsVersion?.cost ?? 0;
         const qty = tx.quantity;
         const amt = tx.amount;
-        const category = getCategoryFromArticle(tx.sku);
+        const category = getProductCategory(productCategories, article);
         const growth = isForecastMode ? (categoryGrowth[category] ?? 1) : 1;
+        if (!categoryData[category]) {
+          categoryData[category] = { sold: 0, returned: 0, revenue: 0 };
+        }
 
         if (cogsRateVal === 0) {
-          if (!missingCogsSkus[tx.sku]) {
-            missingCogsSkus[tx.sku] = { qty: 0 };
+          if (!missingCogsSkus[article]) {
+            missingCogsSkus[article] = { qty: 0 };
           }
-          missingCogsSkus[tx.sku].qty += qty;
+          missingCogsSkus[article].qty += qty;
         }
 
         const rowCogs = qty * cogsRateVal;
         const scaledRowCogs = rowCogs * growth;
+        if (cogsVersion) addToCostBreakdown(baseCogsBreakdown, cogsRateVal, cogsVersion.components, isSale ? qty : -qty);
         if (isSale) {
           baseProductionCogs += rowCogs;
           scaledBaseProductionCogs += scaledRowCogs;
@@ -281,14 +410,18 @@ export default function AccrualsPage() {
 
   const totalNetItems = activeCategories.reduce((sum, cat) => sum + cat.net, 0);
 
+  const reportIds = result ? Array.from(new Set(result.skuTransactions.map(tx => tx.sku).filter(Boolean))) : [];
+  const reportArticles = Array.from(new Set(reportIds.map(resolveSku)));
+
   // Calculate actual base sums for Ozon commission and logistics
   let actualCommissionSum = 0;
   let actualLogisticsSum = 0;
   if (result) {
     result.breakdown.forEach((item) => {
-      if (isCommission(item.group, item.type)) {
+      const classification = classifyExpense(expenseRules, item.group, item.type);
+      if (isCommissionClass(classification)) {
         actualCommissionSum += -item.amount; // commissions are negative, sum as positive
-      } else if (isLogistics(item.group, item.type)) {
+      } else if (isLogisticsClass(classification)) {
         actualLogisticsSum += -item.amount; // logistics are negative, sum as positive
       }
     });
@@ -328,13 +461,16 @@ export default function AccrualsPage() {
     let amt = item.amount;
     
     if (isForecastMode) {
+      const classification = classifyExpense(expenseRules, item.group, item.type);
+
+
       // 1. Scale based on volume
-      const txs = result.skuTransactions.filter(tx => tx.group === item.group && tx.type === item.type);
-      if (txs.length > 0 && isVolumeDependent(item.group, item.type)) {
+      const txs = result.skuTransactions.filter(tx => tx.sku && tx.group === item.group && tx.type === item.type);
+      if (txs.length > 0 && isVolumeDependent(item.group, classification)) {
         let skuPortion = 0;
         let scaledSkuPortion = 0;
         txs.forEach(tx => {
-          const cat = getCategoryFromArticle(tx.sku);
+          const cat = getProductCategory(productCategories, resolveSku(tx.sku));
           const growth = categoryGrowth[cat] ?? 1;
           skuPortion += tx.amount;
           scaledSkuPortion += tx.amount * growth;
@@ -344,11 +480,11 @@ export default function AccrualsPage() {
 
       // 2. Apply rate adjustments (Commission, Logistics)
       if (amt < 0) {
-        if (isCommission(item.group, item.type)) {
+        if (isCommissionClass(classification)) {
           amt = actualCommissionRate > 0 
             ? amt * (targetCommissionRate / actualCommissionRate)
             : amt;
-        } else if (isLogistics(item.group, item.type)) {
+        } else if (isLogisticsClass(classification)) {
           amt = actualLogisticsRate > 0 
             ? amt * (targetLogisticsRate / actualLogisticsRate)
             : amt;
@@ -424,13 +560,21 @@ export default function AccrualsPage() {
     return Math.abs(b.amount) - Math.abs(a.amount);
   });
 
+  // A bar picked on the timeline narrows the breakdown table to that interval (actual values, no forecast)
+  const intervalSummary = result && selectedInterval && !isForecastMode && !isCompareMode
+    ? sliceAccrualsSummary(result, selectedInterval.start, selectedInterval.end)
+    : null;
+  const tableBreakdown = intervalSummary ? intervalSummary.breakdown : finalBreakdown;
+  const tableTotalInflow = intervalSummary ? intervalSummary.totalInflow : adjustedTotalInflow;
+  const tableTotalOutflow = intervalSummary ? intervalSummary.totalOutflow : adjustedTotalOutflow;
+
   // Get aggregated breakdown based on groupingMode
   const getAggregatedBreakdown = () => {
     if (!result) return [];
-    if (groupingMode === "extended") return finalBreakdown;
+    if (groupingMode === "extended") return tableBreakdown;
 
     const map: Record<string, { group: string; type: string; amount: number }> = {};
-    finalBreakdown.forEach((item) => {
+    tableBreakdown.forEach((item) => {
       if (!map[item.group]) {
         map[item.group] = {
           group: item.group,
@@ -449,9 +593,9 @@ export default function AccrualsPage() {
     });
 
     return list.map((item) => {
-      const pctOfInflow = item.amount > 0 ? (item.amount / (adjustedTotalInflow || 1)) * 100 : 0;
-      const pctOfOutflow = item.amount < 0 ? (Math.abs(item.amount) / (Math.abs(adjustedTotalOutflow) || 1)) * 100 : 0;
-      const pctOfTotalInflowForOutflow = item.amount < 0 ? (Math.abs(item.amount) / (adjustedTotalInflow || 1)) * 100 : 0;
+      const pctOfInflow = item.amount > 0 ? (item.amount / (tableTotalInflow || 1)) * 100 : 0;
+      const pctOfOutflow = item.amount < 0 ? (Math.abs(item.amount) / (Math.abs(tableTotalOutflow) || 1)) * 100 : 0;
+      const pctOfTotalInflowForOutflow = item.amount < 0 ? (Math.abs(item.amount) / (tableTotalInflow || 1)) * 100 : 0;
 
       return {
         group: item.group,
@@ -474,7 +618,7 @@ export default function AccrualsPage() {
       children: { type: string; amount: number }[];
     }> = {};
 
-    finalBreakdown.forEach((item) => {
+    tableBreakdown.forEach((item) => {
       if (!map[item.group]) {
         map[item.group] = {
           group: item.group,
@@ -492,15 +636,15 @@ export default function AccrualsPage() {
     const list = Object.values(map);
 
     const resolvedList = list.map((item) => {
-      const pctOfInflow = item.amount > 0 ? (item.amount / (adjustedTotalInflow || 1)) * 100 : 0;
-      const pctOfOutflow = item.amount < 0 ? (Math.abs(item.amount) / (Math.abs(adjustedTotalOutflow) || 1)) * 100 : 0;
-      const pctOfTotalInflowForOutflow = item.amount < 0 ? (Math.abs(item.amount) / (adjustedTotalInflow || 1)) * 100 : 0;
+      const pctOfInflow = item.amount > 0 ? (item.amount / (tableTotalInflow || 1)) * 100 : 0;
+      const pctOfOutflow = item.amount < 0 ? (Math.abs(item.amount) / (Math.abs(tableTotalOutflow) || 1)) * 100 : 0;
+      const pctOfTotalInflowForOutflow = item.amount < 0 ? (Math.abs(item.amount) / (tableTotalInflow || 1)) * 100 : 0;
 
       const children = item.children
         .map((child) => {
-          const cPctOfInflow = child.amount > 0 ? (child.amount / (adjustedTotalInflow || 1)) * 100 : 0;
-          const cPctOfOutflow = child.amount < 0 ? (Math.abs(child.amount) / (Math.abs(adjustedTotalOutflow) || 1)) * 100 : 0;
-          const cPctOfTotalInflowForOutflow = child.amount < 0 ? (Math.abs(child.amount) / (adjustedTotalInflow || 1)) * 100 : 0;
+          const cPctOfInflow = child.amount > 0 ? (child.amount / (tableTotalInflow || 1)) * 100 : 0;
+          const cPctOfOutflow = child.amount < 0 ? (Math.abs(child.amount) / (Math.abs(tableTotalOutflow) || 1)) * 100 : 0;
+          const cPctOfTotalInflowForOutflow = child.amount < 0 ? (Math.abs(child.amount) / (tableTotalInflow || 1)) * 100 : 0;
 
           return {
             type: child.type,
@@ -567,19 +711,45 @@ export default function AccrualsPage() {
     ? (adjustedTotalInflow * (targetCogsRate / 100))
     : scaledBaseProductionCogs * (actualCogsRate > 0 ? targetCogsRate / actualCogsRate : 1);
 
+  // Net profit is what is left after both VAT payable and the income tax
   const taxableProfit = adjustedTotalInflow + adjustedTotalOutflow - totalProductionCogs;
-  const taxRate = 0.25; // Ставка налога на прибыль ОСНО на 2026 год составляет 25%
-  const taxAmount = Math.max(0, taxableProfit * taxRate);
-  const adjustedNetResult = taxableProfit - taxAmount;
+  const adjustedVatBases = getVatBases(finalBreakdown, expenseRules);
+  const taxes = calculateTaxes(legalEntity, adjustedVatBases.sales, adjustedVatBases.ozonServices, taxableProfit);
+  const taxAmount = taxes.incomeTax;
+  const adjustedNetResult = taxableProfit - taxes.total;
   const adjustedMargin = adjustedTotalInflow ? (adjustedNetResult / adjustedTotalInflow) * 100 : 0;
 
   // Actual (un-adjusted) Real Economy Metrics
   const actualProductionCogs = baseProductionCogs;
   const actualTaxableProfit = actualNetResult - actualProductionCogs;
-  const actualTaxAmount = Math.max(0, actualTaxableProfit * taxRate);
-  const actualRealNetResult = actualTaxableProfit - actualTaxAmount;
+  const actualVatBases = getVatBases(result ? result.breakdown : [], expenseRules);
+  const actualTaxes = calculateTaxes(legalEntity, actualVatBases.sales, actualVatBases.ozonServices, actualTaxableProfit);
+  const actualTaxAmount = actualTaxes.incomeTax;
+  const actualRealNetResult = actualTaxableProfit - actualTaxes.total;
   const actualRealMargin = actualTotalInflow ? (actualRealNetResult / actualTotalInflow) * 100 : 0;
 
+  const vatRate = getEffectiveVatRate(legalEntity);
+
+  // Period-over-period comparison (A = base period, B = compared period)
+  const canCompare = accrualsReports.length >= 2;
+  const reportA = isCompareMode && canCompare ? accrualsReports[compareIdxA] ?? null : null;
+  const reportB = isCompareMode && canCompare ? accrualsReports[compareIdxB] ?? null : null;
+  const isComparing = !!reportA && !!reportB && reportA !== reportB;
+  const economyA = isComparing ? getRealEconomy(reportA!, cogsHistory, resolveSku, legalEntity, expenseRules) : null;
+  const economyB = isComparing ? getRealEconomy(reportB!, cogsHistory, resolveSku, legalEntity, expenseRules) : null;
+  const comparisonItems = isComparing ? compareBreakdowns(reportA!, reportB!) : [];
+  const comparisonGroups = isComparing ? groupComparison(comparisonItems, reportA!, reportB!) : [];
+
+  const matchesFilter = (item: AccrualsComparisonItem) => {
+    if (activeFilter === "inflow") return item.amountA > 0 || item.amountB > 0;
+    if (activeFilter === "outflow") return item.amountA < 0 || item.amountB < 0;
+    return true;
+  };
+  const filteredComparisonItems = comparisonItems.filter(matchesFilter);
+  const filteredComparisonGroups = comparisonGroups
+    .map(groupItem => ({ ...groupItem, children: groupItem.children.filter(matchesFilter) }))
+    .filter(groupItem => groupItem.children.length > 0);
+
 
 
   return (
@@ -591,6 +761,7 @@ export default function AccrualsPage() {
       >
         {result && (
           <div className="flex items-center gap-1.5">
+            <TaxSettingsButton />
             <button
               onClick={() => document.getElementById("csv-file-upload-active")?.click()}
               className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-semibold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
@@ -617,8 +788,29 @@ export default function AccrualsPage() {
               }}
             />
 
+            {canCompare && (
+              <button
+                onClick={() => {
+                  setIsCompareMode(!isCompareMode);
+                  setIsForecastMode(false);
+                }}
+                className={cn(
+                  "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all",
+                  isCompareMode
+                    ? "bg-blue-50 text-blue-600 border border-blue-200"
+                    : "bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+                )}
+              >
+                <GitCompare className="w-3.5 h-3.5" />
+                <span className="hidden xl:inline">Сравнение</span>
+              </button>
+            )}
+
             <button
-              onClick={() => setIsForecastMode(!isForecastMode)}
+              onClick={() => {
+                setIsForecastMode(!isForecastMode);
+                setIsCompareMode(false);
+              }}
               className={cn(
                 "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all",
                 isForecastMode 
@@ -629,6 +821,33 @@ export default function AccrualsPage() {
               <TrendingUp className="w-3.5 h-3.5" />
               <span className="hidden xl:inline">Моделирование</span>
             </button>
+
+            <button
+              onClick={() => setIsRulesEditorOpen(true)}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+              title="Правила классификации расходов"
+            >
+              <SlidersHorizontal className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Правила расходов</span>
+            </button>
+
+            <button
+              onClick={() => setIsCategoryManagerOpen(true)}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+              title="Категории товаров"
+            >
+              <Tags className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Категории</span>
+            </button>
+
+            <button
+              onClick={() => setIsIdentityManagerOpen(true)}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+              title="Соответствие SKU Ozon, штрихкодов и артикулов"
+            >
+              <Fingerprint className="w-3.5 h-3.5" />
+              <span className="hidden xl:inline">Артикулы</span>
+            </button>
           </div>
         )}
       </Header>
@@ -669,6 +888,7 @@ export default function AccrualsPage() {
                       type="file"
                       className="hidden"
                       accept=".xlsx"
+                      multiple
                       onChange={onFileInputChange}
                     />
 
@@ -688,11 +908,53 @@ export default function AccrualsPage() {
                         {isProcessing ? "Обработка отчета..." : "Загрузите отчет Excel (.xlsx)"}
                       </p>
                       <p className="text-sm text-slate-500">
-                        Перетащите файл сюда или нажмите для выбора
+                        Перетащите файлы сюда или нажмите для выбора. Несколько периодов будут объединены
                       </p>
                     </div>
                   </div>
 
+                  {/* Background parsing progress */}
+                  {isProcessing && (
+                    <div className="flex items-center justify-between gap-4 bg-white border border-slate-200/80 rounded-2xl px-5 py-3 shadow-sm">
+                      <div className="flex items-center gap-3 text-sm text-slate-600">
+                        <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+                        <span>
+                          Обработано <span className="font-bold text-slate-800">{processedRows.toLocaleString("ru-RU")}</span> строк
+                        </span>
+                      </div>
+                      <button
+                        onClick={handleCancelParsing}
+                        className="px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-600 bg-slate-100 hover:bg-rose-50 hover:text-rose-600 transition-colors"
+                      >
+                        Отменить
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Worksheet picker when several sheets match the accruals layout */}
+                  {sheetChoice && (
+                    <div className="bg-white border border-blue-200/80 rounded-2xl p-5 shadow-sm space-y-4">
+                      <div>
+                        <h4 className="text-sm font-bold text-slate-800">Выберите лист с начислениями</h4>
+                        <p className="text-xs text-slate-500 mt-0.5">
+                          В файле {sheetChoice.files[sheetChoice.fileIndex].name} найдено несколько подходящих листов
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {sheetChoice.sheets.map((sheet) => (
+                          <button
+                            key={sheet.path}
+                            onClick={() => handleFiles(sheetChoice.files, { ...sheetChoice.sheetPaths, [sheetChoice.fileIndex]: sheet.path })}
+                            className="px-4 py-2 bg-slate-50 hover:bg-blue-50 border border-slate-200 hover:border-blue-300 text-slate-700 hover:text-blue-700 text-sm font-semibold rounded-xl shadow-sm transition-all flex items-center gap-2"
+                          >
+                            <FileSpreadsheet className="w-4 h-4" />
+                            {sheet.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* CSV Cogs File Status */}
                   <div className="bg-white border border-slate-200/80 rounded-2xl p-5 shadow-sm flex flex-col sm:flex-row items-center justify-between gap-4 transition-all hover:border-slate-300">
                     <div className="flex items-center gap-3.5 w-full sm:w-auto">
@@ -713,7 +975,7 @@ export default function AccrualsPage() {
                         <h4 className="text-sm font-bold text-slate-800">База себестоимости</h4>
                         <p className="text-xs text-slate-500 mt-0.5">
                           {cogsFileName 
-                            ? `${cogsFileName} (${Object.keys(skuCogs).length} арт.)`
+                            ? `${cogsFileName} (${Object.keys(cogsHistory).length} арт., версий: ${countCogsVersions(cogsHistory)})`
                             : "Не загружена (себестоимость = 0)"}
                         </p>
                       </div>
@@ -973,72 +1235,108 @@ export default function AccrualsPage() {
                 {/* LEFT SIDE: Metrics and Tables */}
                 <div className="flex-1 w-full space-y-8 min-w-0">
 
-                  {/* Missing SKU Warnings */}
-                {Object.keys(missingCogsSkus).length > 0 && (
-                  <div className="p-6 bg-amber-50/50 border border-amber-200/60 rounded-3xl space-y-4 shadow-sm">
-                    <div className="flex items-start gap-4">
-                      <div className="p-3 bg-amber-100 text-amber-600 rounded-2xl shrink-0">
-                        <AlertTriangle className="w-6 h-6" />
-                      </div>
-                      <div className="space-y-1">
-                        <h4 className="text-base font-bold text-amber-900">
-                          Внимание: найдены артикулы без себестоимости ({Object.keys(missingCogsSkus).length} шт.)
-                        </h4>
-                        <p className="text-sm text-amber-800/80 leading-relaxed max-w-3xl">
-                          В отчете есть продажи для товаров, которых нет в вашей базе себестоимости. Для расчетов их себестоимость принята за 0. Рекомендуется обновить CSV/Excel базу.
-                        </p>
+                  {/* Period selectors for the comparison mode */}
+                  {isCompareMode && canCompare && (
+                    <div className="p-6 bg-white border border-blue-100/80 rounded-3xl shadow-sm flex flex-col lg:flex-row lg:items-center gap-4">
+                      <h4 className="text-base font-bold text-slate-900 shrink-0">Сравнение периодов</h4>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <select
+                          value={compareIdxA}
+                          onChange={(e) => setCompareIdxA(parseInt(e.target.value, 10))}
+                          className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        >
+                          {accrualsReports.map((report, idx) => (
+                            <option key={idx} value={idx}>A: {getPeriodLabel(report)}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => {
+                            setCompareIdxA(compareIdxB);
+                            setCompareIdxB(compareIdxA);
+                          }}
+                          className="p-2 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-xl text-slate-500 hover:text-blue-600 transition-colors"
+                          title="Поменять периоды местами"
+                        >
+                          <ArrowRightLeft className="w-4 h-4" />
+                        </button>
+                        <select
+                          value={compareIdxB}
+                          onChange={(e) => setCompareIdxB(parseInt(e.target.value, 10))}
+                          className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-semibold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        >
+                          {accrualsReports.map((report, idx) => (
+                            <option key={idx} value={idx}>B: {getPeriodLabel(report)}</option>
+                          ))}
+                        </select>
                       </div>
-                    </div>
-                    <div className="flex flex-wrap gap-2">
-                      {Object.entries(missingCogsSkus).slice(0, 10).map(([sku, data]) => (
-                        <span key={sku} className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-white border border-amber-200/60 rounded-lg text-sm font-medium text-slate-700">
-                          <span className="font-mono text-slate-600">{sku}</span>
-                          <span className="text-amber-600 font-bold bg-amber-50 px-1.5 rounded">{data.qty} шт.</span>
-                        </span>
-                      ))}
-                      {Object.keys(missingCogsSkus).length > 10 && (
-                        <span className="inline-flex items-center px-3 py-1.5 bg-transparent text-sm font-medium text-amber-700">
-                          + еще {Object.keys(missingCogsSkus).length - 10} артикулов
-                        </span>
+                      {!isComparing && (
+                        <span className="text-sm font-medium text-amber-600">Выберите два разных периода</span>
                       )}
                     </div>
-                  </div>
-                )}
+                  )}
+
+                  {/* Missing SKU Warnings */}
+                <MissingCogsEditor
+                  missing={Object.entries(missingCogsSkus).map(([sku, data]) => ({ sku, qty: data.qty }))}
+                />
+
+                <CogsSourcesPanel />
+
+                <ImportDiagnosticsPanel diagnostics={[...result.diagnostics, ...cogsDiagnostics]} />
 
                 {/* Summary Metrics Section - Row 1 (Ozon Cash Flow) */}
                 <div className="space-y-6">
-                  <div className="flex items-center justify-between">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
                     <h3 className="text-2xl font-extrabold text-slate-900 tracking-tight">Финансовый поток Ozon</h3>
+                    {result.sources.length > 1 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        {result.sources.map((source, idx) => (
+                          <span
+                            key={`${source.fileName}-${idx}`}
+                            title={source.fileName}
+                            className="px-2.5 py-1 bg-white border border-slate-200 rounded-lg text-xs font-semibold text-slate-600"
+                          >
+                            {(source.period || source.fileName).replace("Период: ", "")}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4">
                     <SummaryCard
                       title="Поступило денег"
-                      value={adjustedTotalInflow}
-                      originalValue={actualTotalInflow}
+                      value={economyB ? economyB.totalInflow : adjustedTotalInflow}
+                      originalValue={economyA ? economyA.totalInflow : actualTotalInflow}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       icon={<TrendingUp className="w-6 h-6 text-emerald-500" />}
                     />
                     <SummaryCard
                       title="Списано (Услуги)"
-                      value={adjustedTotalOutflow}
-                      originalValue={actualTotalOutflow}
+                      value={economyB ? economyB.totalOutflow : adjustedTotalOutflow}
+                      originalValue={economyA ? economyA.totalOutflow : actualTotalOutflow}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       icon={<TrendingDown className="w-6 h-6 text-rose-500" />}
-                      subText={adjustedTotalInflow ? `${(Math.abs(adjustedTotalOutflow) / adjustedTotalInflow * 100).toFixed(1)}% от прихода` : undefined}
+                      subText={economyB
+                        ? (economyB.totalInflow ? `${(Math.abs(economyB.totalOutflow) / economyB.totalInflow * 100).toFixed(1)}% от прихода` : undefined)
+                        : (adjustedTotalInflow ? `${(Math.abs(adjustedTotalOutflow) / adjustedTotalInflow * 100).toFixed(1)}% от прихода` : undefined)}
                     />
                     <SummaryCard
                       title="К выплате"
-                      value={adjustedNetResultFromFlows}
-                      originalValue={actualNetResult}
+                      value={economyB ? economyB.netResult : adjustedNetResultFromFlows}
+                      originalValue={economyA ? economyA.netResult : actualNetResult}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       icon={<Coins className="w-6 h-6 text-blue-500" />}
                       highlight
                     />
                     <SummaryCard
                       title="Маржинальность"
-                      value={adjustedTotalInflow ? (adjustedNetResultFromFlows / adjustedTotalInflow) * 100 : 0}
-                      originalValue={actualOzonMargin}
+                      value={economyB ? economyB.ozonMargin : (adjustedTotalInflow ? (adjustedNetResultFromFlows / adjustedTotalInflow) * 100 : 0)}
+                      originalValue={economyA ? economyA.ozonMargin : actualOzonMargin}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       icon={<Percent className="w-6 h-6 text-indigo-500" />}
                       isPercent
                     />
@@ -1053,35 +1351,63 @@ export default function AccrualsPage() {
                   <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4">
                     <SummaryCard
                       title="Себестоимость"
-                      value={totalProductionCogs}
-                      originalValue={actualProductionCogs}
+                      value={economyB ? economyB.productionCogs : totalProductionCogs}
+                      originalValue={economyA ? economyA.productionCogs : actualProductionCogs}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       inverseDifference
                       icon={<ReceiptText className="w-6 h-6 text-amber-500" />}
-                      subText={adjustedTotalInflow ? `${(totalProductionCogs / adjustedTotalInflow * 100).toFixed(1)}% от прихода` : undefined}
+                      subText={economyB
+                        ? (economyB.totalInflow ? `${(economyB.productionCogs / economyB.totalInflow * 100).toFixed(1)}% от прихода` : undefined)
+                        : (adjustedTotalInflow ? `${(totalProductionCogs / adjustedTotalInflow * 100).toFixed(1)}% от прихода` : undefined)}
+                      details={economyB
+                        ? listCostBreakdown(economyB.cogsBreakdown)
+                        : listCostBreakdown(baseCogsBreakdown, actualProductionCogs ? totalProductionCogs / actualProductionCogs : 1)}
                     />
                     <SummaryCard
-                      title="Налог (ОСНО 25%)"
-                      value={taxAmount}
-                      originalValue={actualTaxAmount}
+                      title={`Налог (${TAX_REGIMES[legalEntity.regime].label})`}
+                      value={economyB ? economyB.taxAmount : taxAmount}
+                      originalValue={economyA ? economyA.taxAmount : actualTaxAmount}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       inverseDifference
                       icon={<FileDown className="w-6 h-6 text-orange-500" />}
-                      subText={taxableProfit > 0 ? `${(taxAmount / adjustedTotalInflow * 100).toFixed(1)}% от прихода` : "Нет прибыли"}
+                      subText={economyB
+                        ? (economyB.taxAmount > 0 ? `${(economyB.taxAmount / economyB.totalInflow * 100).toFixed(1)}% от прихода` : "Нет прибыли")
+                        : (taxAmount > 0 ? `${(taxAmount / adjustedTotalInflow * 100).toFixed(1)}% от прихода` : "Нет прибыли")}
                     />
+                    {vatRate > 0 && (
+                      <SummaryCard
+                        title={`НДС к уплате (${Math.round(vatRate * 100)}%)`}
+                        value={economyB ? economyB.taxes.vatPayable : taxes.vatPayable}
+                        originalValue={economyA ? economyA.taxes.vatPayable : actualTaxes.vatPayable}
+                        isForecastActive={isForecastMode}
+                        isCompareActive={isComparing}
+                        inverseDifference
+                        icon={<Landmark className="w-6 h-6 text-sky-500" />}
+                        subText={(economyB ? economyB.taxes.inputVat : taxes.inputVat) > 0 ? undefined : "Без вычета НДС по услугам Ozon"}
+                        details={[
+                          { label: "НДС с продаж", value: economyB ? economyB.taxes.outputVat : taxes.outputVat },
+                          { label: "Вычет по услугам Ozon", value: -(economyB ? economyB.taxes.inputVat : taxes.inputVat) }
+                        ]}
+                      />
+                    )}
                     <SummaryCard
                       title="Чистая прибыль"
-                      value={adjustedNetResult}
-                      originalValue={actualRealNetResult}
+                      value={economyB ? economyB.realNetResult : adjustedNetResult}
+                      originalValue={economyA ? economyA.realNetResult : actualRealNetResult}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       icon={<Coins className="w-6 h-6 text-violet-500" />}
+                      subText={vatRate > 0 ? "За вычетом НДС и налога" : undefined}
                       highlight
                     />
                     <SummaryCard
                       title="Итоговая маржа"
-                      value={adjustedMargin}
-                      originalValue={actualRealMargin}
+                      value={economyB ? economyB.realMargin : adjustedMargin}
+                      originalValue={economyA ? economyA.realMargin : actualRealMargin}
                       isForecastActive={isForecastMode}
+                      isCompareActive={isComparing}
                       icon={<Percent className="w-6 h-6 text-fuchsia-500" />}
                       isPercent
                     />
@@ -1144,6 +1470,16 @@ export default function AccrualsPage() {
                   </div>
                 )}
 
+                {!isForecastMode && !isCompareMode && (
+                  <div className="mt-8">
+                    <AccrualsTimeline
+                      transactions={result.skuTransactions}
+                      selectedKey={selectedInterval?.key ?? null}
+                      onSelect={setSelectedInterval}
+                    />
+                  </div>
+                )}
+
                 {/* Main breakdown section */}
                 <div className="bg-white rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-200/60 overflow-hidden mt-8">
                   <div className="p-6 sm:p-8 border-b border-slate-100 flex flex-col xl:flex-row xl:items-center justify-between gap-6">
@@ -1154,6 +1490,16 @@ export default function AccrualsPage() {
                       <p className="text-sm text-slate-500 max-w-xl">
                         Подробная расшифровка всех поступлений и списаний. Переключайтесь между режимами просмотра для удобства.
                       </p>
+                      {intervalSummary && selectedInterval && (
+                        <button
+                          onClick={() => setSelectedInterval(null)}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-bold rounded-lg bg-blue-50 text-blue-600 border border-blue-200 hover:bg-blue-100 transition-colors"
+                          title="Показать весь период"
+                        >
+                          Интервал: {selectedInterval.label}
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      )}
                     </div>
 
                     <div className="flex flex-wrap items-center gap-4">
@@ -1230,14 +1576,46 @@ export default function AccrualsPage() {
                   <div className="overflow-x-auto">
                     <table className="w-full text-left border-collapse min-w-[800px]">
                       <thead>
-                        <tr className="bg-slate-50/50 text-slate-500 font-bold text-sm border-b border-slate-100">
-                          <th className="px-8 py-5 w-2/5">Операция</th>
-                          <th className="px-8 py-5 text-right w-1/5">Сумма</th>
-                          <th className="px-8 py-5 w-2/5">Структура потока</th>
-                        </tr>
+                        {isComparing ? (
+                          <tr className="bg-slate-50/50 text-slate-500 font-bold text-sm border-b border-slate-100">
+                            <th className="px-8 py-5 w-2/6">Операция</th>
+                            <th className="px-8 py-5 text-right w-1/6" title={getPeriodLabel(reportA!)}>Период A</th>
+                            <th className="px-8 py-5 text-right w-1/6" title={getPeriodLabel(reportB!)}>Период B</th>
+                            <th className="px-8 py-5 text-right w-1/6">Изменение</th>
+                            <th className="px-8 py-5 text-right w-1/6">Доля в потоке</th>
+                          </tr>
+                        ) : (
+                          <tr className="bg-slate-50/50 text-slate-500 font-bold text-sm border-b border-slate-100">
+                            <th className="px-8 py-5 w-2/5">Операция</th>
+                            <th className="px-8 py-5 text-right w-1/5">Сумма</th>
+                            <th className="px-8 py-5 w-2/5">Структура потока</th>
+                          </tr>
+                        )}
                       </thead>
                       <tbody className="divide-y divide-slate-100">
-                        {groupingMode === "hierarchical" ? (
+                        {isComparing ? (
+                          (groupingMode === "extended" ? filteredComparisonItems.length : filteredComparisonGroups.length) > 0 ? (
+                            groupingMode === "hierarchical" ? (
+                              filteredComparisonGroups.map((groupItem) => (
+                                <HierarchicalComparisonSection key={groupItem.group} groupItem={groupItem} />
+                              ))
+                            ) : groupingMode === "narrow" ? (
+                              filteredComparisonGroups.map((groupItem) => (
+                                <ComparisonRow key={groupItem.group} item={groupItem} groupingMode="narrow" />
+                              ))
+                            ) : (
+                              filteredComparisonItems.map((item) => (
+                                <ComparisonRow key={`${item.group}::${item.type}`} item={item} groupingMode="extended" />
+                              ))
+                            )
+                          ) : (
+                            <tr>
+                              <td colSpan={5} className="px-8 py-16 text-center text-slate-400 text-base font-medium">
+                                Нет данных для отображения
+                              </td>
+                            </tr>
+                          )
+                        ) : groupingMode === "hierarchical" ? (
                           filteredHierarchical.length > 0 ? (
                             filteredHierarchical.map((groupItem) => (
                               <HierarchicalGroupSection
@@ -1282,6 +1660,24 @@ export default function AccrualsPage() {
           </AnimatePresence>
         </div>
       </div>
+
+      <ExpenseRulesEditor
+        isOpen={isRulesEditorOpen}
+        onClose={() => setIsRulesEditorOpen(false)}
+        operations={result?.breakdown}
+      />
+
+      <CategoryManager
+        isOpen={isCategoryManagerOpen}
+        onClose={() => setIsCategoryManagerOpen(false)}
+        articles={reportArticles}
+      />
+
+      <SkuIdentityManager
+        isOpen={isIdentityManagerOpen}
+        onClose={() => setIsIdentityManagerOpen(false)}
+        reportIds={reportIds}
+      />
     </main>
   );
 }
@@ -1293,8 +1689,10 @@ function SummaryCard({
   highlight = false,
   isPercent = false,
   subText,
+  details,
   originalValue,
   isForecastActive = false,
+  isCompareActive = false,
   inverseDifference = false
 }: {
   title: string;
@@ -1303,12 +1701,15 @@ function SummaryCard({
   highlight?: boolean;
   isPercent?: boolean;
   subText?: string;
+  details?: { label: string; value: number }[];
   originalValue?: number;
   isForecastActive?: boolean;
+  isCompareActive?: boolean;
   inverseDifference?: boolean;
 }) {
   let diffElement = null;
-  if (isForecastActive && originalValue !== undefined && Math.abs(originalValue - value) > 0.01) {
+  let relativeDiffElement = null;
+  if ((isForecastActive || isCompareActive) && originalValue !== undefined && Math.abs(originalValue - value) > 0.01) {
     const diff = value - originalValue;
     
     const isWorse = inverseDifference ? diff > 0 : diff < 0;
@@ -1329,6 +1730,16 @@ function SummaryCard({
         {formattedDiff}
       </span>
     );
+
+    // Comparison mode also shows the relative change of money values
+    if (isCompareActive && !isPercent && originalValue !== 0) {
+      const relativeDiff = (diff / Math.abs(originalValue)) * 100;
+      relativeDiffElement = (
+        <span className={cn("text-xs font-bold px-2 py-1 rounded-lg", diffColor)}>
+          {relativeDiff > 0 ? "+" : ""}{relativeDiff.toFixed(1)}%
+        </span>
+      );
+    }
   }
 
   return (
@@ -1357,6 +1768,12 @@ function SummaryCard({
           {diffElement && (
             <div className="flex items-center flex-wrap gap-2">
               {diffElement}
+              {relativeDiffElement}
+              {isCompareActive && (
+                <span className="text-xs font-semibold text-slate-400 truncate" title={isPercent ? `${originalValue?.toFixed(2)}%` : formatCurrency(originalValue || 0)}>
+                  A: {isPercent ? `${originalValue?.toFixed(2)}%` : formatCurrency(originalValue || 0, true)}
+                </span>
+              )}
               {isForecastActive && (
                 <span className="text-xs font-semibold text-slate-400 line-through truncate" title={isPercent ? `${originalValue?.toFixed(2)}%` : formatCurrency(originalValue || 0)}>
                   {isPercent ? `${originalValue?.toFixed(2)}%` : formatCurrency(originalValue || 0, true)}
@@ -1370,6 +1787,20 @@ function SummaryCard({
             </span>
           )}
         </div>
+
+        {details && details.length > 0 && (
+          <div className="space-y-1 pt-3 border-t border-slate-100">
+            {details.map(row => (
+              <div key={row.label} className="flex items-center justify-between gap-3 text-xs">
+                <span className="font-semibold text-slate-500 truncate">{row.label}</span>
+                <span className="font-bold text-slate-700 whitespace-nowrap">
+                  {formatCurrency(row.value, true)}
+                  {value !== 0 && <span className="font-semibold text-slate-400"> · {(row.value / value * 100).toFixed(0)}%</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1565,3 +1996,121 @@ function BreakdownRow({
     </tr>
   );
 }
+
+function ComparisonCells({ item, strong = false }: { item: AccrualsComparisonItem; strong?: boolean }) {
+  const shareDelta = getShareDelta(item);
+  const isOutflowItem = !(item.amountA > 0 || item.amountB > 0);
+  const amountClass = (amount: number) => cn(
+    strong ? "text-base font-extrabold tracking-tight" : "text-sm font-bold",
+    amount > 0 ? "text-emerald-600" : amount < 0 ? "text-rose-600" : "text-slate-400"
+  );
+
+  return (
+    <>
+      <td className="px-8 py-5 text-right">
+        <span className={amountClass(item.amountA)}>
+          {item.amountA > 0 ? "+" : ""}{formatCurrency(item.amountA)}
+        </span>
+      </td>
+      <td className="px-8 py-5 text-right">
+        <span className={amountClass(item.amountB)}>
+          {item.amountB > 0 ? "+" : ""}{formatCurrency(item.amountB)}
+        </span>
+      </td>
+      <td className="px-8 py-5 text-right">
+        <div className="flex flex-col items-end gap-1">
+          <span className={cn(
+            "text-sm font-bold",
+            item.delta > 0 ? "text-emerald-600" : item.delta < 0 ? "text-rose-600" : "text-slate-400"
+          )}>
+            {item.delta > 0 ? "+" : ""}{formatCurrency(item.delta)}
+          </span>
+          <span className="text-xs font-semibold text-slate-400">
+            {item.deltaPct === null ? "новая операция" : `${item.deltaPct > 0 ? "+" : ""}${item.deltaPct.toFixed(1)}%`}
+          </span>
+        </div>
+      </td>
+      <td className="px-8 py-5 text-right">
+        <div className="flex flex-col items-end gap-1">
+          <span className="text-xs font-bold text-slate-500">
+            {isOutflowItem
+              ? `${item.pctOfOutflowA.toFixed(1)}% → ${item.pctOfOutflowB.toFixed(1)}% от списаний`
+              : `${item.pctOfInflowA.toFixed(1)}% → ${item.pctOfInflowB.toFixed(1)}% от прихода`}
+          </span>
+          <span className={cn(
+            "text-xs font-bold px-1.5 py-0.5 rounded-md",
+            Math.abs(shareDelta) < 0.05
+              ? "bg-slate-100 text-slate-500"
+              : isOutflowItem === shareDelta > 0
+                ? "bg-rose-50 text-rose-600"
+                : "bg-emerald-50 text-emerald-600"
+          )}>
+            {shareDelta > 0 ? "+" : ""}{shareDelta.toFixed(1)} п.п.
+          </span>
+        </div>
+      </td>
+    </>
+  );
+}
+
+function ComparisonRow({
+  item,
+  groupingMode
+}: {
+  item: AccrualsComparisonItem;
+  groupingMode: "narrow" | "extended";
+}) {
+  return (
+    <tr className="hover:bg-slate-50/50 transition-colors group">
+      <td className="px-8 py-5">
+        <div className="space-y-1">
+          {groupingMode === "extended" ? (
+            <>
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                {item.group}
+              </span>
+              <div className="text-base font-bold text-slate-900">
+                {item.type}
+              </div>
+            </>
+          ) : (
+            <div className="text-base font-bold text-slate-900 tracking-tight">
+              {item.group}
+            </div>
+          )}
+        </div>
+      </td>
+      <ComparisonCells item={item} strong />
+    </tr>
+  );
+}
+
+function HierarchicalComparisonSection({ groupItem }: { groupItem: AccrualsComparisonGroup }) {
+  return (
+    <>
+      {/* Parent Group Row */}
+      <tr className="bg-slate-50/30 font-bold border-b border-slate-100 hover:bg-slate-50 transition-colors">
+        <td className="px-8 py-5">
+          <div className="text-base font-extrabold text-slate-900 tracking-tight">
+            {groupItem.group}
+          </div>
+        </td>
+        <ComparisonCells item={groupItem} strong />
+      </tr>
+
+      {/* Child Operations Rows */}
+      {groupItem.children.map((child) => (
+        <tr key={child.type} className="hover:bg-slate-50/50 transition-colors border-b border-slate-100/50">
+          <td className="px-8 py-4 pl-14 relative">
+            <div className="absolute left-9 top-0 bottom-0 w-px bg-slate-200" />
+            <div className="absolute left-9 top-1/2 w-4 h-px bg-slate-200" />
+            <span className="text-sm font-semibold text-slate-600">
+              {child.type}
+            </span>
+          </td>
+          <ComparisonCells item={child} />
+        </tr>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Grid3x3, FileDown, X } from "lucide-react";
+import { Header } from "@/components/Header";
+import { SkuDetailsDrawer } from "@/components/SkuDetailsDrawer";
+import { useAppState } from "@/components/StoreProvider";
+import { TIME_BUCKET_LABELS } from "@/lib/accrualsTimeSeries";
+import {
+  ABC_BASIS_LABELS,
+  ABC_CLASSES,
+  DEFAULT_ASSORTMENT_THRESHOLDS,
+  XYZ_CLASSES,
+  buildAssortmentAnalysis,
+  buildAssortmentMatrix,
+  formatAssortmentCsv,
+  getAbcClass,
+  type AbcBasis,
+  type AbcClass,
+  type AssortmentThresholds,
+  type XyzBucket,
+  type XyzClass
+} from "@/lib/assortmentAnalysis";
+import { cn, downloadBlob } from "@/lib/utils";
+
+const formatCurrency = (val: number): string =>
+  new Intl.NumberFormat("ru-RU", { style: "currency", currency: "RUB", maximumFractionDigits: 0 }).format(val);
+
+const formatShare = (share: number): string => `${(share * 100).toFixed(1)}%`;
+
+const XYZ_BUCKETS: XyzBucket[] = ["day", "week"];
+
+const ABC_HINTS: Record<AbcClass, string> = {
+  A: "Основной вклад",
+  B: "Средний вклад",
+  C: "Малый вклад"
+};
+
+const XYZ_HINTS: Record<XyzClass, string> = {
+  X: "Стабильный спрос",
+  Y: "Колебания",
+  Z: "Нерегулярный спрос"
+};
+
+// Green for the core of the assortment, rose for delisting candidates
+const CELL_TONES: Record<string, string> = {
+  AX: "bg-emerald-50 border-emerald-200 text-emerald-900",
+  AY: "bg-emerald-50 border-emerald-200 text-emerald-900",
+  BX: "bg-emerald-50 border-emerald-200 text-emerald-900",
+  AZ: "bg-amber-50 border-amber-200 text-amber-900",
+  BY: "bg-amber-50 border-amber-200 text-amber-900",
+  CX: "bg-amber-50 border-amber-200 text-amber-900",
+  BZ: "bg-rose-50 border-rose-200 text-rose-900",
+  CY: "bg-rose-50 border-rose-200 text-rose-900",
+  CZ: "bg-rose-50 border-rose-200 text-rose-900"
+};
+
+export default function AssortmentPage() {
+  const { accrualsResult, cogsHistory, resolveSku } = useAppState();
+  const [basis, setBasis] = useState<AbcBasis>("revenue");
+  const [bucket, setBucket] = useState<XyzBucket>("week");
+  const [thresholds, setThresholds] = useState<AssortmentThresholds>(DEFAULT_ASSORTMENT_THRESHOLDS);
+  const [selectedCell, setSelectedCell] = useState<string | null>(null);
+  const [detailsSku, setDetailsSku] = useState<string | null>(null);
+
+  const analysis = useMemo(
+    () => accrualsResult ? buildAssortmentAnalysis(accrualsResult.skuTransactions, cogsHistory, resolveSku, bucket, thresholds) : null,
+    [accrualsResult, cogsHistory, resolveSku, bucket, thresholds]
+  );
+  const matrix = useMemo(() => analysis ? buildAssortmentMatrix(analysis, basis) : [], [analysis, basis]);
+
+  const visibleRows = useMemo(() => {
+    if (!analysis) return [];
+    const rows = selectedCell
+      ? analysis.rows.filter(row => `${getAbcClass(row, basis)}${row.xyz}` === selectedCell)
+      : analysis.rows;
+    return [...rows].sort((a, b) => b[basis] - a[basis]);
+  }, [analysis, basis, selectedCell]);
+
+  const updateThreshold = (key: keyof AssortmentThresholds, value: string) => {
+    setThresholds({ ...thresholds, [key]: Math.max(0, Number(value) || 0) });
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob(["\uFEFF" + formatAssortmentCsv(visibleRows)], { type: "text/csv;charset=utf-8" }),
+      `ABC-XYZ${selectedCell ? `_${selectedCell}` : ""}_${new Date().toLocaleDateString("ru-RU")}.csv`
+    );
+  };
+
+  const renderThresholdInput = (key: keyof AssortmentThresholds, label: string) => (
+    <label className="flex items-center gap-1.5 text-slate-600">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={thresholds[key]}
+        onChange={(e) => updateThreshold(key, e.target.value)}
+        className="w-16 px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+      />
+    </label>
+  );
+
+  return (
+    <main className="min-h-screen bg-slate-50/50 flex flex-col selection:bg-blue-500/20">
+      <Header
+        period={accrualsResult?.period}
+        activeTab="assortment"
+      />
+
+      <div className="flex-1 flex flex-col px-4 sm:px-6 lg:px-8 py-8 w-full mx-auto">
+        <div className="w-full space-y-8 transition-all duration-500 ease-out">
+
+          {!analysis && (
+            <div className="mt-16 max-w-2xl mx-auto w-full text-center space-y-4">
+              <h2 className="text-4xl font-extrabold text-slate-900 tracking-tight">
+                ABC/XYZ-анализ <span className="text-blue-600">ассортимента</span>
+              </h2>
+              <p className="text-slate-500 text-lg max-w-lg mx-auto leading-relaxed">
+                Анализ строится по отчету о начислениях. Загрузите его на странице{" "}
+                <Link href="/accruals" className="text-blue-600 hover:underline font-medium">Начисления</Link>.
+              </p>
+            </div>
+          )}
+
+          {analysis && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm">
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-slate-600">ABC по</span>
+                    <div className="flex items-center p-1 rounded-lg bg-slate-100">
+                      {(Object.keys(ABC_BASIS_LABELS) as AbcBasis[]).map(key => (
+                        <button
+                          key={key}
+                          onClick={() => setBasis(key)}
+                          className={cn(
+                            "px-3 py-1 text-xs font-semibold rounded-md transition-colors",
+                            basis === key ? "bg-white text-slate-900 shadow-sm" : "text-slate-500 hover:text-slate-900"
+                          )}
+                        >
+                          {ABC_BASIS_LABELS[key]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-slate-600">XYZ по</span>
+                    <div className="flex items-center p-1 rounded-lg bg-slate-100">
+                      {XYZ_BUCKETS.map(key => (
+                        <button
+                          key={key}
+                          onClick={() => setBucket(key)}
+                          className={cn(
+                            "px-3 py-1 text-xs font-semibold rounded-md transition-colors",
+                            bucket === key ? "bg-white text-slate-900 shadow-sm" : "text-slate-500 hover:text-slate-900"
+                          )}
+                        >
+                          {TIME_BUCKET_LABELS[key]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  {renderThresholdInput("a", "A до, %")}
+                  {renderThresholdInput("b", "B до, %")}
+                  {renderThresholdInput("x", "X до, %")}
+                  {renderThresholdInput("y", "Y до, %")}
+                </div>
+              </div>
+
+              <div className="grid gap-6 xl:grid-cols-[minmax(0,560px)_1fr]">
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-3">
+                  <div>
+                    <h3 className="text-base font-bold text-slate-900">Матрица ABC/XYZ</h3>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      Артикулов: {analysis.rows.length}, периодов в ряду продаж: {analysis.periods}.
+                      {analysis.undatedSales > 0 && ` Продаж без даты: ${analysis.undatedSales}, в XYZ не учтены.`}
+                      {" "}Прибыль — до налогов, за вычетом себестоимости.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-[auto_repeat(3,minmax(0,1fr))] gap-2 text-xs">
+                    <div />
+                    {XYZ_CLASSES.map(xyz => (
+                      <div key={xyz} className="text-center text-slate-500">
+                        <div className="text-sm font-bold text-slate-800">{xyz}</div>
+                        {XYZ_HINTS[xyz]}
+                      </div>
+                    ))}
+                    {ABC_CLASSES.map(abc => (
+                      <div key={abc} className="contents">
+                        <div className="flex flex-col justify-center pr-2 text-slate-500">
+                          <div className="text-sm font-bold text-slate-800">{abc}</div>
+                          {ABC_HINTS[abc]}
+                        </div>
+                        {matrix.filter(cell => cell.abc === abc).map(cell => {
+                          const key = `${cell.abc}${cell.xyz}`;
+                          return (
+                            <button
+                              key={key}
+                              onClick={() => setSelectedCell(selectedCell === key ? null : key)}
+                              className={cn(
+                                "p-3 rounded-xl border text-left transition-all hover:shadow-md",
+                                CELL_TONES[key],
+                                selectedCell === key && "ring-2 ring-blue-500",
+                                cell.count === 0 && "opacity-50"
+                              )}
+                            >
+                              <div className="flex items-baseline justify-between gap-2">
+                                <span className="text-base font-extrabold">{key}</span>
+                                <span className="font-semibold">{cell.count} арт.</span>
+                              </div>
+                              <div className="mt-1.5 space-y-0.5 opacity-80">
+                                <div>Выручка {formatShare(cell.revenueShare)}</div>
+                                <div>Прибыль {formatShare(cell.profitShare)}</div>
+                              </div>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden min-w-0">
+                  <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-slate-100">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-base font-bold text-slate-900">Артикулы</h3>
+                      {selectedCell && (
+                        <button
+                          onClick={() => setSelectedCell(null)}
+                          className="flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-md bg-blue-50 text-blue-600 hover:bg-blue-100"
+                        >
+                          {selectedCell}
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                      <span className="text-xs text-slate-400">{visibleRows.length}</span>
+                    </div>
+                    <button
+                      onClick={handleExport}
+                      disabled={visibleRows.length === 0}
+                      className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-semibold rounded-xl shadow-sm transition-colors disabled:opacity-50"
+                    >
+                      <FileDown className="w-4 h-4" />
+                      Скачать CSV
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+                    <table className="w-full text-sm text-left whitespace-nowrap">
+                      <thead className="bg-slate-50 text-slate-700 font-medium sticky top-0 z-10">
+                        <tr>
+                          <th className="p-3">Артикул</th>
+                          <th className="p-3 text-center">ABC выр.</th>
+                          <th className="p-3 text-center">ABC приб.</th>
+                          <th className="p-3 text-center">XYZ</th>
+                          <th className="p-3 text-right">Выручка</th>
+                          <th className="p-3 text-right">Прибыль</th>
+                          <th className="p-3 text-right">Продано, шт</th>
+                          <th className="p-3 text-right">Вариация</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {visibleRows.map(row => (
+                          <tr key={row.sku} className="hover:bg-slate-50 transition-colors">
+                            <td className="p-3 font-mono text-xs max-w-[260px] truncate">
+                              <button onClick={() => setDetailsSku(row.sku)} className="hover:text-blue-600 hover:underline underline-offset-2" title={row.sku}>
+                                {row.sku}
+                              </button>
+                            </td>
+                            <td className={cn("p-3 text-center font-bold", basis === "revenue" ? "text-slate-900" : "text-slate-400")}>{row.abcRevenue}</td>
+                            <td className={cn("p-3 text-center font-bold", basis === "profit" ? "text-slate-900" : "text-slate-400")}>{row.abcProfit}</td>
+                            <td className="p-3 text-center font-bold text-slate-900">{row.xyz}</td>
+                            <td className="p-3 text-right">
+                              {formatCurrency(row.revenue)}
+                              <span className="text-xs text-slate-400 ml-1.5">{formatShare(row.revenueShare)}</span>
+                            </td>
+                            <td className={cn("p-3 text-right", row.profit < 0 && "text-rose-600")}>
+                              {formatCurrency(row.profit)}
+                              <span className="text-xs text-slate-400 ml-1.5">{formatShare(row.profitShare)}</span>
+                            </td>
+                            <td className="p-3 text-right">{row.units}</td>
+                            <td className="p-3 text-right text-slate-500">{row.variation === null ? "—" : `${row.variation.toFixed(0)}%`}</td>
+                          </tr>
+                        ))}
+                        {visibleRows.length === 0 && (
+                          <tr>
+                            <td colSpan={8} className="p-8 text-center text-slate-500">
+                              <Grid3x3 className="w-6 h-6 mx-auto mb-2 text-slate-300" />
+                              В этой ячейке нет артикулов
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <SkuDetailsDrawer sku={detailsSku} onClose={() => setDetailsSku(null)} />
+    </main>
+  );
+}
@@ -1,17 +1,28 @@
 "use client";
 
-import { useState, useCallback, useMemo } from "react";
-import { Upload, Loader2, FileSpreadsheet, Download, RefreshCw, AlertTriangle, Coins } from "lucide-react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
+import { Upload, Loader2, FileSpreadsheet, Download, RefreshCw, AlertTriangle, Coins, SlidersHorizontal } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Header } from "@/components/Header";
-import { parseOzonTemplate, exportOzonTemplate, type ParsedTemplate, type RepricerItem } from "@/lib/repricer";
-import { cn } from "@/lib/utils";
+import { ImportDiagnosticsPanel } from "@/components/ImportDiagnosticsPanel";
+import { ExpenseRulesEditor } from "@/components/ExpenseRulesEditor";
+import { TaxSettingsButton } from "@/components/TaxSettingsButton";
+import { SkuDetailsDrawer } from "@/components/SkuDetailsDrawer";
+import { exportOzonTemplate, getTemplateSkuLinks, type ParsedTemplate, type RepricerItem } from "@/lib/repricer";
+import { runParseTask, isParseCancelled } from "@/lib/parseInWorker";
+import { getCogsAt } from "@/lib/cogsHistory";
+import { EMPTY_SKU_METRICS, buildSkuMetrics, forecastUnitProfit } from "@/lib/skuMetrics";
+import { cn, downloadBlob } from "@/lib/utils";
 import { useAppState } from "@/components/StoreProvider";
 
 export default function RepricerPage() {
   const [isDragActive, setIsDragActive] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [processedRows, setProcessedRows] = useState(0);
+  const parseAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+  const [detailsItem, setDetailsItem] = useState<RepricerItem | null>(null);
   
   const { 
     repricerParsedData: parsedData, 
@@ -19,7 +30,11 @@ export default function RepricerPage() {
     repricerItems: items, 
     setRepricerItems: setItems,
     accrualsResult,
-    skuCogs
+    cogsHistory,
+    expenseRules,
+    legalEntity,
+    resolveSku,
+    addSkuLinks
   } = useAppState();
 
   // Extract real Ozon discounts from the Accruals report if available
@@ -29,14 +44,16 @@ export default function RepricerPage() {
     const map: Record<string, { revenue: number, compensation: number }> = {};
     
     accrualsResult.skuTransactions.forEach(tx => {
+      if (!tx.sku) return;
+      const article = resolveSku(tx.sku);
       const isRevenue = tx.group === "Продажи" && tx.type === "Выручка";
       const isCompensation = tx.group.toLowerCase().includes("баллы за скидки") || tx.type.toLowerCase().includes("баллы за скидки");
       
       if (isRevenue || isCompensation) {
-        if (!map[tx.sku]) map[tx.sku] = { revenue: 0, compensation: 0 };
-        if (isRevenue) map[tx.sku].revenue += tx.amount;
+        if (!map[article]) map[article] = { revenue: 0, compensation: 0 };
+        if (isRevenue) map[article].revenue += tx.amount;
         // Compensations are usually positive in the report, but just in case we take Math.abs
-        if (isCompensation) map[tx.sku].compensation += Math.abs(tx.amount);
+        if (isCompensation) map[article].compensation += Math.abs(tx.amount);
       }
     });
 
@@ -50,89 +67,13 @@ export default function RepricerPage() {
       }
     }
     return discounts;
-  }, [accrualsResult]);
+  }, [accrualsResult, resolveSku]);
 
-  // Extract Ozon expenses per SKU, separated into variable (%) and fixed (RUB), and global fixed expenses
-  const { skuMetricsMap, globalFixedRubPerUnit, globalVariablePct, avgSkuFixedRubPerUnit } = useMemo(() => {
-    if (!accrualsResult) return { skuMetricsMap: {}, globalFixedRubPerUnit: 0, globalVariablePct: 0, avgSkuFixedRubPerUnit: 0 };
-    
-    const map: Record<string, { revenue: number; variableExpenses: number; fixedExpenses: number; salesQuantity: number }> = {};
-    
-    let totalSkuOutflow = 0;
-    let totalSkuInflow = 0;
-    let totalSalesQuantity = 0;
-
-    accrualsResult.skuTransactions.forEach(tx => {
-      if (!map[tx.sku]) {
-        map[tx.sku] = { revenue: 0, variableExpenses: 0, fixedExpenses: 0, salesQuantity: 0 };
-      }
-      
-      const lowerGrp = tx.group.toLowerCase();
-      const lowerType = tx.type.toLowerCase();
-
-      if (tx.amount > 0) {
-        totalSkuInflow += tx.amount;
-        if (lowerGrp === "продажи" || lowerType.includes("выручка") || lowerType.includes("баллы за скидки") || lowerGrp.includes("баллы за скидки")) {
-          map[tx.sku].revenue += tx.amount;
-        } else {
-          // Other positive compensations reduce fixed expenses
-          map[tx.sku].fixedExpenses -= tx.amount;
-        }
-      } else if (tx.amount < 0) {
-        totalSkuOutflow += tx.amount;
-        const isVariable = 
-          lowerGrp.includes("вознаграждение") ||
-          lowerType.includes("вознаграждение") ||
-          lowerGrp.includes("эквайринг") ||
-          lowerType.includes("эквайринг") ||
-          lowerType.includes("последняя миля") ||
-          lowerType.includes("доставка до места выдачи") ||
-          lowerType.includes("логистика") ||
-          lowerGrp.includes("логистика") ||
-          lowerGrp.includes("продвижение в поиске") ||
-          lowerType.includes("возврат выручки") ||
-          lowerType.includes("баллы за скидки");
-
-        if (isVariable) {
-          map[tx.sku].variableExpenses += Math.abs(tx.amount);
-        } else {
-          map[tx.sku].fixedExpenses += Math.abs(tx.amount);
-        }
-      }
-      
-      // Track quantity for weighted average margin ONLY from actual revenue rows to prevent double-counting compensation rows
-      if (tx.group === "Продажи" && tx.quantity > 0 && tx.amount > 0 && (lowerType.includes("выручка") || lowerType.includes("доставлен покупателю"))) {
-        map[tx.sku].salesQuantity += tx.quantity;
-        totalSalesQuantity += tx.quantity;
-      }
-    });
-    
-    let totalVar = 0;
-    let totalRev = 0;
-    let totalSkuFixed = 0;
-
-    const skuMetricsMap: Record<string, { variablePct: number; fixedRubPerUnit: number; quantity: number }> = {};
-    for (const [sku, data] of Object.entries(map)) {
-      skuMetricsMap[sku] = {
-        variablePct: data.revenue > 0 ? (data.variableExpenses / data.revenue) : 0,
-        fixedRubPerUnit: data.salesQuantity > 0 ? (data.fixedExpenses / data.salesQuantity) : 0,
-        quantity: data.salesQuantity
-      };
-      totalVar += data.variableExpenses;
-      totalRev += data.revenue;
-      totalSkuFixed += data.fixedExpenses;
-    }
-
-    const globalOutflow = accrualsResult.totalOutflow - totalSkuOutflow; // both negative
-    const globalInflow = accrualsResult.totalInflow - totalSkuInflow;
-    const netGlobalExpenses = Math.max(0, Math.abs(globalOutflow) - globalInflow);
-    const globalFixedRubPerUnit = totalSalesQuantity > 0 ? (netGlobalExpenses / totalSalesQuantity) : 0;
-    
-    const globalVariablePct = totalRev > 0 ? (totalVar / totalRev) : 0;
-    const avgSkuFixedRubPerUnit = totalSalesQuantity > 0 ? (totalSkuFixed / totalSalesQuantity) : 0;
-
-    return { skuMetricsMap, globalFixedRubPerUnit, globalVariablePct, avgSkuFixedRubPerUnit };
-  }, [accrualsResult]);
+  // Ozon expenses per SKU, separated into variable (%) and fixed (RUB), and global fixed expenses
+  const skuMetrics = useMemo(
+    () => (accrualsResult ? buildSkuMetrics(accrualsResult, expenseRules, resolveSku) : EMPTY_SKU_METRICS),
+    [accrualsResult, expenseRules, resolveSku]
+  );
 
   // Calculate overall weighted margin and profit based on history
   const overallMetrics = useMemo(() => {
@@ -141,30 +82,16 @@ export default function RepricerPage() {
     let totalRevenue = 0;
     let totalProfit = 0;
     let totalQuantity = 0;
-    const taxRate = 0.25;
 
     items.forEach(item => {
       const basePrice = item.newPrice ?? item.currentPrice;
-      const metrics = skuMetricsMap[item.article];
-      const cogs = skuCogs[item.article] || 0;
-      const qty = metrics?.quantity || 0;
+      const article = resolveSku(item.article);
+      const qty = skuMetrics.skuMetricsMap[article]?.quantity || 0;
 
       if (qty > 0) {
-        let expectedProfit = 0;
-        if (metrics) {
-          const varExp = basePrice * metrics.variablePct;
-          const fixExp = metrics.fixedRubPerUnit + globalFixedRubPerUnit;
-          const taxableProfit = basePrice - varExp - fixExp - cogs;
-          const taxAmount = Math.max(0, taxableProfit * taxRate);
-          expectedProfit = taxableProfit - taxAmount;
-        } else if (cogs > 0) {
-          const varExp = basePrice * globalVariablePct;
-          const fixExp = avgSkuFixedRubPerUnit + globalFixedRubPerUnit;
-          const taxableProfit = basePrice - varExp - fixExp - cogs;
-          const taxAmount = Math.max(0, taxableProfit * taxRate);
-          expectedProfit = taxableProfit - taxAmount;
-        }
-        
+        const forecast = forecastUnitProfit(basePrice, article, skuMetrics, getCogsAt(cogsHistory, article, null), legalEntity);
+        const expectedProfit = forecast?.profit ?? 0;
+
         totalRevenue += basePrice * qty;
         totalProfit += expectedProfit * qty;
         totalQuantity += qty;
@@ -179,7 +106,7 @@ export default function RepricerPage() {
       totalQuantity,
       marginPct: totalProfit / totalRevenue
     };
-  }, [items, skuMetricsMap, skuCogs, globalFixedRubPerUnit, globalVariablePct, avgSkuFixedRubPerUnit]);
+  }, [items, skuMetrics, cogsHistory, resolveSku, legalEntity]);
 
   // Group items by base model to alternate background colors
   const itemsWithGroups = useMemo(() => {
@@ -201,8 +128,16 @@ export default function RepricerPage() {
     });
   }, [items]);
 
+  // Stop a running background parse when leaving the page
+  useEffect(() => () => parseAbortRef.current?.abort(), []);
+
   const handleFile = useCallback(async (file: File) => {
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
+
     setIsProcessing(true);
+    setProcessedRows(0);
     setError(null);
     setParsedData(null);
     setItems([]);
@@ -212,18 +147,30 @@ export default function RepricerPage() {
         throw new Error("Пожалуйста, загрузите файл отчета в формате Excel (.xlsx)");
       }
 
-      const parsed = await parseOzonTemplate(file);
+      const parsed = await runParseTask(
+        { kind: "ozonTemplate", file },
+        { signal: controller.signal, onProgress: setProcessedRows }
+      );
       setParsedData(parsed);
+      addSkuLinks(getTemplateSkuLinks(parsed.items));
       const sortedItems = [...parsed.items].sort((a, b) => a.article.localeCompare(b.article, "ru", { numeric: true }));
       setItems(sortedItems);
     } catch (err) {
+      if (isParseCancelled(err)) return;
       console.error(err);
       setError(err instanceof Error ? err.message : "Произошла ошибка при обработке файла");
     } finally {
-      setIsProcessing(false);
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setIsProcessing(false);
+      }
     }
   }, []);
 
+  const handleCancelParsing = () => {
+    parseAbortRef.current?.abort();
+  };
+
   const handleReset = () => {
     setParsedData(null);
     setItems([]);
@@ -323,14 +270,7 @@ export default function RepricerPage() {
     try {
       setIsProcessing(true);
       const blob = await exportOzonTemplate(parsedData, items);
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `Обновленные_цены_${new Date().toLocaleDateString("ru-RU")}.xlsx`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadBlob(blob, `Обновленные_цены_${new Date().toLocaleDateString("ru-RU")}.xlsx`);
     } catch (err) {
       console.error(err);
       setError("Ошибка при сохранении файла");
@@ -345,7 +285,19 @@ export default function RepricerPage() {
         onUploadClick={handleReset}
         showUploadButton={!!parsedData}
         activeTab="repricer"
-      />
+      >
+        {parsedData && <TaxSettingsButton />}
+        {accrualsResult && (
+          <button
+            onClick={() => setIsRulesEditorOpen(true)}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+            title="Правила классификации расходов"
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            <span className="hidden xl:inline">Правила расходов</span>
+          </button>
+        )}
+      </Header>
 
       <div className="flex-1 flex flex-col px-4 sm:px-6 lg:px-8 py-8 w-full mx-auto">
         <div className="w-full space-y-8 transition-all duration-500 ease-out">
@@ -405,6 +357,24 @@ export default function RepricerPage() {
                       </p>
                     </div>
                   </div>
+
+                  {/* Background parsing progress */}
+                  {isProcessing && (
+                    <div className="flex items-center justify-between gap-4 bg-white border border-slate-200/80 rounded-2xl px-5 py-3 shadow-sm">
+                      <div className="flex items-center gap-3 text-sm text-slate-600">
+                        <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+                        <span>
+                          Обработано <span className="font-bold text-slate-800">{processedRows.toLocaleString("ru-RU")}</span> строк
+                        </span>
+                      </div>
+                      <button
+                        onClick={handleCancelParsing}
+                        className="px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-600 bg-slate-100 hover:bg-rose-50 hover:text-rose-600 transition-colors"
+                      >
+                        Отменить
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -431,6 +401,8 @@ export default function RepricerPage() {
                 transition={{ duration: 0.4, ease: "easeOut" }}
                 className="space-y-6"
               >
+                <ImportDiagnosticsPanel diagnostics={[parsedData.diagnostics]} />
+
                 <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4 bg-white p-4 sm:p-6 rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-200/60">
                    <div className="flex flex-wrap items-center gap-6">
                      <div>
@@ -493,7 +465,7 @@ export default function RepricerPage() {
                       <tbody className="divide-y divide-slate-100/80">
                         {itemsWithGroups.map((item) => {
                           // Determine the most accurate discount available
-                          const reportDiscount = accrualsDiscountMap[item.article];
+                          const reportDiscount = accrualsDiscountMap[resolveSku(item.article)];
                           const discountToUse = reportDiscount !== undefined && reportDiscount > 0 ? reportDiscount : item.ozonDiscountPct;
                           const sourceOfDiscount = reportDiscount !== undefined && reportDiscount > 0 ? "по отчету" : "шаблон";
 
@@ -502,28 +474,10 @@ export default function RepricerPage() {
                           const predictedCustomerPrice = basePrice * (1 - discountToUse);
 
                           // Calculate Margin
-                          const metrics = skuMetricsMap[item.article];
-                          const cogs = skuCogs[item.article] || 0;
-                          
-                          let expectedProfit: number | null = null;
-                          let expectedMarginPct: number | null = null;
-                          const taxRate = 0.25;
-                          
-                          if (metrics) {
-                            const varExp = basePrice * metrics.variablePct;
-                            const fixExp = metrics.fixedRubPerUnit + globalFixedRubPerUnit;
-                            const taxableProfit = basePrice - varExp - fixExp - cogs;
-                            const taxAmount = Math.max(0, taxableProfit * taxRate);
-                            expectedProfit = taxableProfit - taxAmount;
-                            expectedMarginPct = basePrice > 0 ? expectedProfit / basePrice : 0;
-                          } else if (cogs > 0) {
-                            const varExp = basePrice * globalVariablePct;
-                            const fixExp = avgSkuFixedRubPerUnit + globalFixedRubPerUnit;
-                            const taxableProfit = basePrice - varExp - fixExp - cogs;
-                            const taxAmount = Math.max(0, taxableProfit * taxRate);
-                            expectedProfit = taxableProfit - taxAmount;
-                            expectedMarginPct = basePrice > 0 ? expectedProfit / basePrice : 0;
-                          }
+                          const cogs = getCogsAt(cogsHistory, resolveSku(item.article), null);
+                          const forecast = forecastUnitProfit(basePrice, resolveSku(item.article), skuMetrics, cogs, legalEntity);
+                          const expectedProfit = forecast?.profit ?? null;
+                          const expectedMarginPct = forecast?.marginPct ?? null;
 
                           return (
                             <tr key={item.id} className={cn(
@@ -531,7 +485,12 @@ export default function RepricerPage() {
                               item.isAlternate ? "bg-slate-50/80 hover:bg-slate-100/60" : "bg-white hover:bg-slate-50/50"
                             )}>
                               <td className="px-6 py-4 font-medium text-slate-900 max-w-[200px] xl:max-w-[300px] truncate" title={item.article}>
-                                {item.article}
+                                <button
+                                  onClick={() => setDetailsItem(item)}
+                                  className="max-w-full truncate text-left hover:text-blue-600 hover:underline underline-offset-2"
+                                >
+                                  {item.article}
+                                </button>
                               </td>
                               <td className="px-6 py-4 text-center">
                                 {item.priceIndex ? (
@@ -626,6 +585,19 @@ export default function RepricerPage() {
           </AnimatePresence>
         </div>
       </div>
+
+      <ExpenseRulesEditor
+        isOpen={isRulesEditorOpen}
+        onClose={() => setIsRulesEditorOpen(false)}
+        operations={accrualsResult?.breakdown}
+      />
+
+      <SkuDetailsDrawer
+        sku={detailsItem?.article ?? null}
+        price={detailsItem ? detailsItem.newPrice ?? detailsItem.currentPrice : undefined}
+        priceLabel={detailsItem?.newPrice != null ? "новая цена" : "текущая цена"}
+        onClose={() => setDetailsItem(null)}
+      />
     </main>
   );
 }
@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { Loader2, FileSpreadsheet, AlertTriangle, Coins, TrendingUp, Truck, Megaphone, Package, Percent, ReceiptText, Landmark, Layers } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Header } from "@/components/Header";
+import { ImportDiagnosticsPanel } from "@/components/ImportDiagnosticsPanel";
+import { ArticlesTable } from "@/components/ArticlesTable";
+import { TaxSettingsButton } from "@/components/TaxSettingsButton";
+import { OverheadsButton } from "@/components/OverheadsButton";
+import { ReportReconciliation } from "@/components/ReportReconciliation";
+import { parseReport, type AnalysisResult } from "@/lib/parse";
+import { TAX_REGIMES, calculateTaxes, getEffectiveVatRate, type LegalEntity } from "@/lib/taxRegime";
+import { sumOverheads, type OverheadSettings } from "@/lib/overheads";
+import type { SkuResolver } from "@/lib/skuIdentity";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+
+const formatCurrency = (val: number, compact: boolean = false): string => {
+  if (compact && Math.abs(val) >= 1000) {
+    return new Intl.NumberFormat("ru-RU", {
+      style: "currency",
+      currency: "RUB",
+      notation: "compact",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 1
+    }).format(val);
+  }
+  return new Intl.NumberFormat("ru-RU", {
+    style: "currency",
+    currency: "RUB",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2
+  }).format(val);
+};
+
+// Report costs are negative, so the profit is a plain sum of every line; overheads are allocated the same way as in the articles table
+const getReportTotals = (result: AnalysisResult, legalEntity: LegalEntity, overheadSettings: OverheadSettings, resolveSku: SkuResolver) => {
+  const salesRevenue = result.revenue + result.discountPoints + result.partnerPrograms;
+  const ozonServices = result.logisticsCost + result.acquiringCost + result.returnsCost + result.additionalServicesCost;
+  const overheads = sumOverheads(overheadSettings.costs, result.articles.map(a => ({
+    sku: a.sku,
+    revenue: a.revenue + a.discountPoints + a.partnerPrograms,
+    units: a.deliveredItems
+  })), resolveSku);
+  const profitBeforeTax = salesRevenue + result.marketplaceCommission + ozonServices + result.promotionCost + result.totalCogs - overheads.total;
+  // Acquiring is a VAT-exempt bank service, every other Ozon charge (overheads billed by Ozon included) carries input VAT
+  const vatServices = -(result.marketplaceCommission + ozonServices - result.acquiringCost + result.promotionCost) + overheads.ozonServices;
+  const taxes = calculateTaxes(legalEntity, salesRevenue, vatServices, profitBeforeTax);
+  const profit = profitBeforeTax - taxes.total;
+  return {
+    salesRevenue,
+    ozonServices,
+    overheads: -overheads.total,
+    profitBeforeTax,
+    taxes,
+    profit,
+    margin: salesRevenue !== 0 ? (profit / salesRevenue) * 100 : 0
+  };
+};
+
+export default function UnitEconomicsPage() {
+  const [isDragActive, setIsDragActive] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { unitEconomicsResult: result, setUnitEconomicsResult: setResult, legalEntity, overheadSettings, resolveSku } = useAppState();
+
+  const handleFile = useCallback(async (file: File) => {
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      setError("Пожалуйста, загрузите отчет в формате XLSX или CSV");
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const data = await parseReport(file);
+      if (data.articles.length === 0) {
+        setError("В отчете не найдено ни одного товара");
+        return;
+      }
+      setResult(data);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Ошибка при обработке отчета");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [setResult]);
+
+  const handleReset = () => {
+    setResult(null);
+    setError(null);
+  };
+
+  const onDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragActive(true);
+  };
+
+  const onDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragActive(false);
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragActive(false);
+
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      handleFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const onFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      handleFile(e.target.files[0]);
+    }
+    e.target.value = "";
+  };
+
+  const totals = result ? getReportTotals(result, legalEntity, overheadSettings, resolveSku) : null;
+  const vatRate = getEffectiveVatRate(legalEntity);
+
+  return (
+    <main className="min-h-screen bg-slate-50/50 flex flex-col selection:bg-blue-500/20">
+      <Header
+        onUploadClick={handleReset}
+        showUploadButton={!!result}
+        period={result?.period?.replace(/^Period:\s*/, "")}
+        activeTab="unit-economics"
+      >
+        {result && <OverheadsButton />}
+        {result && <TaxSettingsButton />}
+      </Header>
+
+      <div className="flex-1 flex flex-col px-4 sm:px-6 lg:px-8 py-8 w-full mx-auto">
+        <div className="w-full space-y-8 transition-all duration-500 ease-out">
+
+          {!result && (
+            <div className="mt-16 max-w-2xl mx-auto w-full">
+              <div className="text-center space-y-4 mb-10">
+                <h2 className="text-4xl font-extrabold text-slate-900 tracking-tight">
+                  Юнит-экономика <span className="text-blue-600">Ozon</span>
+                </h2>
+                <p className="text-slate-500 text-lg max-w-lg mx-auto leading-relaxed">
+                  Загрузите отчет «Юнит-экономика» из личного кабинета, чтобы увидеть прибыль и расходы по каждому товару.
+                </p>
+              </div>
+
+              <div className="bg-white rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-200/60 p-2 overflow-hidden">
+                <div className="p-6 sm:p-10 bg-slate-50/50 rounded-[1.25rem]">
+                  <div
+                    className={cn(
+                      "relative group p-10 border-2 border-dashed rounded-2xl transition-all duration-300 ease-out cursor-pointer flex flex-col items-center justify-center gap-4 min-h-[240px] overflow-hidden",
+                      isDragActive
+                        ? "border-blue-500 bg-blue-50/80 scale-[0.98]"
+                        : "border-slate-300 hover:border-blue-400 hover:bg-white hover:shadow-xl hover:shadow-blue-500/5",
+                      isProcessing && "opacity-50 pointer-events-none"
+                    )}
+                    onDragOver={onDragOver}
+                    onDragLeave={onDragLeave}
+                    onDrop={onDrop}
+                    onClick={() => document.getElementById("unit-economics-upload")?.click()}
+                  >
+                    <div className="absolute inset-0 bg-gradient-to-br from-blue-50/0 to-blue-50/0 group-hover:from-blue-50/50 group-hover:to-transparent transition-colors duration-500" />
+                    <input
+                      id="unit-economics-upload"
+                      type="file"
+                      className="hidden"
+                      accept=".xlsx,.csv"
+                      onChange={onFileInputChange}
+                    />
+
+                    <div className={cn(
+                      "p-4 rounded-2xl transition-all duration-300 relative z-10",
+                      isProcessing ? "bg-blue-100 text-blue-600" : "bg-white shadow-sm border border-slate-100 text-blue-500 group-hover:scale-110 group-hover:shadow-md"
+                    )}>
+                      {isProcessing ? (
+                        <Loader2 className="w-8 h-8 animate-spin" />
+                      ) : (
+                        <FileSpreadsheet className="w-8 h-8" />
+                      )}
+                    </div>
+
+                    <div className="text-center space-y-2 relative z-10">
+                      <p className="text-base font-bold text-slate-800">
+                        {isProcessing ? "Обработка отчета..." : "Загрузите отчет «Юнит-экономика» (.xlsx, .csv)"}
+                      </p>
+                      <p className="text-sm text-slate-500">
+                        Перетащите файл сюда или нажмите для выбора
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <AnimatePresence mode="wait">
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="p-4 bg-rose-50 text-rose-700 rounded-2xl border border-rose-200/60 text-sm flex items-center gap-3 max-w-2xl mx-auto shadow-sm"
+              >
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                <span><strong className="font-semibold">Ошибка:</strong> {error}</span>
+              </motion.div>
+            )}
+
+            {result && totals && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.4, ease: "easeOut" }}
+                className="space-y-6"
+              >
+                <ImportDiagnosticsPanel diagnostics={[result.diagnostics]} />
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-6">
+                  <SummaryCard
+                    title="Выручка"
+                    value={totals.salesRevenue}
+                    icon={<Coins className="w-6 h-6 text-blue-500" />}
+                    subText={`Доставлено ${result.deliveredItems.toLocaleString("ru-RU")} шт · возвратов ${result.returnedItems.toLocaleString("ru-RU")} шт`}
+                    details={[
+                      { label: "Продажи", value: result.revenue },
+                      { label: "Баллы за скидки", value: result.discountPoints },
+                      { label: "Программы партнёров", value: result.partnerPrograms }
+                    ]}
+                  />
+                  <SummaryCard
+                    title="Вознаграждение Ozon"
+                    value={result.marketplaceCommission}
+                    icon={<Percent className="w-6 h-6 text-amber-500" />}
+                  />
+                  <SummaryCard
+                    title="Услуги Ozon"
+                    value={totals.ozonServices}
+                    icon={<Truck className="w-6 h-6 text-indigo-500" />}
+                    details={[
+                      { label: "Логистика", value: result.logisticsCost },
+                      { label: "Эквайринг", value: result.acquiringCost },
+                      { label: "Возвраты", value: result.returnsCost },
+                      { label: "Прочие услуги", value: result.additionalServicesCost }
+                    ]}
+                  />
+                  <SummaryCard
+                    title="Продвижение"
+                    value={result.promotionCost}
+                    icon={<Megaphone className="w-6 h-6 text-rose-500" />}
+                  />
+                  <SummaryCard
+                    title="Себестоимость"
+                    value={result.totalCogs}
+                    icon={<Package className="w-6 h-6 text-slate-500" />}
+                  />
+                  {totals.overheads !== 0 && (
+                    <SummaryCard
+                      title="Накладные расходы"
+                      value={totals.overheads}
+                      icon={<Layers className="w-6 h-6 text-violet-500" />}
+                      subText={`Статей: ${overheadSettings.costs.length}`}
+                    />
+                  )}
+                  <SummaryCard
+                    title={`Налог (${TAX_REGIMES[legalEntity.regime].label})`}
+                    value={totals.taxes.incomeTax}
+                    icon={<Landmark className="w-6 h-6 text-orange-500" />}
+                    subText={totals.taxes.incomeTax > 0 ? `${(totals.taxes.incomeTax / totals.salesRevenue * 100).toFixed(1)}% от выручки` : "Нет прибыли"}
+                  />
+                  {vatRate > 0 && (
+                    <SummaryCard
+                      title={`НДС к уплате (${Math.round(vatRate * 100)}%)`}
+                      value={totals.taxes.vatPayable}
+                      icon={<Landmark className="w-6 h-6 text-sky-500" />}
+                      subText={totals.taxes.inputVat > 0 ? undefined : "Без вычета НДС по услугам Ozon"}
+                      details={[
+                        { label: "НДС с продаж", value: totals.taxes.outputVat },
+                        { label: "Вычет по услугам Ozon", value: -totals.taxes.inputVat }
+                      ]}
+                    />
+                  )}
+                  <SummaryCard
+                    title="Чистая прибыль"
+                    value={totals.profit}
+                    icon={<TrendingUp className="w-6 h-6 text-emerald-500" />}
+                    subText={`До налогов: ${formatCurrency(totals.profitBeforeTax, true)}`}
+                    highlight
+                  />
+                  <SummaryCard
+                    title="Маржинальность"
+                    value={totals.margin}
+                    icon={<ReceiptText className="w-6 h-6 text-blue-500" />}
+                    isPercent
+                    subText={`Товаров в отчете: ${result.articles.length}`}
+                  />
+                </div>
+
+                <ArticlesTable articles={result.articles} legalEntity={legalEntity} overheadSettings={overheadSettings} resolveSku={resolveSku} />
+
+                <ReportReconciliation report={result} />
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function SummaryCard({
+  title,
+  value,
+  icon,
+  highlight = false,
+  isPercent = false,
+  subText,
+  details
+}: {
+  title: string;
+  value: number;
+  icon: React.ReactNode;
+  highlight?: boolean;
+  isPercent?: boolean;
+  subText?: string;
+  details?: { label: string; value: number }[];
+}) {
+  return (
+    <div
+      className={cn(
+        "relative p-6 sm:p-8 rounded-3xl border bg-white flex flex-col justify-between min-h-[200px] transition-all duration-300 hover:-translate-y-1 hover:shadow-lg",
+        highlight ? "border-blue-200/80 shadow-[0_8px_30px_rgb(59,130,246,0.1)] ring-1 ring-blue-500/10" : "border-slate-200/60 shadow-[0_8px_30px_rgb(0,0,0,0.04)]"
+      )}
+    >
+      <div className="flex items-start justify-between">
+        <h4 className="text-sm font-bold text-slate-500 uppercase tracking-wider">{title}</h4>
+        <div className="p-3 bg-slate-50 rounded-2xl shrink-0">
+          {icon}
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-col gap-3 min-w-0">
+        <div
+          className="text-2xl sm:text-3xl font-extrabold text-slate-900 tracking-tight truncate"
+          title={isPercent ? `${value.toFixed(2)}%` : formatCurrency(value)}
+        >
+          {isPercent ? `${value.toFixed(2)}%` : formatCurrency(value, true)}
+        </div>
+
+        {subText && (
+          <span className="text-sm font-semibold text-slate-400 truncate" title={subText}>
+            {subText}
+          </span>
+        )}
+
+        {details && details.length > 0 && (
+          <div className="space-y-1 pt-3 border-t border-slate-100">
+            {details.map(row => (
+              <div key={row.label} className="flex items-center justify-between gap-3 text-xs">
+                <span className="font-semibold text-slate-500 truncate">{row.label}</span>
+                <span className="font-bold text-slate-700 whitespace-nowrap">{formatCurrency(row.value, true)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
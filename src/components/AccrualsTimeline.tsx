@@ -0,0 +1,211 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CalendarRange, BarChart3, Table2, Info } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import type { SkuTransaction } from "@/lib/parseAccruals";
+import { EXPENSE_CLASS_LABELS, type ExpenseClass } from "@/lib/expenseRules";
+import { buildAccrualsTimeSeries, TIME_BUCKET_LABELS, type TimeBucket, type TimeSeriesPoint } from "@/lib/accrualsTimeSeries";
+
+interface AccrualsTimelineProps {
+    transactions: SkuTransaction[];
+    selectedKey: string | null;
+    onSelect: (point: TimeSeriesPoint | null) => void;
+}
+
+const CHART_HEIGHT = 220;
+
+const formatRub = (val: number, compact: boolean = false) =>
+    new Intl.NumberFormat("ru-RU", {
+        style: "currency",
+        currency: "RUB",
+        notation: compact ? "compact" : "standard",
+        maximumFractionDigits: compact ? 1 : 0
+    }).format(val);
+
+export function AccrualsTimeline({ transactions, selectedKey, onSelect }: AccrualsTimelineProps) {
+    const { expenseRules } = useAppState();
+    const [bucket, setBucket] = useState<TimeBucket>("week");
+    const [view, setView] = useState<"chart" | "table">("chart");
+
+    const series = useMemo(
+        () => buildAccrualsTimeSeries(transactions, bucket, expenseRules),
+        [transactions, bucket, expenseRules]
+    );
+
+    if (series.points.length === 0) return null;
+
+    const { points } = series;
+    const maxAbs = Math.max(1, ...points.map(p => Math.max(p.inflow, -p.outflow)));
+    const classes = (Object.keys(EXPENSE_CLASS_LABELS) as ExpenseClass[])
+        .filter(c => points.some(p => p.expenses[c] !== 0));
+    const labelStep = Math.max(1, Math.ceil(points.length / 16));
+
+    const togglePoint = (point: TimeSeriesPoint) => onSelect(point.key === selectedKey ? null : point);
+
+    return (
+        <div className="bg-white rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-slate-200/60 overflow-hidden">
+            <div className="p-6 sm:p-8 border-b border-slate-100 flex flex-col xl:flex-row xl:items-center justify-between gap-6">
+                <div className="space-y-2">
+                    <h3 className="text-2xl font-extrabold text-slate-900 tracking-tight flex items-center gap-2">
+                        <CalendarRange className="w-6 h-6 text-blue-600" />
+                        Динамика начислений
+                    </h3>
+                    <p className="text-sm text-slate-500 max-w-xl">
+                        Поступления и списания по датам операций. Нажмите на столбец, чтобы показать в детализации только этот интервал.
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <div className="flex items-center p-1 rounded-xl bg-slate-100/80">
+                        {(Object.keys(TIME_BUCKET_LABELS) as TimeBucket[]).map(b => (
+                            <button
+                                key={b}
+                                onClick={() => {
+                                    setBucket(b);
+                                    onSelect(null);
+                                }}
+                                className={cn(
+                                    "px-4 py-2 text-sm font-bold rounded-lg transition-all",
+                                    bucket === b
+                                        ? "bg-white text-slate-900 shadow-sm"
+                                        : "text-slate-500 hover:text-slate-900"
+                                )}
+                            >
+                                {TIME_BUCKET_LABELS[b]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center p-1 rounded-xl bg-slate-100/80">
+                        <button
+                            onClick={() => setView("chart")}
+                            className={cn(
+                                "p-2 rounded-lg transition-all",
+                                view === "chart" ? "bg-white text-slate-900 shadow-sm" : "text-slate-500 hover:text-slate-900"
+                            )}
+                            title="График"
+                        >
+                            <BarChart3 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setView("table")}
+                            className={cn(
+                                "p-2 rounded-lg transition-all",
+                                view === "table" ? "bg-white text-slate-900 shadow-sm" : "text-slate-500 hover:text-slate-900"
+                            )}
+                            title="Таблица"
+                        >
+                            <Table2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="p-6 sm:p-8 space-y-4">
+                {view === "chart" ? (
+                    <>
+                        <div className="overflow-x-auto">
+                            <div className="flex items-stretch gap-1 min-w-full" style={{ height: CHART_HEIGHT }}>
+                                {points.map(point => {
+                                    const isSelected = point.key === selectedKey;
+                                    const netOffset = (point.net / maxAbs) * 50;
+                                    return (
+                                        <button
+                                            key={point.key}
+                                            onClick={() => togglePoint(point)}
+                                            title={`${point.label}\nПоступления: ${formatRub(point.inflow)}\nСписания: ${formatRub(point.outflow)}\nИтого: ${formatRub(point.net)}`}
+                                            className={cn(
+                                                "relative flex-1 min-w-[14px] flex flex-col rounded-md transition-colors",
+                                                isSelected ? "bg-blue-50 ring-1 ring-blue-200" : "hover:bg-slate-50",
+                                                selectedKey && !isSelected && "opacity-50"
+                                            )}
+                                        >
+                                            <div className="h-1/2 flex items-end justify-center px-0.5">
+                                                <div
+                                                    className="w-full max-w-8 bg-emerald-400 rounded-t-sm"
+                                                    style={{ height: `${(point.inflow / maxAbs) * 100}%` }}
+                                                />
+                                            </div>
+                                            <div className="h-1/2 flex items-start justify-center px-0.5 border-t border-slate-200">
+                                                <div
+                                                    className="w-full max-w-8 bg-rose-400 rounded-b-sm"
+                                                    style={{ height: `${(-point.outflow / maxAbs) * 100}%` }}
+                                                />
+                                            </div>
+                                            {point.net !== 0 && (
+                                                <span
+                                                    className="absolute left-1/2 -translate-x-1/2 -translate-y-1/2 w-2 h-2 rounded-full bg-slate-900 ring-2 ring-white"
+                                                    style={{ top: `${50 - netOffset}%` }}
+                                                />
+                                            )}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            <div className="flex gap-1 min-w-full mt-2">
+                                {points.map((point, idx) => (
+                                    <span key={point.key} className="flex-1 min-w-[14px] text-center text-[10px] font-semibold text-slate-400 whitespace-nowrap">
+                                        {idx % labelStep === 0 ? point.label : ""}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 text-xs font-semibold text-slate-500">
+                            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-emerald-400" />Поступления</span>
+                            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-rose-400" />Списания</span>
+                            <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-slate-900" />Итого</span>
+                        </div>
+                    </>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-[11px] font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                                    <th className="pb-3 pr-4">Интервал</th>
+                                    <th className="pb-3 pr-4 text-right">Поступления</th>
+                                    <th className="pb-3 pr-4 text-right">Списания</th>
+                                    <th className="pb-3 pr-4 text-right">Итого</th>
+                                    {classes.map(c => (
+                                        <th key={c} className="pb-3 pr-4 text-right">{EXPENSE_CLASS_LABELS[c]}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {points.map(point => (
+                                    <tr
+                                        key={point.key}
+                                        onClick={() => togglePoint(point)}
+                                        className={cn(
+                                            "cursor-pointer transition-colors",
+                                            point.key === selectedKey ? "bg-blue-50/70" : "hover:bg-slate-50/80"
+                                        )}
+                                    >
+                                        <td className="py-2.5 pr-4 font-semibold text-slate-700 whitespace-nowrap">{point.label}</td>
+                                        <td className="py-2.5 pr-4 text-right text-emerald-600 whitespace-nowrap">{formatRub(point.inflow)}</td>
+                                        <td className="py-2.5 pr-4 text-right text-rose-500 whitespace-nowrap">{formatRub(point.outflow)}</td>
+                                        <td className={cn("py-2.5 pr-4 text-right font-bold whitespace-nowrap", point.net >= 0 ? "text-slate-900" : "text-rose-600")}>
+                                            {formatRub(point.net)}
+                                        </td>
+                                        {classes.map(c => (
+                                            <td key={c} className="py-2.5 pr-4 text-right text-slate-600 whitespace-nowrap">
+                                                {point.expenses[c] !== 0 ? formatRub(point.expenses[c]) : "—"}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {series.undatedCount > 0 && (
+                    <p className="flex items-center gap-2 text-xs text-slate-500">
+                        <Info className="w-3.5 h-3.5 shrink-0" />
+                        Операций без даты: {series.undatedCount} на сумму {formatRub(series.undatedAmount)} — они не попадают в интервалы.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,22 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { ArticleRow } from "@/lib/parse";
-import { ArrowUpDown, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowUpDown, ChevronDown, ChevronUp, Columns3, Pin, PinOff, Plus, RotateCcw, Save, Search, SlidersHorizontal, Trash2, X } from "lucide-react";
 import { formatCompactCurrency, formatCompactNumber } from "@/lib/utils";
+import { calculateTaxes, getEffectiveVatRate, type LegalEntity } from "@/lib/taxRegime";
+import type { SkuResolver } from "@/lib/skuIdentity";
+import { allocateAmount, allocateOverheads, type OverheadCost, type OverheadSettings } from "@/lib/overheads";
+import {
+    DEFAULT_COLUMN_LAYOUT,
+    createColumnLayoutId,
+    loadArticlesTableLayouts,
+    saveArticlesTableLayouts,
+    type ArticlesTableLayouts,
+    type ColumnLayout
+} from "@/lib/articlesTableLayout";
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { SkuDetailsDrawer } from "@/components/SkuDetailsDrawer";
+import { createId } from "@/lib/storedSettings";
 
 function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs));
@@ -11,50 +24,144 @@ function cn(...inputs: ClassValue[]) {
 
 interface ArticlesTableProps {
     articles: ArticleRow[];
+    legalEntity: LegalEntity;
+    overheadSettings: OverheadSettings;
+    resolveSku: SkuResolver;
 }
 
-type SortField = keyof ArticleRow | "totalCosts" | "profit" | "margin" | "crossDocking" | "incomeTax" | "finalPromotionCost" | "totalCostsWithTax" | "totalSalesRevenue" | "avgPrice";
-type SortDirection = "asc" | "desc";
+interface EnrichedArticle extends ArticleRow {
+    totalSalesRevenue: number;
+    overheads: Record<string, number>; // by overhead cost id, negative
+    overheadTotal: number;
+    vatServices: number;
+    finalPromotionCost: number;
+    totalCosts: number;
+    totalCostsWithTax: number;
+    profit: number;
+    margin: number;
+    vatPayable: number;
+    incomeTax: number;
+    avgPrice: number;
+}
 
-export function ArticlesTable({ articles }: ArticlesTableProps) {
-    const [sortField, setSortField] = useState<SortField>("revenue");
-    const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
-    const [distributeAds, setDistributeAds] = useState(false);
+type ColumnSection = "stats" | "income" | "costs" | "result";
+type ColumnFormat = "units" | "currency" | "muted" | "cost" | "signed" | "percent";
+
+// Column ids double as sort keys and as the ids stored in saved layouts
+interface ColumnDef {
+    id: string;
+    label: string;
+    section: ColumnSection;
+    format: ColumnFormat;
+    width: 110 | 120 | 140;
+    isSectionTotal?: boolean;
+    getValue: (article: EnrichedArticle) => number;
+}
 
-    // Constants
-    const SUBSCRIPTION_COST = 24990;
-    const CROSS_DOCKING_RATE = 0.015;
-    const INCOME_TAX_RATE = 0.25;
+interface RangeFilter {
+    id: string;
+    column: string;
+    min: string;
+    max: string;
+}
+
+type SortDirection = "asc" | "desc";
 
-    // Calculate totals for distribution
+const SKU_WIDTH = 400;
+const ROW_HEIGHT = 60;
+const OVERSCAN = 8;
+
+const SECTION_LABELS: Record<ColumnSection, string> = {
+    stats: "Statistics",
+    income: "Income",
+    costs: "Costs",
+    result: "Result"
+};
+
+const SECTION_SUPER_HEADER: Record<ColumnSection, string> = {
+    stats: "border-slate-200 bg-slate-50 text-slate-400",
+    income: "border-emerald-200 bg-emerald-100 text-emerald-700",
+    costs: "border-rose-200 bg-rose-100 text-rose-700",
+    result: "border-slate-200 bg-slate-50 text-slate-600"
+};
+
+const SECTION_HEADER: Record<ColumnSection, string> = {
+    stats: "bg-slate-50 hover:bg-slate-100",
+    income: "bg-emerald-50 hover:bg-emerald-50",
+    costs: "bg-rose-50 hover:bg-rose-50",
+    result: "bg-slate-50 hover:bg-slate-100"
+};
+
+const WIDTH_CLASSES: Record<ColumnDef["width"], string> = {
+    110: "w-[110px] min-w-[110px] max-w-[110px]",
+    120: "w-[120px] min-w-[120px] max-w-[120px]",
+    140: "w-[140px] min-w-[140px] max-w-[140px]"
+};
+
+const buildColumns = (overheadCosts: OverheadCost[], showVat: boolean): ColumnDef[] => [
+    { id: "deliveredItems", label: "Delivered", section: "stats", format: "units", width: 120, getValue: a => a.deliveredItems },
+    { id: "avgPrice", label: "Avg. Price", section: "stats", format: "currency", width: 120, getValue: a => a.avgPrice },
+    { id: "revenue", label: "Revenue", section: "income", format: "currency", width: 110, getValue: a => a.revenue },
+    { id: "discountPoints", label: "Points", section: "income", format: "muted", width: 110, getValue: a => a.discountPoints },
+    { id: "partnerPrograms", label: "Partners", section: "income", format: "muted", width: 110, getValue: a => a.partnerPrograms },
+    { id: "totalSalesRevenue", label: "Total Sales", section: "income", format: "currency", width: 140, isSectionTotal: true, getValue: a => a.totalSalesRevenue },
+    { id: "totalCogs", label: "COGS", section: "costs", format: "cost", width: 110, getValue: a => a.totalCogs },
+    { id: "marketplaceCommission", label: "Comm.", section: "costs", format: "cost", width: 110, getValue: a => a.marketplaceCommission },
+    { id: "logisticsCost", label: "Logistics", section: "costs", format: "cost", width: 110, getValue: a => a.logisticsCost },
+    { id: "acquiringCost", label: "Acquiring", section: "costs", format: "cost", width: 110, getValue: a => a.acquiringCost },
+    { id: "returnsCost", label: "Returns", section: "costs", format: "cost", width: 110, getValue: a => a.returnsCost },
+    { id: "additionalServicesCost", label: "Services", section: "costs", format: "cost", width: 110, getValue: a => a.additionalServicesCost },
+    ...overheadCosts.map((cost): ColumnDef => ({
+        id: `overhead:${cost.id}`,
+        label: cost.name || "Overhead",
+        section: "costs",
+        format: "cost",
+        width: 110,
+        getValue: a => a.overheads[cost.id] ?? 0
+    })),
+    { id: "finalPromotionCost", label: "Ads", section: "costs", format: "cost", width: 110, getValue: a => a.finalPromotionCost },
+    ...(showVat ? [{ id: "vatPayable", label: "VAT", section: "costs", format: "cost", width: 110, getValue: a => a.vatPayable } satisfies ColumnDef] : []),
+    { id: "incomeTax", label: "Tax", section: "costs", format: "cost", width: 110, getValue: a => a.incomeTax },
+    { id: "totalCostsWithTax", label: "Total Costs", section: "costs", format: "cost", width: 140, isSectionTotal: true, getValue: a => a.totalCostsWithTax },
+    { id: "profit", label: "Profit", section: "result", format: "signed", width: 110, getValue: a => a.profit },
+    { id: "margin", label: "Margin", section: "result", format: "percent", width: 110, getValue: a => a.margin }
+];
+
+const enrichArticles = (
+    articles: ArticleRow[],
+    legalEntity: LegalEntity,
+    overheadSettings: OverheadSettings,
+    resolveSku: SkuResolver
+): EnrichedArticle[] => {
+    const { costs: overheadCosts, adsDriver } = overheadSettings;
     const totalPromotionCost = articles.reduce((sum, a) => sum + a.promotionCost, 0);
-    const totalRevenue = articles.reduce((sum, a) => sum + (a.revenue + a.discountPoints + a.partnerPrograms), 0);
-    const totalDelivered = articles.reduce((sum, a) => sum + a.deliveredItems, 0);
-    const totalArticlesCount = articles.length;
 
-    // Helper to calculate full article metrics
-    const getEnrichedArticle = (article: ArticleRow) => {
+    // Allocation drivers work on positive amounts, the table keeps costs negative
+    const allocationTargets = articles.map(a => ({
+        sku: a.sku,
+        revenue: a.revenue + a.discountPoints + a.partnerPrograms,
+        units: a.deliveredItems
+    }));
+    const overheadAllocation = allocateOverheads(overheadCosts, allocationTargets, resolveSku);
+    const adsAllocation = adsDriver === "direct"
+        ? articles.map(a => -a.promotionCost)
+        : allocateAmount(-totalPromotionCost, adsDriver, allocationTargets);
+
+    return articles.map((article, index) => {
         const totalSalesRevenue = article.revenue + article.discountPoints + article.partnerPrograms;
 
-        // 1. Cross Docking
-        const crossDocking = -(totalSalesRevenue * CROSS_DOCKING_RATE);
+        // 1. Overheads, one column per configured cost
+        const overheads: Record<string, number> = {};
+        overheadCosts.forEach(cost => {
+            overheads[cost.id] = -overheadAllocation[cost.id][index];
+        });
+        const overheadTotal = overheadCosts.reduce((sum, cost) => sum + overheads[cost.id], 0);
+        const nonOzonOverheads = overheadCosts.reduce((sum, cost) => (cost.ozonService ? sum : sum + overheads[cost.id]), 0);
 
-        // 2. Subscription (Proportional by Revenue)
-        const revenueShare = totalRevenue > 0 ? totalSalesRevenue / totalRevenue : 0;
-        const subscription = -(SUBSCRIPTION_COST * revenueShare);
+        // 2. Promotion (Ads) - own spend or redistributed by the chosen driver
+        const finalPromotionCost = -adsAllocation[index];
 
-        // 3. Promotion (Ads) - Either direct or distributed PROPORTIONALLY by Revenue
-        // NOW INCLUDES SUBSCRIPTION
-        let finalPromotionCost = article.promotionCost;
-        if (distributeAds) {
-            const revenueShare = totalRevenue > 0 ? totalSalesRevenue / totalRevenue : 0;
-            finalPromotionCost = -(Math.abs(totalPromotionCost) * revenueShare);
-        }
-
-        // Add subscription to final promotion cost
-        finalPromotionCost += subscription;
-
-        // 4. Total Costs (Direct + Distributed)
+        // 3. Total Costs (Direct + Distributed)
         const totalCosts =
             article.marketplaceCommission +
             article.logisticsCost +
@@ -63,41 +170,166 @@ export function ArticlesTable({ articles }: ArticlesTableProps) {
             article.additionalServicesCost +
             article.totalCogs +
             finalPromotionCost +
-            crossDocking;
+            overheadTotal;
 
-        // 5. Profit (Pre-tax)
+        // 4. Profit (Pre-tax)
         const profitPreTax = totalSalesRevenue + totalCosts;
 
-        // 6. Income Tax
-        const incomeTax = profitPreTax > 0 ? -(profitPreTax * INCOME_TAX_RATE) : 0;
+        // 5. VAT payable and Income Tax (acquiring and non-Ozon overheads carry no input VAT)
+        const vatServices = -(totalCosts - article.acquiringCost - article.totalCogs - nonOzonOverheads);
+        const taxes = calculateTaxes(legalEntity, totalSalesRevenue, vatServices, profitPreTax);
+        const vatPayable = -taxes.vatPayable;
+        const incomeTax = -taxes.incomeTax;
 
-        // 7. Net Profit
-        const profit = profitPreTax + incomeTax;
+        // 6. Net Profit
+        const profit = profitPreTax + vatPayable + incomeTax;
 
-        // 8. Margin
+        // 7. Margin
         const margin = totalSalesRevenue ? (profit / totalSalesRevenue) * 100 : 0;
 
-        // 9. Avg Price
+        // 8. Avg Price
         const avgPrice = article.deliveredItems > 0 ? totalSalesRevenue / article.deliveredItems : 0;
 
         return {
             ...article,
             totalSalesRevenue,
-            crossDocking,
-            subscription,
+            overheads,
+            overheadTotal,
+            vatServices,
             finalPromotionCost,
             totalCosts,
-            totalCostsWithTax: totalCosts + incomeTax,
+            totalCostsWithTax: totalCosts + vatPayable + incomeTax,
             profit,
             margin,
+            vatPayable,
             incomeTax,
             avgPrice
         };
+    });
+};
+
+// Costs are negative in the table, so their filters compare absolute amounts ("returns above 500")
+interface ArticleTotals {
+    revenue: number;
+    overheads: number;
+    vatPayable: number;
+    incomeTax: number;
+    totalCostsWithTax: number;
+    profit: number;
+    margin: number;
+}
+
+// Taxes are calculated once over the sums, like the dashboard does, so one article's loss offsets another's profit
+const sumArticles = (articles: EnrichedArticle[], legalEntity: LegalEntity): ArticleTotals => {
+    const revenue = articles.reduce((sum, a) => sum + a.totalSalesRevenue, 0);
+    const costs = articles.reduce((sum, a) => sum + a.totalCosts, 0);
+    const vatServices = articles.reduce((sum, a) => sum + a.vatServices, 0);
+    const taxes = calculateTaxes(legalEntity, revenue, vatServices, revenue + costs);
+    const profit = revenue + costs - taxes.total;
+    return {
+        revenue,
+        overheads: articles.reduce((sum, a) => sum + a.overheadTotal, 0),
+        vatPayable: -taxes.vatPayable,
+        incomeTax: -taxes.incomeTax,
+        totalCostsWithTax: costs - taxes.total,
+        profit,
+        margin: revenue ? (profit / revenue) * 100 : 0
     };
+};
+
+const matchesRange = (value: number, filter: RangeFilter, isCost: boolean): boolean => {
+    const compared = isCost ? Math.abs(value) : value;
+    if (filter.min.trim() !== "" && compared < Number(filter.min)) return false;
+    if (filter.max.trim() !== "" && compared > Number(filter.max)) return false;
+    return true;
+};
 
-    const enrichedArticles = articles.map(getEnrichedArticle);
+const isActiveFilter = (filter: RangeFilter): boolean => filter.min.trim() !== "" || filter.max.trim() !== "";
 
-    const handleSort = (field: SortField) => {
+export function ArticlesTable({ articles, legalEntity, overheadSettings, resolveSku }: ArticlesTableProps) {
+    const [sortField, setSortField] = useState("revenue");
+    const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+    const [search, setSearch] = useState("");
+    const [filters, setFilters] = useState<RangeFilter[]>([]);
+    const [openPanel, setOpenPanel] = useState<"filters" | "columns" | null>(null);
+    const [layouts, setLayoutsState] = useState<ArticlesTableLayouts>(loadArticlesTableLayouts);
+    const [layoutName, setLayoutName] = useState("");
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(800);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const [detailsArticle, setDetailsArticle] = useState<EnrichedArticle | null>(null);
+
+    const showVat = getEffectiveVatRate(legalEntity) > 0;
+    const columns = useMemo(() => buildColumns(overheadSettings.costs, showVat), [overheadSettings.costs, showVat]);
+    const columnsById = useMemo(() => new Map(columns.map(c => [c.id, c])), [columns]);
+    const enrichedArticles = useMemo(() => enrichArticles(articles, legalEntity, overheadSettings, resolveSku), [articles, legalEntity, overheadSettings, resolveSku]);
+
+    // The container's height depends on the window, so it is measured up front and on every resize, not only on scroll
+    useEffect(() => {
+        const container = scrollRef.current;
+        if (!container) return;
+        const measure = () => setViewportHeight(container.clientHeight);
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const setLayouts = (next: ArticlesTableLayouts) => {
+        setLayoutsState(next);
+        saveArticlesTableLayouts(next);
+    };
+    const setCurrentLayout = (current: ColumnLayout) => setLayouts({ ...layouts, current });
+
+    // Pinned columns come first in pin order, the rest keep their section order
+    const { hidden, pinned } = layouts.current;
+    const pinnedColumns = pinned
+        .map(id => columnsById.get(id))
+        .filter((c): c is ColumnDef => !!c && !hidden.includes(c.id));
+    const visibleColumns = [...pinnedColumns, ...columns.filter(c => !hidden.includes(c.id) && !pinned.includes(c.id))];
+    const pinnedOffsets: number[] = [];
+    pinnedColumns.forEach((column, i) => {
+        pinnedOffsets.push(i === 0 ? SKU_WIDTH : pinnedOffsets[i - 1] + pinnedColumns[i - 1].width);
+    });
+
+    const toggleHidden = (id: string) => {
+        setCurrentLayout({ ...layouts.current, hidden: hidden.includes(id) ? hidden.filter(h => h !== id) : [...hidden, id] });
+    };
+    const togglePinned = (id: string) => {
+        setCurrentLayout({ ...layouts.current, pinned: pinned.includes(id) ? pinned.filter(p => p !== id) : [...pinned, id] });
+    };
+    const saveLayout = () => {
+        const name = layoutName.trim();
+        if (!name) return;
+        const rest = layouts.saved.filter(l => l.name !== name);
+        setLayouts({ ...layouts, saved: [...rest, { id: createColumnLayoutId(), name, ...layouts.current }] });
+        setLayoutName("");
+    };
+    const updateFilter = (id: string, patch: Partial<RangeFilter>) => {
+        setFilters(filters.map(f => (f.id === id ? { ...f, ...patch } : f)));
+    };
+
+    const filteredArticles = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        const activeFilters = filters.filter(isActiveFilter).flatMap(filter => {
+            const column = columnsById.get(filter.column);
+            return column ? [{ filter, column }] : [];
+        });
+        return enrichedArticles.filter(article => {
+            if (query && !article.sku.toLowerCase().includes(query) && !article.name.toLowerCase().includes(query)) return false;
+            return activeFilters.every(({ filter, column }) => matchesRange(column.getValue(article), filter, column.format === "cost"));
+        });
+    }, [enrichedArticles, search, filters, columnsById]);
+
+    const sortedArticles = useMemo(() => {
+        const column = columnsById.get(sortField);
+        const direction = sortDirection === "asc" ? 1 : -1;
+        return [...filteredArticles].sort((a, b) =>
+            column ? direction * (column.getValue(a) - column.getValue(b)) : direction * a.sku.localeCompare(b.sku)
+        );
+    }, [filteredArticles, sortField, sortDirection, columnsById]);
+
+    const handleSort = (field: string) => {
         if (sortField === field) {
             setSortDirection(sortDirection === "asc" ? "desc" : "asc");
         } else {
@@ -106,24 +338,7 @@ export function ArticlesTable({ articles }: ArticlesTableProps) {
         }
     };
 
-    const sortedArticles = [...enrichedArticles].sort((a, b) => {
-        const aValue = (a as any)[sortField];
-        const bValue = (b as any)[sortField];
-
-        if (typeof aValue === "string" && typeof bValue === "string") {
-            return sortDirection === "asc"
-                ? aValue.localeCompare(bValue)
-                : bValue.localeCompare(aValue);
-        }
-
-        if (typeof aValue === "number" && typeof bValue === "number") {
-            return sortDirection === "asc" ? aValue - bValue : bValue - aValue;
-        }
-
-        return 0;
-    });
-
-    const SortIcon = ({ field }: { field: SortField }) => {
+    const renderSortIcon = (field: string) => {
         if (sortField !== field) return <ArrowUpDown className="w-4 h-4 opacity-30" />;
         return sortDirection === "asc" ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />;
     };
@@ -141,258 +356,399 @@ export function ArticlesTable({ articles }: ArticlesTableProps) {
     );
 
 
-    // Calculate totals for summary metrics
-    // We need to calculate Total Profit using the same logic as the Dashboard:
-    // 1. Sum up all Pre-Tax Costs
-    // 2. Sum up Total Revenue
-    // 3. Calculate Global Tax on the (Revenue + Costs)
-    // 4. Net Profit = (Revenue + Costs) - Tax
+    const totalDelivered = enrichedArticles.reduce((sum, a) => sum + a.deliveredItems, 0);
+
+    // The summary and the totals row both follow search and filters; taxes and ratios are recomputed from the sums
+    const totals = useMemo(() => sumArticles(filteredArticles, legalEntity), [filteredArticles, legalEntity]);
+    const filteredDelivered = filteredArticles.reduce((sum, a) => sum + a.deliveredItems, 0);
+    const getColumnTotal = (column: ColumnDef): number => {
+        if (column.id === "avgPrice") return filteredDelivered > 0 ? totals.revenue / filteredDelivered : 0;
+        if (column.id === "vatPayable") return totals.vatPayable;
+        if (column.id === "incomeTax") return totals.incomeTax;
+        if (column.id === "totalCostsWithTax") return totals.totalCostsWithTax;
+        if (column.id === "profit") return totals.profit;
+        if (column.id === "margin") return totals.margin;
+        return filteredArticles.reduce((sum, a) => sum + column.getValue(a), 0);
+    };
 
-    const totalPreTaxCosts = enrichedArticles.reduce((sum, a) =>
-        sum +
-        a.marketplaceCommission +
-        a.logisticsCost +
-        a.acquiringCost +
-        a.returnsCost +
-        a.additionalServicesCost +
-        a.totalCogs +
-        a.finalPromotionCost +
-        a.crossDocking
-        , 0);
+    // Only the rows in view (plus overscan) are rendered, spacer rows keep the scroll height
+    const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const endIndex = Math.min(sortedArticles.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+    const visibleArticles = sortedArticles.slice(startIndex, endIndex);
+
+    // Super headers span runs of neighbouring columns from the same section; pinned runs stay sticky
+    const superHeaders: { section: ColumnSection; span: number; start: number }[] = [];
+    visibleColumns.forEach((column, i) => {
+        const last = superHeaders[superHeaders.length - 1];
+        const crossesPin = i === pinnedColumns.length;
+        if (last && last.section === column.section && !crossesPin) last.span++;
+        else superHeaders.push({ section: column.section, span: 1, start: i });
+    });
 
-    const totalPreTaxProfit = totalRevenue + totalPreTaxCosts;
-    const globalIncomeTax = totalPreTaxProfit > 0 ? -(totalPreTaxProfit * INCOME_TAX_RATE) : 0;
-    const totalProfit = totalPreTaxProfit + globalIncomeTax;
+    const isPinnedIndex = (index: number) => index < pinnedColumns.length;
+    const getStickyStyle = (index: number) => (isPinnedIndex(index) ? { left: pinnedOffsets[index] } : undefined);
+
+    const getCellClass = (column: ColumnDef, article: EnrichedArticle) => {
+        if (column.isSectionTotal && column.section === "income") return "font-bold text-emerald-700 border-r border-emerald-100 bg-emerald-50";
+        if (column.isSectionTotal) return "text-rose-700 font-medium border-r border-rose-100 bg-rose-50";
+        if (column.format === "cost") return "text-red-600/70";
+        if (column.format === "muted") return "text-slate-500";
+        if (column.format === "signed") return cn("font-bold", article.profit > 0 ? "text-emerald-600" : "text-red-600");
+        if (column.format === "percent") return article.margin > 0 ? "text-emerald-600" : "text-red-600";
+        return "font-medium text-slate-700";
+    };
 
-    const totalMargin = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
+    const renderValue = (column: ColumnDef, article: EnrichedArticle) => {
+        const value = column.getValue(article);
+        if (column.format === "units") {
+            return (
+                <div className="flex flex-col items-end">
+                    <span className="font-medium">{formatNumber(value)}</span>
+                    <span className="text-[10px] text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                        {totalDelivered > 0 ? ((value / totalDelivered) * 100).toFixed(1) : "0.0"}%
+                    </span>
+                </div>
+            );
+        }
+        if (column.format === "cost") return renderWithPercent(value, article.totalSalesRevenue);
+        if (column.format === "percent") return `${value.toFixed(1)}%`;
+        return formatCurrency(value);
+    };
+
+    const isFiltered = search.trim() !== "" || filters.some(isActiveFilter);
+    const inputClass = "px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20";
 
     return (
         <div className="space-y-4">
-            <div className="flex items-center justify-between space-x-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
                 <div className="flex items-center gap-6 text-sm">
                     <div className="flex flex-col">
                         <span className="text-slate-500 text-xs uppercase tracking-wider font-semibold">SKUs</span>
-                        <span className="font-bold text-slate-800 text-lg leading-tight">{formatNumber(enrichedArticles.length)}</span>
+                        <span className="font-bold text-slate-800 text-lg leading-tight">
+                            {isFiltered && `${formatNumber(filteredArticles.length)} / `}{formatNumber(enrichedArticles.length)}
+                        </span>
                     </div>
                     <div className="w-px h-8 bg-slate-200" />
                     <div className="flex flex-col">
                         <span className="text-slate-500 text-xs uppercase tracking-wider font-semibold">Total Revenue</span>
-                        <span className="font-bold text-slate-800 text-lg leading-tight">{formatCurrency(totalRevenue)}</span>
+                        <span className="font-bold text-slate-800 text-lg leading-tight">{formatCurrency(totals.revenue)}</span>
+                    </div>
+                    <div className="w-px h-8 bg-slate-200" />
+                    <div className="flex flex-col">
+                        <span className="text-slate-500 text-xs uppercase tracking-wider font-semibold">Overheads</span>
+                        <span className="font-bold text-slate-800 text-lg leading-tight">{formatCurrency(totals.overheads)}</span>
                     </div>
                     <div className="w-px h-8 bg-slate-200" />
                     <div className="flex flex-col">
                         <span className="text-slate-500 text-xs uppercase tracking-wider font-semibold">Total Profit</span>
-                        <span className={cn("font-bold text-lg leading-tight", totalProfit > 0 ? "text-emerald-600" : "text-red-600")}>
-                            {formatCurrency(totalProfit)}
+                        <span className={cn("font-bold text-lg leading-tight", totals.profit > 0 ? "text-emerald-600" : "text-red-600")}>
+                            {formatCurrency(totals.profit)}
                         </span>
                     </div>
                     <div className="w-px h-8 bg-slate-200" />
                     <div className="flex flex-col">
                         <span className="text-slate-500 text-xs uppercase tracking-wider font-semibold">Avg. Margin</span>
-                        <span className={cn("font-bold text-lg leading-tight", totalMargin > 0 ? "text-emerald-600" : "text-red-600")}>
-                            {totalMargin.toFixed(1)}%
+                        <span className={cn("font-bold text-lg leading-tight", totals.margin > 0 ? "text-emerald-600" : "text-red-600")}>
+                            {totals.margin.toFixed(1)}%
                         </span>
                     </div>
                 </div>
 
-                <div className="flex items-center space-x-2 border-l border-slate-200 pl-4">
-                    <div className="flex items-center space-x-2">
-                        <label htmlFor="distribute-ads" className="text-sm font-medium text-slate-700 cursor-pointer select-none">
-                            Spread Ads Proportionally (by Revenue)
-                        </label>
+                <div className="flex items-center gap-2 border-l border-slate-200 pl-4">
+                    <div className="relative">
+                        <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                        <input
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search SKU or name"
+                            className={cn(inputClass, "w-56 pl-8")}
+                        />
+                    </div>
+                    <button
+                        onClick={() => setOpenPanel(openPanel === "filters" ? null : "filters")}
+                        className={cn(
+                            "flex items-center gap-1.5 px-2.5 py-1.5 text-sm font-medium rounded-lg border transition-colors",
+                            openPanel === "filters" || filters.length > 0 ? "bg-blue-50 text-blue-600 border-blue-200" : "text-slate-600 border-slate-200 hover:bg-slate-50"
+                        )}
+                    >
+                        <SlidersHorizontal className="w-4 h-4" />
+                        Filters{filters.length > 0 && ` (${filters.length})`}
+                    </button>
+                    <button
+                        onClick={() => setOpenPanel(openPanel === "columns" ? null : "columns")}
+                        className={cn(
+                            "flex items-center gap-1.5 px-2.5 py-1.5 text-sm font-medium rounded-lg border transition-colors",
+                            openPanel === "columns" ? "bg-blue-50 text-blue-600 border-blue-200" : "text-slate-600 border-slate-200 hover:bg-slate-50"
+                        )}
+                    >
+                        <Columns3 className="w-4 h-4" />
+                        Columns
+                    </button>
+                </div>
+            </div>
+
+            {openPanel === "filters" && (
+                <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-2">
+                    {filters.length === 0 && (
+                        <p className="text-sm text-slate-400">No filters yet. Costs are compared by absolute amount, e.g. Returns from 500.</p>
+                    )}
+                    {filters.map(filter => (
+                        <div key={filter.id} className="flex flex-wrap items-center gap-2 text-sm">
+                            <select value={filter.column} onChange={(e) => updateFilter(filter.id, { column: e.target.value })} className={inputClass}>
+                                {columns.map(c => (
+                                    <option key={c.id} value={c.id}>{c.label}</option>
+                                ))}
+                            </select>
+                            <span className="text-slate-500">from</span>
+                            <input
+                                type="number"
+                                value={filter.min}
+                                onChange={(e) => updateFilter(filter.id, { min: e.target.value })}
+                                className={cn(inputClass, "w-28 text-right")}
+                            />
+                            <span className="text-slate-500">to</span>
+                            <input
+                                type="number"
+                                value={filter.max}
+                                onChange={(e) => updateFilter(filter.id, { max: e.target.value })}
+                                className={cn(inputClass, "w-28 text-right")}
+                            />
+                            <button
+                                onClick={() => setFilters(filters.filter(f => f.id !== filter.id))}
+                                className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                                title="Remove filter"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-2 pt-1">
                         <button
-                            id="distribute-ads"
-                            onClick={() => setDistributeAds(!distributeAds)}
-                            className={cn(
-                                "relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
-                                distributeAds ? "bg-blue-600" : "bg-slate-200"
-                            )}
+                            onClick={() => setFilters([...filters, { id: createId("filter"), column: "returnsCost", min: "", max: "" }])}
+                            className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-xl transition-colors"
                         >
-                            <span
-                                className={cn(
-                                    "inline-block h-4 w-4 transform rounded-full bg-white transition-transform",
-                                    distributeAds ? "translate-x-6" : "translate-x-1"
-                                )}
-                            />
+                            <Plus className="w-4 h-4" />
+                            Add filter
+                        </button>
+                        <button
+                            onClick={() => setFilters([...filters, { id: createId("filter"), column: "margin", min: "", max: "0" }])}
+                            className="px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
+                        >
+                            Loss-making (margin ≤ 0)
                         </button>
+                        {filters.length > 0 && (
+                            <button
+                                onClick={() => setFilters([])}
+                                className="px-3 py-2 text-sm font-medium text-slate-500 hover:text-rose-600 rounded-xl transition-colors"
+                            >
+                                Clear all
+                            </button>
+                        )}
                     </div>
                 </div>
-            </div>
+            )}
+
+            {openPanel === "columns" && (
+                <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-4">
+                    <div className="grid gap-1 sm:grid-cols-2 lg:grid-cols-4">
+                        {columns.map(column => {
+                            const isPinned = pinned.includes(column.id);
+                            return (
+                                <div key={column.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded-lg hover:bg-slate-50">
+                                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none truncate">
+                                        <input
+                                            type="checkbox"
+                                            checked={!hidden.includes(column.id)}
+                                            onChange={() => toggleHidden(column.id)}
+                                            className="rounded border-slate-300"
+                                        />
+                                        <span className="truncate">{column.label}</span>
+                                        <span className="text-[10px] uppercase text-slate-400">{SECTION_LABELS[column.section]}</span>
+                                    </label>
+                                    <button
+                                        onClick={() => togglePinned(column.id)}
+                                        className={cn("p-1 rounded-md transition-colors", isPinned ? "text-blue-600 bg-blue-50" : "text-slate-300 hover:text-slate-600")}
+                                        title={isPinned ? "Unpin" : "Pin to the left"}
+                                    >
+                                        {isPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-slate-100">
+                        <input
+                            value={layoutName}
+                            onChange={(e) => setLayoutName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && saveLayout()}
+                            placeholder="Layout name"
+                            className={cn(inputClass, "w-48")}
+                        />
+                        <button
+                            onClick={saveLayout}
+                            disabled={!layoutName.trim()}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            <Save className="w-4 h-4" />
+                            Save layout
+                        </button>
+                        <button
+                            onClick={() => setCurrentLayout(DEFAULT_COLUMN_LAYOUT)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        >
+                            <RotateCcw className="w-4 h-4" />
+                            Reset
+                        </button>
+                        {layouts.saved.map(layout => (
+                            <div key={layout.id} className="flex items-center rounded-lg border border-slate-200 overflow-hidden">
+                                <button
+                                    onClick={() => setCurrentLayout({ hidden: layout.hidden, pinned: layout.pinned })}
+                                    className="px-2.5 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+                                >
+                                    {layout.name}
+                                </button>
+                                <button
+                                    onClick={() => setLayouts({ ...layouts, saved: layouts.saved.filter(l => l.id !== layout.id) })}
+                                    className="px-1.5 py-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 border-l border-slate-200"
+                                    title="Delete layout"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
 
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-                <div className="overflow-x-auto max-h-[calc(100vh-240px)] overflow-y-auto">
+                <div
+                    ref={scrollRef}
+                    className="overflow-x-auto max-h-[calc(100vh-240px)] overflow-y-auto"
+                    onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                >
                     <table className="w-full text-sm text-left whitespace-nowrap border-separate border-spacing-0">
                         <thead className="bg-slate-50 text-slate-700 font-medium [&_th]:border-b [&_th]:border-slate-200">
                             {/* Super Headers */}
                             <tr className="text-xs uppercase tracking-wider font-bold">
-                                <th colSpan={3} className="p-2 border-r border-slate-200 bg-slate-50 text-center text-slate-400 sticky left-0 top-0 z-50 h-[40px]">
-                                    Statistics
-                                </th>
-
-                                <th colSpan={4} className="p-2 border-r border-emerald-200 bg-emerald-100 text-center text-emerald-700 sticky top-0 z-40 h-[40px]">
-                                    Income
-                                </th>
-                                <th colSpan={10} className="p-2 border-r border-rose-200 bg-rose-100 text-center text-rose-700 sticky top-0 z-40 h-[40px]">
-                                    Costs
-                                </th>
-                                <th colSpan={2} className="p-2 bg-slate-50 text-center text-slate-600 sticky top-0 z-40 h-[40px]">
-                                    Result
-                                </th>
+                                <th className="p-2 border-r border-slate-200 bg-slate-50 sticky left-0 top-0 z-50 h-[40px]" />
+                                {superHeaders.map(group => (
+                                    <th
+                                        key={group.start}
+                                        colSpan={group.span}
+                                        className={cn(
+                                            "p-2 border-r text-center sticky top-0 h-[40px]",
+                                            SECTION_SUPER_HEADER[group.section],
+                                            isPinnedIndex(group.start) ? "z-50" : "z-40"
+                                        )}
+                                        style={getStickyStyle(group.start)}
+                                    >
+                                        {SECTION_LABELS[group.section]}
+                                    </th>
+                                ))}
                             </tr>
                             <tr>
                                 <th className="p-4 cursor-pointer hover:bg-slate-100 transition-colors sticky left-0 bg-slate-50 z-50 border-r border-slate-200 min-w-[400px] w-[400px] max-w-[400px] top-[40px]" onClick={() => handleSort("sku")}>
                                     <div className="flex items-center gap-2">
-                                        SKU <SortIcon field="sku" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-slate-100 transition-colors sticky left-[400px] bg-slate-50 z-50 border-r border-slate-200 shadow-[4px_0_4px_-2px_rgba(0,0,0,0.05)] w-[120px] min-w-[120px] max-w-[120px] top-[40px]" onClick={() => handleSort("deliveredItems")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        Delivered <SortIcon field="deliveredItems" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-slate-100 transition-colors sticky left-[520px] bg-slate-50 z-50 border-r border-slate-200 shadow-[4px_0_4px_-2px_rgba(0,0,0,0.05)] w-[120px] min-w-[120px] max-w-[120px] top-[40px]" onClick={() => handleSort("avgPrice")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        Avg. Price <SortIcon field="avgPrice" />
-                                    </div>
-                                </th>
-
-                                <th className="p-4 text-right cursor-pointer hover:bg-emerald-50 transition-colors bg-emerald-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("revenue")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Revenue</span> <SortIcon field="revenue" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-emerald-50 transition-colors bg-emerald-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("discountPoints")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Points</span> <SortIcon field="discountPoints" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-emerald-50 transition-colors bg-emerald-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("partnerPrograms")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Partners</span> <SortIcon field="partnerPrograms" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-emerald-50 transition-colors border-r border-emerald-100 bg-emerald-50 w-[140px] min-w-[140px] max-w-[140px] sticky top-[40px] z-40" onClick={() => handleSort("totalSalesRevenue")}>
-                                    <div className="flex items-center justify-end gap-2 text-emerald-700">
-                                        <span className="overflow-hidden whitespace-nowrap">Total Sales</span> <SortIcon field="totalSalesRevenue" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("totalCogs")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">COGS</span> <SortIcon field="totalCogs" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("marketplaceCommission")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Comm.</span> <SortIcon field="marketplaceCommission" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("logisticsCost")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Logistics</span> <SortIcon field="logisticsCost" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("acquiringCost")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Acquiring</span> <SortIcon field="acquiringCost" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("returnsCost")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Returns</span> <SortIcon field="returnsCost" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("additionalServicesCost")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Services</span> <SortIcon field="additionalServicesCost" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("crossDocking")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Cross Docking</span> <SortIcon field="crossDocking" />
-                                    </div>
-                                </th>
-
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("finalPromotionCost")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Ads</span> <SortIcon field="finalPromotionCost" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors bg-rose-50 w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("incomeTax")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Tax</span> <SortIcon field="incomeTax" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer hover:bg-rose-50 transition-colors border-r border-rose-100 bg-rose-50 w-[140px] min-w-[140px] max-w-[140px] sticky top-[40px] z-40" onClick={() => handleSort("totalCostsWithTax")}>
-                                    <div className="flex items-center justify-end gap-2 text-rose-700">
-                                        <span className="overflow-hidden whitespace-nowrap">Total Costs</span> <SortIcon field="totalCostsWithTax" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("profit")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Profit</span> <SortIcon field="profit" />
-                                    </div>
-                                </th>
-                                <th className="p-4 text-right cursor-pointer bg-slate-50 hover:bg-slate-100 transition-colors w-[110px] min-w-[110px] max-w-[110px] sticky top-[40px] z-40" onClick={() => handleSort("margin")}>
-                                    <div className="flex items-center justify-end gap-2">
-                                        <span className="overflow-hidden whitespace-nowrap">Margin</span> <SortIcon field="margin" />
+                                        SKU {renderSortIcon("sku")}
                                     </div>
                                 </th>
+                                {visibleColumns.map((column, i) => (
+                                    <th
+                                        key={column.id}
+                                        className={cn(
+                                            "p-4 text-right cursor-pointer transition-colors sticky top-[40px]",
+                                            WIDTH_CLASSES[column.width],
+                                            SECTION_HEADER[column.section],
+                                            isPinnedIndex(i) ? "z-50 border-r border-slate-200" : "z-40",
+                                            i === pinnedColumns.length - 1 && "shadow-[4px_0_4px_-2px_rgba(0,0,0,0.05)]",
+                                            column.isSectionTotal && (column.section === "income" ? "border-r border-emerald-100" : "border-r border-rose-100")
+                                        )}
+                                        style={getStickyStyle(i)}
+                                        onClick={() => handleSort(column.id)}
+                                        title={column.label}
+                                    >
+                                        <div className={cn(
+                                            "flex items-center justify-end gap-2",
+                                            column.isSectionTotal && (column.section === "income" ? "text-emerald-700" : "text-rose-700")
+                                        )}>
+                                            <span className="overflow-hidden whitespace-nowrap text-ellipsis">{column.label}</span> {renderSortIcon(column.id)}
+                                        </div>
+                                    </th>
+                                ))}
                             </tr>
                         </thead>
                         <tbody className="[&_td]:border-b [&_td]:border-slate-100">
-                            {sortedArticles.map((article) => (
-                                <tr key={article.sku} className="hover:bg-slate-50 transition-colors group">
-                                    <td className="p-4 font-mono text-xs sticky left-0 bg-white z-10 border-r border-slate-200 min-w-[400px] w-[400px] max-w-[400px]" title={article.name}>
-                                        <div className="flex flex-col truncate">
+                            {startIndex > 0 && <tr style={{ height: startIndex * ROW_HEIGHT }} />}
+                            {visibleArticles.map((article) => (
+                                <tr key={article.sku} className="hover:bg-slate-50 transition-colors group" style={{ height: ROW_HEIGHT }}>
+                                    <td className="px-4 py-2 font-mono text-xs sticky left-0 bg-white z-10 border-r border-slate-200 min-w-[400px] w-[400px] max-w-[400px]" title={article.name}>
+                                        <button
+                                            onClick={() => setDetailsArticle(article)}
+                                            className="flex flex-col truncate max-w-full text-left hover:text-blue-600 hover:underline underline-offset-2"
+                                        >
                                             <span className="truncate">{article.sku}</span>
-                                        </div>
-                                    </td>
-                                    <td className="p-4 text-right sticky left-[400px] bg-white z-10 border-r border-slate-200 shadow-[4px_0_4px_-2px_rgba(0,0,0,0.05)] w-[120px] min-w-[120px] max-w-[120px]">
-                                        <div className="flex flex-col items-end">
-                                            <span className="font-medium">{formatNumber(article.deliveredItems)}</span>
-                                            <span className="text-[10px] text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                                                {totalDelivered > 0 ? ((article.deliveredItems / totalDelivered) * 100).toFixed(1) : "0.0"}%
-                                            </span>
-                                        </div>
-                                    </td>
-                                    <td className="p-4 text-right font-medium text-slate-700 sticky left-[520px] bg-white z-10 border-r border-slate-200 w-[120px] min-w-[120px] max-w-[120px] shadow-[4px_0_4px_-2px_rgba(0,0,0,0.05)]">{formatCurrency((article as any).avgPrice)}</td>
-
-                                    <td className="p-4 text-right font-medium w-[110px] min-w-[110px] max-w-[110px]">{formatCurrency(article.revenue)}</td>
-                                    <td className="p-4 text-right text-slate-500 w-[110px] min-w-[110px] max-w-[110px]">{formatCurrency(article.discountPoints)}</td>
-                                    <td className="p-4 text-right text-slate-500 w-[110px] min-w-[110px] max-w-[110px]">{formatCurrency(article.partnerPrograms)}</td>
-                                    <td className="p-4 text-right font-bold text-emerald-700 border-r border-emerald-100 bg-emerald-50 w-[140px] min-w-[140px] max-w-[140px]">{formatCurrency(article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.totalCogs, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.marketplaceCommission, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.logisticsCost, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.acquiringCost, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.returnsCost, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.additionalServicesCost, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.crossDocking, article.totalSalesRevenue)}</td>
-
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.finalPromotionCost, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-red-600/70 w-[110px] min-w-[110px] max-w-[110px]">{renderWithPercent(article.incomeTax, article.totalSalesRevenue)}</td>
-                                    <td className="p-4 text-right text-rose-700 font-medium border-r border-rose-100 bg-rose-50 w-[140px] min-w-[140px] max-w-[140px]">{renderWithPercent(article.totalCostsWithTax, article.totalSalesRevenue)}</td>
-                                    <td className={cn("p-4 text-right font-bold w-[110px] min-w-[110px] max-w-[110px]", article.profit > 0 ? "text-emerald-600" : "text-red-600")}>
-                                        {formatCurrency(article.profit)}
-                                    </td>
-                                    <td className={cn("p-4 text-right w-[110px] min-w-[110px] max-w-[110px]", article.margin > 0 ? "text-emerald-600" : "text-red-600")}>
-                                        {article.margin.toFixed(1)}%
+                                        </button>
                                     </td>
+                                    {visibleColumns.map((column, i) => (
+                                        <td
+                                            key={column.id}
+                                            className={cn(
+                                                "px-4 py-2 text-right",
+                                                WIDTH_CLASSES[column.width],
+                                                getCellClass(column, article),
+                                                isPinnedIndex(i) && "sticky bg-white z-10 border-r border-slate-200",
+                                                i === pinnedColumns.length - 1 && "shadow-[4px_0_4px_-2px_rgba(0,0,0,0.05)]"
+                                            )}
+                                            style={getStickyStyle(i)}
+                                        >
+                                            {renderValue(column, article)}
+                                        </td>
+                                    ))}
                                 </tr>
                             ))}
+                            {endIndex < sortedArticles.length && <tr style={{ height: (sortedArticles.length - endIndex) * ROW_HEIGHT }} />}
                             {sortedArticles.length === 0 && (
                                 <tr>
-                                    <td colSpan={20} className="p-8 text-center text-slate-500">
+                                    <td colSpan={visibleColumns.length + 1} className="p-8 text-center text-slate-500">
                                         No articles found
                                     </td>
                                 </tr>
                             )}
                         </tbody>
+                        <tfoot className="[&_td]:border-t [&_td]:border-slate-200">
+                            <tr className="font-semibold text-slate-800">
+                                <td className="px-4 py-3 sticky left-0 bottom-0 bg-slate-100 z-50 border-r border-slate-200 min-w-[400px] w-[400px] max-w-[400px]">
+                                    Total ({formatNumber(filteredArticles.length)})
+                                </td>
+                                {visibleColumns.map((column, i) => {
+                                    const value = getColumnTotal(column);
+                                    return (
+                                        <td
+                                            key={column.id}
+                                            className={cn(
+                                                "px-4 py-3 text-right sticky bottom-0 bg-slate-100",
+                                                WIDTH_CLASSES[column.width],
+                                                isPinnedIndex(i) ? "z-50 border-r border-slate-200" : "z-40",
+                                                column.format === "percent" && (value > 0 ? "text-emerald-600" : "text-red-600")
+                                            )}
+                                            style={getStickyStyle(i)}
+                                        >
+                                            {column.format === "units" ? formatNumber(value) : column.format === "percent" ? `${value.toFixed(1)}%` : formatCurrency(value)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        </tfoot>
                     </table>
                 </div>
             </div>
+
+            <SkuDetailsDrawer
+                sku={detailsArticle?.sku ?? null}
+                price={detailsArticle && detailsArticle.avgPrice > 0 ? detailsArticle.avgPrice : undefined}
+                priceLabel="средняя цена в отчете"
+                onClose={() => setDetailsArticle(null)}
+            />
         </div>
     );
 }
-
-
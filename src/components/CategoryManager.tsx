@@ -0,0 +1,303 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Upload, Loader2, Search, AlertTriangle, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import { runParseTask } from "@/lib/parseInWorker";
+import { getTemplateSkuLinks } from "@/lib/repricer";
+import {
+    createCategoryRuleId,
+    DEFAULT_PRODUCT_CATEGORIES,
+    getProductCategory,
+    listCategoryNames,
+    type CategoryRule
+} from "@/lib/productCategories";
+
+interface CategoryManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    articles?: string[]; // articles of the loaded report, offered for per-SKU overrides
+}
+
+export function CategoryManager({ isOpen, onClose, articles = [] }: CategoryManagerProps) {
+    const { productCategories: categories, setProductCategories, addSkuLinks } = useAppState();
+    const [search, setSearch] = useState("");
+    const [isImporting, setIsImporting] = useState(false);
+    const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const { rules, overrides } = categories;
+    const rulesOnly = { rules, overrides: {} };
+
+    const setRules = (next: CategoryRule[]) => setProductCategories({ ...categories, rules: next });
+
+    const updateRule = (id: string, patch: Partial<CategoryRule>) => {
+        setRules(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+    };
+
+    const moveRule = (idx: number, direction: -1 | 1) => {
+        const target = idx + direction;
+        if (target < 0 || target >= rules.length) return;
+        const next = [...rules];
+        [next[idx], next[target]] = [next[target], next[idx]];
+        setRules(next);
+    };
+
+    const setOverride = (article: string, category: string) => {
+        const next = { ...overrides };
+        if (category.trim()) {
+            next[article] = category;
+        } else {
+            delete next[article];
+        }
+        setProductCategories({ ...categories, overrides: next });
+    };
+
+    const handleTemplateFile = async (file: File) => {
+        setIsImporting(true);
+        setImportMessage(null);
+        try {
+            const template = await runParseTask({ kind: "ozonTemplate", file });
+            addSkuLinks(getTemplateSkuLinks(template.items));
+            const imported: Record<string, string> = {};
+            template.items.forEach(item => {
+                if (item.category) imported[item.article] = item.category;
+            });
+            const count = Object.keys(imported).length;
+            if (count === 0) {
+                setImportMessage({ text: "В шаблоне нет заполненного столбца «Категория»", isError: true });
+                return;
+            }
+            setProductCategories({ ...categories, overrides: { ...overrides, ...imported } });
+            setImportMessage({ text: `Импортировано категорий для ${count} товаров`, isError: false });
+        } catch (err: unknown) {
+            console.error(err);
+            setImportMessage({ text: err instanceof Error ? err.message : "Ошибка при чтении шаблона", isError: true });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const categoryNames = listCategoryNames(categories);
+    const query = search.trim().toLowerCase();
+    const skuRows = Array.from(new Set([...articles, ...Object.keys(overrides)]))
+        .filter(article => !query || article.toLowerCase().includes(query))
+        .sort((a, b) => a.localeCompare(b, "ru"));
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-start justify-center p-4 sm:p-8 overflow-y-auto"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 20 }}
+                        className="w-full max-w-4xl bg-white rounded-3xl shadow-2xl border border-slate-200/60 overflow-hidden"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-slate-100">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900">Категории товаров</h3>
+                                <p className="text-sm text-slate-500 mt-0.5">
+                                    Категория, заданная для артикула, важнее правил. Правила проверяются сверху вниз, остальное попадает в «Прочее».
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-8">
+                            <div className="space-y-3">
+                                <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider">Правила по артикулу</p>
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-[11px] font-semibold text-slate-500 uppercase tracking-wider">
+                                            <th className="pb-2 pr-2 w-8">#</th>
+                                            <th className="pb-2 pr-2">Категория</th>
+                                            <th className="pb-2 pr-2">Артикул содержит</th>
+                                            <th className="pb-2 w-24"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {rules.map((rule, idx) => (
+                                            <tr key={rule.id}>
+                                                <td className="py-2 pr-2 text-xs text-slate-400">{idx + 1}</td>
+                                                <td className="py-2 pr-2">
+                                                    <input
+                                                        value={rule.name}
+                                                        onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                                                        placeholder="Название"
+                                                        className="w-full px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                    />
+                                                </td>
+                                                <td className="py-2 pr-2">
+                                                    <input
+                                                        value={rule.pattern}
+                                                        onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                                                        placeholder="например: тапоч|тапок"
+                                                        className="w-full px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                    />
+                                                </td>
+                                                <td className="py-2">
+                                                    <div className="flex items-center justify-end gap-0.5">
+                                                        <button
+                                                            onClick={() => moveRule(idx, -1)}
+                                                            disabled={idx === 0}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:pointer-events-none"
+                                                            title="Выше"
+                                                        >
+                                                            <ArrowUp className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => moveRule(idx, 1)}
+                                                            disabled={idx === rules.length - 1}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:pointer-events-none"
+                                                            title="Ниже"
+                                                        >
+                                                            <ArrowDown className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                                                            title="Удалить правило"
+                                                        >
+                                                            <Trash2 className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <div className="flex flex-wrap items-center justify-between gap-3">
+                                    <button
+                                        onClick={() => setRules([...rules, { id: createCategoryRuleId(), name: "", pattern: "" }])}
+                                        className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-xl transition-colors"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                        Добавить правило
+                                    </button>
+                                    <button
+                                        onClick={() => setRules(DEFAULT_PRODUCT_CATEGORIES.rules)}
+                                        className="flex items-center gap-1.5 px-3 py-2 bg-slate-100 text-slate-600 hover:bg-slate-200 text-sm font-semibold rounded-xl transition-colors"
+                                    >
+                                        <RotateCcw className="w-4 h-4" />
+                                        Вернуть правила по умолчанию
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="space-y-3">
+                                <div className="flex flex-wrap items-center justify-between gap-3">
+                                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider">Категории артикулов</p>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => document.getElementById("category-template-upload")?.click()}
+                                            disabled={isImporting}
+                                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-50"
+                                        >
+                                            {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                                            Из шаблона цен
+                                        </button>
+                                        <input
+                                            id="category-template-upload"
+                                            type="file"
+                                            className="hidden"
+                                            accept=".xlsx"
+                                            onChange={(e) => {
+                                                if (e.target.files && e.target.files[0]) {
+                                                    handleTemplateFile(e.target.files[0]);
+                                                }
+                                                e.target.value = "";
+                                            }}
+                                        />
+                                        {Object.keys(overrides).length > 0 && (
+                                            <button
+                                                onClick={() => setProductCategories({ ...categories, overrides: {} })}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg text-slate-500 hover:text-rose-600 hover:bg-rose-50 transition-colors"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                                Сбросить все
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {importMessage && (
+                                    <div className={cn(
+                                        "flex items-center gap-2 text-xs rounded-lg px-3 py-2 border",
+                                        importMessage.isError
+                                            ? "text-amber-800 bg-amber-50/80 border-amber-100"
+                                            : "text-emerald-700 bg-emerald-50/80 border-emerald-100"
+                                    )}>
+                                        {importMessage.isError ? <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> : <Check className="w-3.5 h-3.5 shrink-0" />}
+                                        {importMessage.text}
+                                    </div>
+                                )}
+
+                                <div className="relative">
+                                    <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                    <input
+                                        value={search}
+                                        onChange={(e) => setSearch(e.target.value)}
+                                        placeholder="Поиск по артикулу"
+                                        className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                    />
+                                </div>
+
+                                <datalist id="category-names">
+                                    {categoryNames.map(name => <option key={name} value={name} />)}
+                                </datalist>
+
+                                {skuRows.length > 0 ? (
+                                    <div className="max-h-80 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+                                        {skuRows.map(article => {
+                                            const override = overrides[article];
+                                            return (
+                                                <div key={article} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-xs">
+                                                    <span className="font-medium text-slate-700 break-all">{article}</span>
+                                                    <div className="flex items-center gap-2">
+                                                        <input
+                                                            list="category-names"
+                                                            value={override ?? ""}
+                                                            onChange={(e) => setOverride(article, e.target.value)}
+                                                            placeholder={getProductCategory(rulesOnly, article)}
+                                                            className={cn(
+                                                                "w-40 px-2.5 py-1.5 border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20",
+                                                                override ? "bg-blue-50/60 border-blue-200 text-blue-900" : "bg-slate-50 border-slate-200"
+                                                            )}
+                                                        />
+                                                        <button
+                                                            onClick={() => setOverride(article, "")}
+                                                            disabled={!override}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-30 disabled:pointer-events-none"
+                                                            title="Вернуть категорию по правилам"
+                                                        >
+                                                            <X className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-slate-400">
+                                        {query ? "Ничего не найдено" : "Загрузите отчет или шаблон цен, чтобы задать категории отдельным артикулам"}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
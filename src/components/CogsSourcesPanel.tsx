@@ -0,0 +1,179 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, ArrowDown, ArrowUp, ChevronDown, Layers, Trash2 } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import { COGS_SOURCE_KIND_LABELS, findCogsConflicts, getCogsSourceCoverage, type CogsConflict, type CogsSourceCoverage } from "@/lib/cogsHistory";
+
+const CONFLICTS_LIMIT = 100;
+
+const formatRub = (val: number) =>
+    new Intl.NumberFormat("ru-RU", { style: "currency", currency: "RUB", maximumFractionDigits: 2 }).format(val);
+
+const formatDate = (date: Date) => date.toLocaleDateString("ru-RU");
+
+const formatCoverage = (coverage: CogsSourceCoverage | undefined) => {
+    if (!coverage) return "перекрыт источниками выше";
+    return `применяется к ${coverage.skus} арт.${coverage.from ? ` с ${formatDate(coverage.from)}` : ""}`;
+};
+
+const formatConflictPeriod = ({ validFrom, validTo }: CogsConflict) => {
+    if (validFrom && validTo) return `${formatDate(validFrom)} – ${formatDate(validTo)}`;
+    if (validFrom) return `с ${formatDate(validFrom)}`;
+    return validTo ? `до ${formatDate(validTo)}` : "весь период";
+};
+
+export function CogsSourcesPanel() {
+    const { cogsSources, setCogsSources, cogsHistory, resolveSku } = useAppState();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const conflicts = useMemo(() => findCogsConflicts(cogsSources, resolveSku), [cogsSources, resolveSku]);
+    const coverage = useMemo(() => getCogsSourceCoverage(cogsHistory), [cogsHistory]);
+
+    if (cogsSources.length === 0) return null;
+
+    const moveSource = (idx: number, direction: -1 | 1) => {
+        const target = idx + direction;
+        if (target < 0 || target >= cogsSources.length) return;
+        const next = [...cogsSources];
+        [next[idx], next[target]] = [next[target], next[idx]];
+        setCogsSources(next);
+    };
+
+    const removeSource = (idx: number) => setCogsSources(cogsSources.filter((_, i) => i !== idx));
+
+    return (
+        <div className="bg-white border border-slate-200/60 rounded-3xl shadow-sm overflow-hidden">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between gap-4 px-6 py-4 hover:bg-slate-50/80 transition-colors text-left"
+            >
+                <div className="flex items-center gap-3">
+                    <div className={cn(
+                        "p-2 rounded-xl",
+                        conflicts.length > 0 ? "bg-amber-50 text-amber-600" : "bg-blue-50 text-blue-600"
+                    )}>
+                        {conflicts.length > 0 ? <AlertTriangle className="w-5 h-5" /> : <Layers className="w-5 h-5" />}
+                    </div>
+                    <div>
+                        <h4 className="text-base font-bold text-slate-900">Источники себестоимости</h4>
+                        <p className="text-xs text-slate-500 mt-0.5">
+                            Источников: {cogsSources.length} ·{" "}
+                            {conflicts.length > 0 ? `расхождений: ${conflicts.length}` : "расхождений нет"}
+                        </p>
+                    </div>
+                </div>
+                <ChevronDown className={cn("w-5 h-5 text-slate-400 transition-transform duration-200", isOpen && "rotate-180")} />
+            </button>
+
+            <AnimatePresence initial={false}>
+                {isOpen && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="border-t border-slate-100"
+                    >
+                        <div className="p-6 space-y-6">
+                            <div>
+                                <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                                    Приоритет (на каждую дату побеждает верхний источник с действующей ценой)
+                                </p>
+                                <div className="space-y-1.5">
+                                    {cogsSources.map((source, idx) => (
+                                        <div
+                                            key={source.name}
+                                            className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-50 border border-slate-200/60"
+                                        >
+                                            <span className="w-6 text-center text-xs font-bold text-slate-400">{idx + 1}</span>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm font-semibold text-slate-800 truncate">{source.name}</p>
+                                                <p className="text-xs text-slate-500">
+                                                    {COGS_SOURCE_KIND_LABELS[source.kind]} · арт.: {new Set(source.entries.map(e => e.sku)).size} · {formatCoverage(coverage[source.name])}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => moveSource(idx, -1)}
+                                                disabled={idx === 0}
+                                                className="p-1.5 rounded-lg text-slate-500 hover:bg-white hover:text-slate-900 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                                title="Выше"
+                                            >
+                                                <ArrowUp className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => moveSource(idx, 1)}
+                                                disabled={idx === cogsSources.length - 1}
+                                                className="p-1.5 rounded-lg text-slate-500 hover:bg-white hover:text-slate-900 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                                title="Ниже"
+                                            >
+                                                <ArrowDown className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => removeSource(idx)}
+                                                className="p-1.5 rounded-lg text-slate-400 hover:bg-rose-50 hover:text-rose-600 transition-colors"
+                                                title="Убрать источник"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {conflicts.length > 0 && (
+                                <div>
+                                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                                        Расхождения между источниками
+                                    </p>
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="text-left text-[11px] font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                                                    <th className="pb-3 pr-4">Артикул</th>
+                                                    <th className="pb-3 pr-4">Период</th>
+                                                    <th className="pb-3 pr-4">Применяется</th>
+                                                    <th className="pb-3 pr-4">Другой источник</th>
+                                                    <th className="pb-3 pr-4 text-right">Разница</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-100">
+                                                {conflicts.slice(0, CONFLICTS_LIMIT).map(conflict => (
+                                                    <tr key={`${conflict.sku}-${conflict.other.source}-${conflict.validFrom?.getTime() ?? "base"}`}>
+                                                        <td className="py-2.5 pr-4 font-semibold text-slate-800 whitespace-nowrap">{conflict.sku}</td>
+                                                        <td className="py-2.5 pr-4 text-slate-500 whitespace-nowrap">{formatConflictPeriod(conflict)}</td>
+                                                        <td className="py-2.5 pr-4 whitespace-nowrap">
+                                                            <span className="font-semibold text-slate-900">{formatRub(conflict.winner.cost)}</span>
+                                                            <span className="text-xs text-slate-400"> · {conflict.winner.source}</span>
+                                                        </td>
+                                                        <td className="py-2.5 pr-4 whitespace-nowrap">
+                                                            <span className="text-slate-700">{formatRub(conflict.other.cost)}</span>
+                                                            <span className="text-xs text-slate-400"> · {conflict.other.source}</span>
+                                                        </td>
+                                                        <td className={cn(
+                                                            "py-2.5 pr-4 text-right font-bold whitespace-nowrap",
+                                                            conflict.difference > 0 ? "text-rose-600" : "text-emerald-600"
+                                                        )}>
+                                                            {conflict.difference > 0 ? "+" : ""}{formatRub(conflict.difference)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    {conflicts.length > CONFLICTS_LIMIT && (
+                                        <p className="text-xs text-slate-500 mt-2">
+                                            Показаны {CONFLICTS_LIMIT} крупнейших из {conflicts.length}.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
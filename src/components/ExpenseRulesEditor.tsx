@@ -0,0 +1,224 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import {
+    classifyExpense,
+    createExpenseRuleId,
+    DEFAULT_EXPENSE_RULES,
+    EXPENSE_BEHAVIOR_LABELS,
+    EXPENSE_CLASS_LABELS,
+    type ExpenseBehavior,
+    type ExpenseClass,
+    type ExpenseRule
+} from "@/lib/expenseRules";
+
+interface ExpenseRulesEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    operations?: { group: string; type: string; amount: number }[]; // report operations to preview the classification on
+}
+
+export function ExpenseRulesEditor({ isOpen, onClose, operations = [] }: ExpenseRulesEditorProps) {
+    const { expenseRules: rules, setExpenseRules } = useAppState();
+
+    const updateRule = (id: string, patch: Partial<ExpenseRule>) => {
+        setExpenseRules(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+    };
+
+    const moveRule = (idx: number, direction: -1 | 1) => {
+        const target = idx + direction;
+        if (target < 0 || target >= rules.length) return;
+        const next = [...rules];
+        [next[idx], next[target]] = [next[target], next[idx]];
+        setExpenseRules(next);
+    };
+
+    const addRule = () => {
+        setExpenseRules([
+            ...rules,
+            { id: createExpenseRuleId(), groupPattern: "", typePattern: "", expenseClass: "other", behavior: "fixedPerPeriod", scalesWithVolume: false }
+        ]);
+    };
+
+    const expenseOperations = operations.filter(op => op.amount < 0);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-start justify-center p-4 sm:p-8 overflow-y-auto"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 20 }}
+                        className="w-full max-w-5xl bg-white rounded-3xl shadow-2xl border border-slate-200/60 overflow-hidden"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-slate-100">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900">Правила классификации расходов</h3>
+                                <p className="text-sm text-slate-500 mt-0.5">
+                                    Проверяются сверху вниз, срабатывает первое совпадение. Несколько вариантов разделяйте символом «|».
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-6">
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-[11px] font-semibold text-slate-500 uppercase tracking-wider">
+                                            <th className="pb-2 pr-2 w-8">#</th>
+                                            <th className="pb-2 pr-2">Группа услуг содержит</th>
+                                            <th className="pb-2 pr-2">Тип начисления содержит</th>
+                                            <th className="pb-2 pr-2">Класс</th>
+                                            <th className="pb-2 pr-2">Поведение</th>
+                                            <th className="pb-2 pr-2" title="В прогнозе начислений сумма меняется вместе с объемом продаж">В прогнозе</th>
+                                            <th className="pb-2 w-24"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {rules.map((rule, idx) => (
+                                            <tr key={rule.id}>
+                                                <td className="py-2 pr-2 text-xs text-slate-400">{idx + 1}</td>
+                                                <td className="py-2 pr-2">
+                                                    <input
+                                                        value={rule.groupPattern}
+                                                        onChange={(e) => updateRule(rule.id, { groupPattern: e.target.value })}
+                                                        placeholder="любая"
+                                                        className="w-full px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                    />
+                                                </td>
+                                                <td className="py-2 pr-2">
+                                                    <input
+                                                        value={rule.typePattern}
+                                                        onChange={(e) => updateRule(rule.id, { typePattern: e.target.value })}
+                                                        placeholder="любой"
+                                                        className="w-full px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                    />
+                                                </td>
+                                                <td className="py-2 pr-2">
+                                                    <select
+                                                        value={rule.expenseClass}
+                                                        onChange={(e) => updateRule(rule.id, { expenseClass: e.target.value as ExpenseClass })}
+                                                        className="px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                    >
+                                                        {Object.entries(EXPENSE_CLASS_LABELS).map(([value, label]) => (
+                                                            <option key={value} value={value}>{label}</option>
+                                                        ))}
+                                                    </select>
+                                                </td>
+                                                <td className="py-2 pr-2">
+                                                    <select
+                                                        value={rule.behavior}
+                                                        onChange={(e) => updateRule(rule.id, { behavior: e.target.value as ExpenseBehavior })}
+                                                        className="px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                    >
+                                                        {Object.entries(EXPENSE_BEHAVIOR_LABELS).map(([value, label]) => (
+                                                            <option key={value} value={value}>{label}</option>
+                                                        ))}
+                                                    </select>
+                                                </td>
+                                                <td className="py-2 pr-2">
+                                                    <label className="flex items-center gap-1.5 text-xs text-slate-600 select-none cursor-pointer whitespace-nowrap">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={rule.scalesWithVolume}
+                                                            onChange={(e) => updateRule(rule.id, { scalesWithVolume: e.target.checked })}
+                                                            className="rounded border-slate-300"
+                                                        />
+                                                        С объемом
+                                                    </label>
+                                                </td>
+                                                <td className="py-2">
+                                                    <div className="flex items-center justify-end gap-0.5">
+                                                        <button
+                                                            onClick={() => moveRule(idx, -1)}
+                                                            disabled={idx === 0}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:pointer-events-none"
+                                                            title="Выше"
+                                                        >
+                                                            <ArrowUp className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => moveRule(idx, 1)}
+                                                            disabled={idx === rules.length - 1}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:pointer-events-none"
+                                                            title="Ниже"
+                                                        >
+                                                            <ArrowDown className="w-3.5 h-3.5" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setExpenseRules(rules.filter(r => r.id !== rule.id))}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                                                            title="Удалить правило"
+                                                        >
+                                                            <Trash2 className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="flex flex-wrap items-center justify-between gap-3">
+                                <button
+                                    onClick={addRule}
+                                    className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-xl transition-colors"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Добавить правило
+                                </button>
+                                <button
+                                    onClick={() => setExpenseRules(DEFAULT_EXPENSE_RULES)}
+                                    className="flex items-center gap-1.5 px-3 py-2 bg-slate-100 text-slate-600 hover:bg-slate-200 text-sm font-semibold rounded-xl transition-colors"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                    Вернуть правила по умолчанию
+                                </button>
+                            </div>
+
+                            {expenseOperations.length > 0 && (
+                                <div className="pt-2 space-y-2">
+                                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider">Как классифицируются расходы отчета</p>
+                                    <div className="max-h-72 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+                                        {expenseOperations.map((op) => {
+                                            const match = classifyExpense(rules, op.group, op.type);
+                                            const ruleIdx = rules.findIndex(r => r.id === match.ruleId);
+                                            return (
+                                                <div key={`${op.group}::${op.type}`} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-xs">
+                                                    <span className="text-slate-700">
+                                                        <span className="text-slate-400">{op.group} · </span>{op.type}
+                                                    </span>
+                                                    <span className={cn("font-semibold", match.ruleId ? "text-slate-700" : "text-amber-600")}>
+                                                        {EXPENSE_CLASS_LABELS[match.expenseClass]}, {EXPENSE_BEHAVIOR_LABELS[match.behavior]}{match.scalesWithVolume ? ", растет с объемом" : ""}
+                                                        <span className="font-normal text-slate-400">
+                                                            {ruleIdx !== -1 ? ` · правило ${ruleIdx + 1}` : " · нет правила"}
+                                                        </span>
+                                                    </span>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
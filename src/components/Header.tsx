@@ -1,6 +1,6 @@
 "use client";
 
-import { Upload, Package, LayoutGrid, Table as TableIcon, TrendingUp, ReceiptText } from "lucide-react";
+import { Upload, Package, LayoutGrid, Table as TableIcon, TrendingUp, ReceiptText, Grid3x3 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
@@ -9,7 +9,7 @@ interface HeaderProps {
     onUploadClick?: () => void;
     showUploadButton?: boolean;
     period?: string;
-    activeTab?: "dashboard" | "articles" | "repricer" | "accruals" | string;
+    activeTab?: "dashboard" | "articles" | "repricer" | "accruals" | "unit-economics" | "assortment" | string;
     onTabChange?: (tab: "dashboard" | "articles" | string) => void;
     children?: React.ReactNode;
 }
@@ -53,6 +53,18 @@ export function Header({ onUploadClick, showUploadButton, period, activeTab, onT
                             <LayoutGrid className="w-4 h-4" />
                             Начисления
                         </Link>
+                        <Link
+                            href="/unit-economics"
+                            className={cn(
+                                "flex items-center gap-2 px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200",
+                                activeTab === "unit-economics"
+                                    ? "bg-white text-slate-900 shadow-sm ring-1 ring-slate-900/5"
+                                    : "text-slate-500 hover:text-slate-900 hover:bg-slate-200/50"
+                            )}
+                        >
+                            <TrendingUp className="w-4 h-4" />
+                            Юнит-экономика
+                        </Link>
                         <Link
                             href="/repricer"
                             className={cn(
@@ -65,6 +77,18 @@ export function Header({ onUploadClick, showUploadButton, period, activeTab, onT
                             <TableIcon className="w-4 h-4" />
                             Репрайсер
                         </Link>
+                        <Link
+                            href="/assortment"
+                            className={cn(
+                                "flex items-center gap-2 px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200",
+                                activeTab === "assortment"
+                                    ? "bg-white text-slate-900 shadow-sm ring-1 ring-slate-900/5"
+                                    : "text-slate-500 hover:text-slate-900 hover:bg-slate-200/50"
+                            )}
+                        >
+                            <Grid3x3 className="w-4 h-4" />
+                            Ассортимент
+                        </Link>
                     </div>
                 </div>
 
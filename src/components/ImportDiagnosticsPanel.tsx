@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck, AlertTriangle, ChevronDown, Check, X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { countImportWarnings, isTotalsCheckPassed, type ImportDiagnostics } from "@/lib/importDiagnostics";
+
+interface ImportDiagnosticsPanelProps {
+    diagnostics: ImportDiagnostics[];
+}
+
+const formatNumber = (val: number) =>
+    new Intl.NumberFormat("ru-RU", { maximumFractionDigits: 2 }).format(val);
+
+export function ImportDiagnosticsPanel({ diagnostics }: ImportDiagnosticsPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    if (diagnostics.length === 0) return null;
+
+    const warnings = diagnostics.reduce((sum, d) => sum + countImportWarnings(d), 0);
+    const importedRows = diagnostics.reduce((sum, d) => sum + d.rowsImported, 0);
+
+    return (
+        <div className="bg-white border border-slate-200/60 rounded-3xl shadow-sm overflow-hidden">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between gap-4 px-6 py-4 hover:bg-slate-50/80 transition-colors text-left"
+            >
+                <div className="flex items-center gap-3">
+                    <div className={cn(
+                        "p-2 rounded-xl",
+                        warnings > 0 ? "bg-amber-50 text-amber-600" : "bg-emerald-50 text-emerald-600"
+                    )}>
+                        {warnings > 0 ? <AlertTriangle className="w-5 h-5" /> : <ShieldCheck className="w-5 h-5" />}
+                    </div>
+                    <div>
+                        <h4 className="text-base font-bold text-slate-900">Проверка импорта</h4>
+                        <p className="text-xs text-slate-500 mt-0.5">
+                            Файлов: {diagnostics.length} · импортировано строк: {importedRows.toLocaleString("ru-RU")} ·{" "}
+                            {warnings > 0 ? `замечаний: ${warnings}` : "замечаний нет"}
+                        </p>
+                    </div>
+                </div>
+                <ChevronDown className={cn("w-5 h-5 text-slate-400 transition-transform duration-200", isOpen && "rotate-180")} />
+            </button>
+
+            <AnimatePresence initial={false}>
+                {isOpen && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="border-t border-slate-100"
+                    >
+                        <div className="p-6 space-y-6">
+                            {diagnostics.map((d, idx) => (
+                                <DiagnosticsSection key={`${d.source}-${idx}`} diagnostics={d} />
+                            ))}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+function DiagnosticsSection({ diagnostics: d }: { diagnostics: ImportDiagnostics }) {
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <div>
+                    <h5 className="text-sm font-bold text-slate-800">{d.parser}</h5>
+                    <p className="text-xs text-slate-500">{d.source}</p>
+                </div>
+                <p className="text-xs text-slate-500">
+                    {d.headerRow !== null && <>Заголовок: строка {d.headerRow} · </>}
+                    Прочитано строк: {d.rowsRead.toLocaleString("ru-RU")} · импортировано: {d.rowsImported.toLocaleString("ru-RU")}
+                </p>
+            </div>
+
+            {d.notes.length > 0 && (
+                <ul className="space-y-1.5">
+                    {d.notes.map((note, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50/80 border border-amber-100 rounded-lg px-3 py-2">
+                            <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+                            {note}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div>
+                <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Сопоставление колонок</p>
+                <div className="flex flex-wrap gap-1.5">
+                    {d.columns.map((column) => (
+                        <span
+                            key={column.field}
+                            title={column.header || undefined}
+                            className={cn(
+                                "inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs border",
+                                column.header
+                                    ? "bg-slate-50 border-slate-200 text-slate-700"
+                                    : column.required
+                                        ? "bg-rose-50 border-rose-200 text-rose-700"
+                                        : "bg-white border-dashed border-slate-200 text-slate-400"
+                            )}
+                        >
+                            {column.header ? <Check className="w-3 h-3 text-emerald-500" /> : <X className="w-3 h-3" />}
+                            {column.field}
+                            {column.header && column.header !== column.field && (
+                                <span className="text-slate-400">← {column.header}</span>
+                            )}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {d.totalsChecks.length > 0 && (
+                <div>
+                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Сверка с итогами отчета</p>
+                    <div className="space-y-1">
+                        {d.totalsChecks.map((check) => {
+                            const passed = isTotalsCheckPassed(check);
+                            return (
+                                <div key={check.label} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+                                    <span className={cn("inline-flex items-center gap-1 font-semibold", passed ? "text-emerald-600" : "text-rose-600")}>
+                                        {passed ? <Check className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+                                        {check.label}
+                                    </span>
+                                    <span className="text-slate-500">в отчете: {formatNumber(check.reported)}</span>
+                                    <span className="text-slate-500">импортировано: {formatNumber(check.parsed)}</span>
+                                    {!passed && (
+                                        <span className="text-rose-600 font-medium">расхождение: {formatNumber(check.parsed - check.reported)}</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {d.unparsedNumbers.length > 0 && (
+                <div>
+                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Нераспознанные числа</p>
+                    <div className="space-y-1">
+                        {d.unparsedNumbers.map((group) => (
+                            <p key={group.column} className="text-xs text-slate-600">
+                                <span className="font-semibold text-slate-800">{group.column}</span> — {group.count}:{" "}
+                                {group.samples.map(s => `стр. ${s.row} «${s.value}»`).join(", ")}
+                                {group.count > group.samples.length && " …"}
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {d.skippedRows.length > 0 && (
+                <div>
+                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider mb-2">Пропущенные строки</p>
+                    <div className="space-y-1">
+                        {d.skippedRows.map((group) => (
+                            <p key={group.reason} className="text-xs text-slate-600">
+                                <span className="font-semibold text-slate-800">{group.reason}</span> — {group.count}
+                                {group.sampleRows.length > 0 && (
+                                    <span className="text-slate-400">
+                                        {" "}(стр. {group.sampleRows.join(", ")}{group.count > group.sampleRows.length && ", …"})
+                                    </span>
+                                )}
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
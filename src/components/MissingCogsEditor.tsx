@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Check, Download, FileSpreadsheet, Loader2, Wand2 } from "lucide-react";
+import { cn, downloadBlob } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import { SkuDetailsDrawer } from "@/components/SkuDetailsDrawer";
+import { addManualCogs, buildCogsHistory, formatCogsCsv, getCogsAt, type CogsHistory } from "@/lib/cogsHistory";
+import { getProductCategory } from "@/lib/productCategories";
+import { exportCogsTemplate } from "@/lib/repricer";
+import { runParseTask } from "@/lib/parseInWorker";
+import type { CogsEntry } from "@/lib/parseAccruals";
+
+interface MissingCogsEditorProps {
+    missing: { sku: string; qty: number }[];
+}
+
+const DEFAULT_TEMPLATE = "Шаблон для обновления цен_18.06.26 (2).xlsx";
+
+const parseCostInput = (value: string): number | null => {
+    const normalized = value.replace(/\s/g, "").replace(",", ".");
+    if (!normalized) return null;
+    const num = Number(normalized);
+    return Number.isFinite(num) && num >= 0 ? num : null;
+};
+
+export function MissingCogsEditor({ missing }: MissingCogsEditorProps) {
+    const { cogsHistory, cogsSources, setCogsSources, resolveSku, productCategories, repricerParsedData } = useAppState();
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [bulkCategory, setBulkCategory] = useState("");
+    const [bulkValue, setBulkValue] = useState("");
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [detailsSku, setDetailsSku] = useState<string | null>(null);
+    const [appliedCount, setAppliedCount] = useState(0); // keeps the card (and its exports) around once everything is filled
+
+    const rows = missing
+        .map(m => ({ ...m, category: getProductCategory(productCategories, m.sku) }))
+        .sort((a, b) => b.qty - a.qty);
+    const categories = Array.from(new Set(rows.map(r => r.category)));
+    const validDrafts = rows.filter(r => parseCostInput(drafts[r.sku] || "") !== null);
+
+    const setDraft = (sku: string, value: string) => setDrafts(prev => ({ ...prev, [sku]: value }));
+
+    // Excel pastes arrive as tab/newline separated text: "артикул<TAB>цена" pairs are matched by
+    // article, a single column fills the rows downwards from the focused cell
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>, rowIdx: number) => {
+        const text = e.clipboardData.getData("text");
+        if (!/[\t\n]/.test(text.trim())) return;
+        e.preventDefault();
+
+        const lines = text.split(/\r?\n/).filter(l => l.trim());
+        const next = { ...drafts };
+        let unmatched = 0;
+        if (lines.every(l => l.includes("\t"))) {
+            const known = new Set(rows.map(r => r.sku));
+            lines.forEach(line => {
+                const cells = line.split("\t").map(c => c.trim());
+                const sku = cells[0];
+                if (known.has(sku)) {
+                    next[sku] = cells[cells.length - 1];
+                } else {
+                    unmatched++;
+                }
+            });
+        } else {
+            lines.forEach((line, offset) => {
+                const row = rows[rowIdx + offset];
+                if (row) next[row.sku] = line.trim();
+            });
+        }
+        setDrafts(next);
+        setMessage(unmatched > 0 ? { text: `Не найдены в списке: ${unmatched} арт.`, isError: true } : null);
+    };
+
+    const handleBulkFill = () => {
+        if (parseCostInput(bulkValue) === null) return;
+        const next = { ...drafts };
+        rows.forEach(row => {
+            if ((!bulkCategory || row.category === bulkCategory) && !(next[row.sku] || "").trim()) {
+                next[row.sku] = bulkValue;
+            }
+        });
+        setDrafts(next);
+    };
+
+    // Entered costs become undated versions in the manual source: these articles had no cost for any date before
+    const applyDrafts = (): CogsHistory => {
+        const entries: CogsEntry[] = validDrafts.map(r => ({ sku: r.sku, cost: parseCostInput(drafts[r.sku])!, validFrom: null }));
+        if (entries.length === 0) return cogsHistory;
+        const nextSources = addManualCogs(cogsSources, entries);
+        setCogsSources(nextSources);
+        setDrafts(prev => {
+            const rest = { ...prev };
+            entries.forEach(entry => delete rest[entry.sku]);
+            return rest;
+        });
+        setAppliedCount(prev => prev + entries.length);
+        setMessage({ text: `Себестоимость применена для ${entries.length} арт.`, isError: false });
+        return buildCogsHistory(nextSources, resolveSku);
+    };
+
+    const handleExportCsv = () => {
+        const history = applyDrafts();
+        // BOM so Excel opens the Cyrillic headers correctly
+        downloadBlob(new Blob(["\uFEFF" + formatCogsCsv(history)], { type: "text/csv;charset=utf-8" }), "archived_cogs.csv");
+    };
+
+    const handleExportTemplate = async () => {
+        const history = applyDrafts();
+        setIsExporting(true);
+        try {
+            let template = repricerParsedData;
+            if (!template) {
+                const res = await fetch(`/${DEFAULT_TEMPLATE}`);
+                if (!res.ok) throw new Error("Загрузите шаблон цен в репрайсере, чтобы заполнить его себестоимостью");
+                const file = new File([await res.blob()], DEFAULT_TEMPLATE);
+                template = await runParseTask({ kind: "ozonTemplate", file });
+            }
+
+            const costs: Record<string, number> = {};
+            Object.keys(history).forEach(sku => { costs[sku] = getCogsAt(history, sku, null); });
+            const blob = await exportCogsTemplate(template, costs);
+            downloadBlob(blob, `Себестоимость_${new Date().toLocaleDateString("ru-RU")}.xlsx`);
+
+            const notInTemplate = rows.filter(r => !template!.items.some(item => resolveSku(item.article) === r.sku)).length;
+            if (notInTemplate > 0) {
+                setMessage({ text: `${notInTemplate} арт. нет в шаблоне — они есть только в CSV`, isError: true });
+            }
+        } catch (err) {
+            console.error(err);
+            setMessage({ text: err instanceof Error ? err.message : "Ошибка при сохранении шаблона", isError: true });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const renderExports = () => (
+        <div className="flex flex-wrap items-center gap-2">
+            <button
+                onClick={handleExportCsv}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-semibold rounded-xl shadow-sm transition-colors"
+            >
+                <Download className="w-4 h-4" />
+                archived_cogs.csv
+            </button>
+            <button
+                onClick={handleExportTemplate}
+                disabled={isExporting}
+                className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-semibold rounded-xl shadow-sm transition-colors disabled:opacity-50"
+            >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSpreadsheet className="w-4 h-4" />}
+                Шаблон цен
+            </button>
+        </div>
+    );
+
+    if (rows.length === 0 && appliedCount === 0) return null;
+
+    if (rows.length === 0) {
+        return (
+            <div className="p-6 bg-emerald-50/50 border border-emerald-200/60 rounded-3xl shadow-sm flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <div className="p-3 bg-emerald-100 text-emerald-600 rounded-2xl shrink-0">
+                        <Check className="w-6 h-6" />
+                    </div>
+                    <div className="space-y-1">
+                        <h4 className="text-base font-bold text-emerald-900">База себестоимости заполнена</h4>
+                        <p className="text-sm text-emerald-800/80">
+                            Добавлено вручную: {appliedCount} арт. Скачайте базу, чтобы не вводить значения заново.
+                        </p>
+                        {message?.isError && <p className="text-xs font-medium text-amber-700">{message.text}</p>}
+                    </div>
+                </div>
+                {renderExports()}
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 bg-amber-50/50 border border-amber-200/60 rounded-3xl space-y-5 shadow-sm">
+            <div className="flex items-start gap-4">
+                <div className="p-3 bg-amber-100 text-amber-600 rounded-2xl shrink-0">
+                    <AlertTriangle className="w-6 h-6" />
+                </div>
+                <div className="space-y-1">
+                    <h4 className="text-base font-bold text-amber-900">
+                        База себестоимости: нет цены для {rows.length} арт.
+                    </h4>
+                    <p className="text-sm text-amber-800/80 leading-relaxed max-w-3xl">
+                        Для расчетов их себестоимость принята за 0. Введите значения прямо здесь или вставьте столбец из Excel — они сразу попадут в расчет, а базу можно скачать для повторной загрузки.
+                    </p>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={bulkCategory}
+                    onChange={(e) => setBulkCategory(e.target.value)}
+                    className="px-3 py-2 bg-white border border-amber-200/80 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/20"
+                >
+                    <option value="">Все категории</option>
+                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <input
+                    value={bulkValue}
+                    onChange={(e) => setBulkValue(e.target.value)}
+                    placeholder="₽ за шт."
+                    inputMode="decimal"
+                    className="w-28 px-3 py-2 bg-white border border-amber-200/80 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/20"
+                />
+                <button
+                    onClick={handleBulkFill}
+                    disabled={parseCostInput(bulkValue) === null}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-white border border-amber-200/80 text-amber-800 hover:bg-amber-100/60 text-sm font-semibold rounded-xl transition-colors disabled:opacity-50"
+                >
+                    <Wand2 className="w-4 h-4" />
+                    Заполнить пустые
+                </button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto bg-white border border-amber-200/60 rounded-2xl">
+                <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-white">
+                        <tr className="text-left text-[11px] font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                            <th className="px-4 py-2.5">Артикул</th>
+                            <th className="px-4 py-2.5">Категория</th>
+                            <th className="px-4 py-2.5 text-right">Продано, шт.</th>
+                            <th className="px-4 py-2.5 w-40">Себестоимость, ₽</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {rows.map((row, idx) => {
+                            const draft = drafts[row.sku] || "";
+                            const isInvalid = draft.trim() !== "" && parseCostInput(draft) === null;
+                            return (
+                                <tr key={row.sku}>
+                                    <td className="px-4 py-2 font-mono text-xs text-slate-700 break-all">
+                                        <button onClick={() => setDetailsSku(row.sku)} className="text-left break-all hover:text-blue-600 hover:underline underline-offset-2">
+                                            {row.sku}
+                                        </button>
+                                    </td>
+                                    <td className="px-4 py-2 text-xs text-slate-500">{row.category}</td>
+                                    <td className="px-4 py-2 text-right font-semibold text-amber-700">{row.qty}</td>
+                                    <td className="px-4 py-1.5">
+                                        <input
+                                            value={draft}
+                                            onChange={(e) => setDraft(row.sku, e.target.value)}
+                                            onPaste={(e) => handlePaste(e, idx)}
+                                            inputMode="decimal"
+                                            className={cn(
+                                                "w-full px-2.5 py-1.5 border rounded-lg text-sm text-right focus:outline-none focus:ring-2",
+                                                isInvalid
+                                                    ? "bg-rose-50 border-rose-300 focus:ring-rose-500/20"
+                                                    : "bg-slate-50 border-slate-200 focus:ring-blue-500/20"
+                                            )}
+                                        />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <button
+                        onClick={applyDrafts}
+                        disabled={validDrafts.length === 0}
+                        className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-xl shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        <Check className="w-4 h-4" />
+                        Применить{validDrafts.length > 0 && ` (${validDrafts.length})`}
+                    </button>
+                    {message && (
+                        <span className={cn("text-xs font-medium", message.isError ? "text-amber-700" : "text-emerald-600")}>
+                            {message.text}
+                        </span>
+                    )}
+                </div>
+                {renderExports()}
+            </div>
+
+            <SkuDetailsDrawer sku={detailsSku} onClose={() => setDetailsSku(null)} />
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useState } from "react";
+import { Layers } from "lucide-react";
+import { useAppState } from "@/components/StoreProvider";
+import { OverheadsEditor } from "@/components/OverheadsEditor";
+
+export function OverheadsButton() {
+    const { overheadSettings } = useAppState();
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+    return (
+        <>
+            <button
+                onClick={() => setIsEditorOpen(true)}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+                title="Накладные расходы и распределение рекламы"
+            >
+                <Layers className="w-3.5 h-3.5" />
+                <span className="hidden xl:inline">Накладные ({overheadSettings.costs.length})</span>
+            </button>
+            <OverheadsEditor isOpen={isEditorOpen} onClose={() => setIsEditorOpen(false)} />
+        </>
+    );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Plus, Trash2, AlertTriangle } from "lucide-react";
+import { useAppState } from "@/components/StoreProvider";
+import {
+    OVERHEAD_BASIS_LABELS,
+    OVERHEAD_DRIVER_LABELS,
+    createOverheadId,
+    hasDirectTarget,
+    type OverheadBasis,
+    type OverheadCost,
+    type OverheadDriver
+} from "@/lib/overheads";
+
+interface OverheadsEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const DRIVER_IDS = Object.keys(OVERHEAD_DRIVER_LABELS) as OverheadDriver[];
+const BASIS_IDS = Object.keys(OVERHEAD_BASIS_LABELS) as OverheadBasis[];
+
+export function OverheadsEditor({ isOpen, onClose }: OverheadsEditorProps) {
+    const { overheadSettings, setOverheadSettings, unitEconomicsResult, resolveSku } = useAppState();
+    const articles = unitEconomicsResult?.articles ?? [];
+    const { costs, adsDriver } = overheadSettings;
+
+    const updateCost = (id: string, patch: Partial<OverheadCost>) => {
+        setOverheadSettings({ ...overheadSettings, costs: costs.map(c => (c.id === id ? { ...c, ...patch } : c)) });
+    };
+
+    const addCost = () => {
+        const cost: OverheadCost = { id: createOverheadId(), name: "", basis: "period", amount: 0, driver: "revenue", targetSku: "", ozonService: false };
+        setOverheadSettings({ ...overheadSettings, costs: [...costs, cost] });
+    };
+
+    const removeCost = (id: string) => {
+        setOverheadSettings({ ...overheadSettings, costs: costs.filter(c => c.id !== id) });
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-start justify-center p-4 sm:p-8 overflow-y-auto"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 20 }}
+                        className="w-full max-w-4xl bg-white rounded-3xl shadow-2xl border border-slate-200/60 overflow-hidden"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-slate-100">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900">Накладные расходы</h3>
+                                <p className="text-sm text-slate-500 mt-0.5">
+                                    Расходы за период, которых нет в отчете по товарам. Каждый распределяется по артикулам своим способом.
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-6">
+                            <div className="space-y-2">
+                                {costs.length === 0 && (
+                                    <div className="text-sm text-slate-400 text-center py-6">Накладных расходов нет</div>
+                                )}
+                                {costs.map(cost => {
+                                    const isPercent = cost.basis === "revenuePct";
+                                    const isTargetMissing = !isPercent && cost.driver === "direct" && !hasDirectTarget(cost.targetSku, articles, resolveSku);
+                                    return (
+                                        <div key={cost.id} className="flex flex-wrap items-center gap-2 px-3 py-2.5 rounded-xl border bg-slate-50 border-slate-200/60">
+                                            <input
+                                                value={cost.name}
+                                                onChange={(e) => updateCost(cost.id, { name: e.target.value })}
+                                                placeholder="Название, например «Аренда склада»"
+                                                className="flex-1 min-w-48 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                            />
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                step={isPercent ? 0.1 : 100}
+                                                value={cost.amount}
+                                                onChange={(e) => updateCost(cost.id, { amount: Math.max(0, Number(e.target.value) || 0) })}
+                                                className="w-28 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                            />
+                                            <select
+                                                value={cost.basis}
+                                                onChange={(e) => updateCost(cost.id, { basis: e.target.value as OverheadBasis })}
+                                                className="px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                            >
+                                                {BASIS_IDS.map(id => (
+                                                    <option key={id} value={id}>{OVERHEAD_BASIS_LABELS[id]}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={isPercent ? "revenue" : cost.driver}
+                                                onChange={(e) => updateCost(cost.id, { driver: e.target.value as OverheadDriver })}
+                                                disabled={isPercent}
+                                                className="px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50"
+                                                title={isPercent ? "Процент всегда считается от выручки артикула" : "Способ распределения"}
+                                            >
+                                                {DRIVER_IDS.map(id => (
+                                                    <option key={id} value={id}>{OVERHEAD_DRIVER_LABELS[id]}</option>
+                                                ))}
+                                            </select>
+                                            {!isPercent && cost.driver === "direct" && (
+                                                <input
+                                                    value={cost.targetSku}
+                                                    onChange={(e) => updateCost(cost.id, { targetSku: e.target.value })}
+                                                    placeholder="Артикул"
+                                                    className="w-36 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                />
+                                            )}
+                                            <label className="flex items-center gap-1.5 text-xs text-slate-600 select-none cursor-pointer" title="Услуга Ozon с входящим НДС 22%">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={cost.ozonService}
+                                                    onChange={(e) => updateCost(cost.id, { ozonService: e.target.checked })}
+                                                    className="rounded border-slate-300"
+                                                />
+                                                Услуга Ozon
+                                            </label>
+                                            <button
+                                                onClick={() => removeCost(cost.id)}
+                                                className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                                                title="Удалить расход"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                            {isTargetMissing && (
+                                                <div className="basis-full flex items-center gap-1.5 text-xs text-amber-700">
+                                                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                                                    {cost.targetSku.trim() ? "Артикула нет в отчете" : "Артикул не указан"}, сумма делится поровну между всеми артикулами
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            <button
+                                onClick={addCost}
+                                className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-xl transition-colors"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Добавить расход
+                            </button>
+
+                            <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-slate-100">
+                                <span className="text-sm font-medium text-slate-700">Реклама</span>
+                                <select
+                                    value={adsDriver}
+                                    onChange={(e) => setOverheadSettings({ ...overheadSettings, adsDriver: e.target.value as OverheadDriver })}
+                                    className="px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                >
+                                    {DRIVER_IDS.map(id => (
+                                        <option key={id} value={id}>{id === "direct" ? "Как в отчете" : OVERHEAD_DRIVER_LABELS[id]}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <p className="text-xs text-slate-500 leading-relaxed">
+                                Если у всех артикулов нет выручки или доставок, расход делится поровну. Расходы с отметкой «Услуга Ozon»
+                                попадают в вычет входящего НДС.
+                            </p>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
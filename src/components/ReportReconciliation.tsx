@@ -0,0 +1,184 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import Link from "next/link";
+import { ChevronDown, ChevronRight, Scale } from "lucide-react";
+import { useAppState } from "@/components/StoreProvider";
+import { cn, formatCompactCurrency } from "@/lib/utils";
+import type { AnalysisResult } from "@/lib/parse";
+import {
+    DEFAULT_RECONCILIATION_TOLERANCE,
+    RECONCILIATION_METRICS,
+    RECONCILIATION_METRIC_LABELS,
+    reconcileReports,
+    type ReconciliationCell,
+    type ReconciliationRow
+} from "@/lib/reconcileReports";
+
+interface ReportReconciliationProps {
+    report: AnalysisResult;
+}
+
+const PRESENCE_LABELS: Record<ReconciliationRow["presence"], string> = {
+    both: "",
+    reportOnly: "Нет в начислениях",
+    accrualsOnly: "Нет в юнит-экономике"
+};
+
+export function ReportReconciliation({ report }: ReportReconciliationProps) {
+    const { accrualsResult, expenseRules, resolveSku } = useAppState();
+    const [tolerance, setTolerance] = useState(DEFAULT_RECONCILIATION_TOLERANCE);
+    const [onlyMismatches, setOnlyMismatches] = useState(true);
+    const [expandedSku, setExpandedSku] = useState<string | null>(null);
+
+    const reconciliation = useMemo(
+        () => accrualsResult ? reconcileReports(report, accrualsResult.skuTransactions, expenseRules, resolveSku, tolerance) : null,
+        [report, accrualsResult, expenseRules, resolveSku, tolerance]
+    );
+
+    if (!reconciliation) {
+        return (
+            <div className="flex items-center gap-3 bg-white p-4 rounded-xl border border-slate-200 shadow-sm text-sm text-slate-500">
+                <Scale className="w-5 h-5 text-slate-400 shrink-0" />
+                <span>
+                    Чтобы сверить артикулы с отчетом о начислениях за тот же период, загрузите его на странице{" "}
+                    <Link href="/accruals" className="text-blue-600 hover:underline font-medium">Начисления</Link>.
+                </span>
+            </div>
+        );
+    }
+
+    const mismatchedRows = reconciliation.rows.filter(r => r.mismatchCount > 0);
+    const visibleRows = onlyMismatches ? mismatchedRows : reconciliation.rows;
+
+    const renderCell = (cell: ReconciliationCell, key: string) => (
+        <td
+            key={key}
+            className={cn("p-3 text-right w-[130px] min-w-[130px]", cell.isMismatch ? "bg-amber-50 text-amber-800 font-semibold" : "text-slate-400")}
+            title={`Юнит-экономика: ${formatCompactCurrency(cell.report)}\nНачисления: ${formatCompactCurrency(cell.accruals)}`}
+        >
+            {cell.delta === 0 ? "—" : `${cell.delta > 0 ? "+" : ""}${formatCompactCurrency(cell.delta)}`}
+        </td>
+    );
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-4 p-4 border-b border-slate-100">
+                <div>
+                    <h3 className="text-base font-bold text-slate-900">Сверка с начислениями</h3>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                        Расхождения по {mismatchedRows.length} из {reconciliation.rows.length} артикулов, разница = начисления − юнит-экономика.
+                        {reconciliation.excludedTransactions > 0 && ` Операций вне периода отчета: ${reconciliation.excludedTransactions}.`}
+                        {reconciliation.unassignedAmount !== 0 && ` Без артикула: ${formatCompactCurrency(reconciliation.unassignedAmount)}.`}
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <label className="flex items-center gap-1.5 text-slate-600">
+                        Допуск, ₽
+                        <input
+                            type="number"
+                            min={0}
+                            value={tolerance.absolute}
+                            onChange={(e) => setTolerance({ ...tolerance, absolute: Math.max(0, Number(e.target.value) || 0) })}
+                            className="w-20 px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        />
+                    </label>
+                    <label className="flex items-center gap-1.5 text-slate-600">
+                        и %
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={tolerance.percent}
+                            onChange={(e) => setTolerance({ ...tolerance, percent: Math.max(0, Number(e.target.value) || 0) })}
+                            className="w-16 px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        />
+                    </label>
+                    <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={onlyMismatches}
+                            onChange={(e) => setOnlyMismatches(e.target.checked)}
+                            className="rounded border-slate-300"
+                        />
+                        Только расхождения
+                    </label>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+                <table className="w-full text-sm text-left whitespace-nowrap border-separate border-spacing-0">
+                    <thead className="bg-slate-50 text-slate-700 font-medium [&_th]:border-b [&_th]:border-slate-200">
+                        <tr>
+                            <th className="p-3 sticky top-0 left-0 bg-slate-50 z-20 min-w-[280px]">Артикул</th>
+                            {RECONCILIATION_METRICS.map(metric => (
+                                <th key={metric} className="p-3 text-right sticky top-0 bg-slate-50 z-10">{RECONCILIATION_METRIC_LABELS[metric]}</th>
+                            ))}
+                        </tr>
+                        <tr className="text-xs">
+                            <th className="p-3 sticky top-[45px] left-0 bg-slate-100 z-20 text-slate-500">Итого</th>
+                            {RECONCILIATION_METRICS.map(metric => renderCell(reconciliation.totals[metric], metric))}
+                        </tr>
+                    </thead>
+                    <tbody className="[&_td]:border-b [&_td]:border-slate-100">
+                        {visibleRows.map(row => {
+                            const isExpanded = expandedSku === row.sku;
+                            return (
+                                <Fragment key={row.sku}>
+                                    <tr
+                                        className="hover:bg-slate-50 transition-colors cursor-pointer"
+                                        onClick={() => setExpandedSku(isExpanded ? null : row.sku)}
+                                    >
+                                        <td className="p-3 sticky left-0 bg-white z-10 max-w-[280px]" title={row.name}>
+                                            <div className="flex items-center gap-2">
+                                                {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />}
+                                                <span className="font-mono text-xs truncate">{row.sku}</span>
+                                                {row.presence !== "both" && (
+                                                    <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">{PRESENCE_LABELS[row.presence]}</span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        {RECONCILIATION_METRICS.map(metric => renderCell(row.cells[metric], metric))}
+                                    </tr>
+                                    {isExpanded && (
+                                        <tr>
+                                            <td colSpan={RECONCILIATION_METRICS.length + 1} className="p-4 bg-slate-50/60 whitespace-normal">
+                                                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                                                    {RECONCILIATION_METRICS.map(metric => {
+                                                        const cell = row.cells[metric];
+                                                        return (
+                                                            <div key={metric} className={cn("p-3 rounded-lg border text-xs space-y-1", cell.isMismatch ? "border-amber-200 bg-white" : "border-slate-200/60 bg-white/60")}>
+                                                                <div className="font-semibold text-slate-700">{RECONCILIATION_METRIC_LABELS[metric]}</div>
+                                                                <div className="flex justify-between text-slate-500"><span>Юнит-экономика</span><span>{formatCompactCurrency(cell.report)}</span></div>
+                                                                <div className="flex justify-between text-slate-500"><span>Начисления</span><span>{formatCompactCurrency(cell.accruals)}</span></div>
+                                                                {cell.isMismatch && cell.explanations.length === 0 && (
+                                                                    <div className="text-amber-700 pt-1">Ни один тип начисления не объясняет разницу целиком</div>
+                                                                )}
+                                                                {cell.explanations.map(exp => (
+                                                                    <div key={`${exp.group}::${exp.type}`} className="text-amber-700 pt-1">
+                                                                        {exp.kind === "extra" ? "Есть только в начислениях" : "В начислениях учтено отдельно"}: «{exp.type}» ({exp.group}), {formatCompactCurrency(exp.amount)}
+                                                                    </div>
+                                                                ))}
+                                                            </div>
+                                                        );
+                                                    })}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            );
+                        })}
+                        {visibleRows.length === 0 && (
+                            <tr>
+                                <td colSpan={RECONCILIATION_METRICS.length + 1} className="p-8 text-center text-slate-500">
+                                    Отчеты сходятся в пределах допуска
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
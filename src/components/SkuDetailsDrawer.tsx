@@ -0,0 +1,199 @@
+"use client";
+
+import { useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import { getCogsVersionAt } from "@/lib/cogsHistory";
+import { buildSkuMetrics, forecastUnitProfit, groupSkuTransactions } from "@/lib/skuMetrics";
+import { TAX_REGIMES } from "@/lib/taxRegime";
+
+interface SkuDetailsDrawerProps {
+    sku: string | null; // as shown by the caller, resolved to the article inside
+    price?: number; // price to forecast the margin at, defaults to the repricer price or the average sale price
+    priceLabel?: string;
+    onClose: () => void;
+}
+
+const rub = new Intl.NumberFormat("ru-RU", { style: "currency", currency: "RUB", maximumFractionDigits: 2 });
+const formatRub = (val: number) => rub.format(val);
+const formatDate = (date: Date | null) => (date ? date.toLocaleDateString("ru-RU") : "базовая");
+
+export function SkuDetailsDrawer({ sku, price, priceLabel = "", onClose }: SkuDetailsDrawerProps) {
+    const { accrualsResult, cogsHistory, expenseRules, legalEntity, resolveSku, repricerItems } = useAppState();
+
+    const skuMetrics = useMemo(
+        () => (accrualsResult ? buildSkuMetrics(accrualsResult, expenseRules, resolveSku) : null),
+        [accrualsResult, expenseRules, resolveSku]
+    );
+
+    const article = sku ? resolveSku(sku) : "";
+    const groups = useMemo(
+        () => (accrualsResult && article ? groupSkuTransactions(accrualsResult.skuTransactions, article, resolveSku) : []),
+        [accrualsResult, article, resolveSku]
+    );
+
+    const cogsVersions = cogsHistory[article] ?? [];
+    const cogsVersion = getCogsVersionAt(cogsHistory, article, null);
+    const metrics = skuMetrics?.skuMetricsMap[article];
+    const repricerItem = repricerItems.find(item => resolveSku(item.article) === article);
+
+    let priceToUse = price;
+    let priceSource = priceLabel;
+    if (priceToUse === undefined && repricerItem) {
+        priceToUse = repricerItem.newPrice ?? repricerItem.currentPrice;
+        priceSource = "цена в репрайсере";
+    } else if (priceToUse === undefined && metrics && metrics.quantity > 0) {
+        priceToUse = metrics.revenue / metrics.quantity;
+        priceSource = "средняя цена продажи";
+    }
+
+    const forecast = skuMetrics && priceToUse !== undefined
+        ? forecastUnitProfit(priceToUse, article, skuMetrics, cogsVersion?.cost ?? 0, legalEntity)
+        : null;
+    const totalAmount = groups.reduce((sum, g) => sum + g.amount, 0);
+
+    const renderLine = (label: string, value: number, hint?: string) => (
+        <div className="flex items-baseline justify-between gap-4 py-1.5 text-sm">
+            <span className="text-slate-600">
+                {label}
+                {hint && <span className="text-xs text-slate-400 ml-1.5">{hint}</span>}
+            </span>
+            <span className="font-medium text-slate-900 whitespace-nowrap">{formatRub(value)}</span>
+        </div>
+    );
+
+    return (
+        <AnimatePresence>
+            {sku && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex justify-end"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ x: "100%" }}
+                        animate={{ x: 0 }}
+                        exit={{ x: "100%" }}
+                        transition={{ type: "tween", duration: 0.2 }}
+                        className="h-full w-full max-w-xl bg-white shadow-2xl border-l border-slate-200/60 overflow-y-auto"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="sticky top-0 z-10 flex items-start justify-between gap-4 px-6 py-5 border-b border-slate-100 bg-white">
+                            <div className="min-w-0">
+                                <h3 className="text-lg font-bold text-slate-900 font-mono break-all">{article}</h3>
+                                <p className="text-sm text-slate-500 mt-0.5">
+                                    {article !== sku ? `Связан с ${sku}. ` : ""}Все операции и расчеты по артикулу
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-8">
+                            <section>
+                                <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Прогноз маржи за единицу</h4>
+                                {!accrualsResult ? (
+                                    <p className="text-sm text-slate-500">Загрузите отчет о начислениях, чтобы рассчитать расходы Ozon по артикулу.</p>
+                                ) : !forecast ? (
+                                    <p className="text-sm text-slate-500">
+                                        {priceToUse === undefined ? "Нет цены для расчета: артикула нет в репрайсере и продаж за период." : "Нет ни операций по артикулу, ни себестоимости — рассчитать маржу нельзя."}
+                                    </p>
+                                ) : (
+                                    <div className="divide-y divide-slate-100">
+                                        {renderLine("Цена", forecast.price, priceSource)}
+                                        {renderLine("Переменные расходы Ozon", -forecast.variableCost, `${(forecast.variablePct * 100).toFixed(1)}% от цены`)}
+                                        {renderLine("Фиксированные по артикулу", -forecast.fixedSkuCost, "₽/шт")}
+                                        {renderLine("Общие расходы без артикула", -forecast.fixedGlobalCost, "₽/шт")}
+                                        {renderLine("Себестоимость", -forecast.cogs)}
+                                        {forecast.taxes.vatPayable !== 0 && renderLine("НДС к уплате", -forecast.taxes.vatPayable)}
+                                        {renderLine("Налог", -forecast.taxes.incomeTax, TAX_REGIMES[legalEntity.regime].label)}
+                                        <div className="flex items-baseline justify-between gap-4 pt-3 text-sm">
+                                            <span className="font-semibold text-slate-900">Прибыль</span>
+                                            <span className={cn("font-bold", forecast.profit > 0 ? "text-emerald-600" : "text-rose-600")}>
+                                                {formatRub(forecast.profit)} · {(forecast.marginPct * 100).toFixed(1)}%
+                                            </span>
+                                        </div>
+                                    </div>
+                                )}
+                                {forecast?.isFallback && (
+                                    <div className="flex items-start gap-2 mt-3 p-3 rounded-xl bg-amber-50 text-amber-800 text-xs">
+                                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                                        Операций по артикулу в отчете нет, расходы взяты средними по всем товарам.
+                                    </div>
+                                )}
+                                {metrics && (
+                                    <p className="text-xs text-slate-400 mt-2">
+                                        Основано на {metrics.quantity} проданных шт. и выручке {formatRub(metrics.revenue)} за период отчета.
+                                    </p>
+                                )}
+                            </section>
+
+                            <section>
+                                <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Себестоимость</h4>
+                                {cogsVersions.length === 0 ? (
+                                    <p className="text-sm text-amber-700">Себестоимость не задана, в расчетах она равна нулю.</p>
+                                ) : (
+                                    <div className="divide-y divide-slate-100">
+                                        {[...cogsVersions].reverse().map((version, i) => (
+                                            <div key={`${version.validFrom?.getTime() ?? "base"}-${i}`} className="flex items-baseline justify-between gap-4 py-1.5 text-sm">
+                                                <span className={cn("text-slate-600", version === cogsVersion && "font-semibold text-slate-900")}>
+                                                    с {formatDate(version.validFrom)}
+                                                    <span className="text-xs text-slate-400 ml-1.5">{version.source}</span>
+                                                </span>
+                                                <span className="font-medium text-slate-900">{formatRub(version.cost)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </section>
+
+                            <section>
+                                <div className="flex items-baseline justify-between mb-2">
+                                    <h4 className="text-xs font-bold uppercase tracking-wider text-slate-400">Операции из начислений</h4>
+                                    {groups.length > 0 && (
+                                        <span className={cn("text-sm font-bold", totalAmount >= 0 ? "text-emerald-600" : "text-rose-600")}>{formatRub(totalAmount)}</span>
+                                    )}
+                                </div>
+                                {groups.length === 0 ? (
+                                    <p className="text-sm text-slate-500">
+                                        {accrualsResult ? "В отчете о начислениях нет операций по этому артикулу." : "Отчет о начислениях не загружен."}
+                                    </p>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {groups.map(group => (
+                                            <div key={group.group} className="rounded-xl border border-slate-200/60 overflow-hidden">
+                                                <div className="flex items-baseline justify-between gap-4 px-3 py-2 bg-slate-50 text-sm">
+                                                    <span className="font-semibold text-slate-800">
+                                                        {group.group || "Без группы"}
+                                                        <span className="text-xs font-normal text-slate-400 ml-1.5">{group.count} оп.</span>
+                                                    </span>
+                                                    <span className={cn("font-bold", group.amount >= 0 ? "text-emerald-600" : "text-rose-600")}>{formatRub(group.amount)}</span>
+                                                </div>
+                                                {group.types.map(type => (
+                                                    <div key={type.type} className="flex items-baseline justify-between gap-4 px-3 py-1.5 text-sm border-t border-slate-100">
+                                                        <span className="text-slate-600">
+                                                            {type.type}
+                                                            <span className="text-xs text-slate-400 ml-1.5">
+                                                                {type.count} оп.{type.quantity !== 0 ? ` · ${type.quantity} шт.` : ""}
+                                                            </span>
+                                                        </span>
+                                                        <span className="text-slate-900 whitespace-nowrap">{formatRub(type.amount)}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </section>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Plus, Trash2, Upload, Loader2, AlertTriangle, Check, ArrowRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import { runParseTask } from "@/lib/parseInWorker";
+import { getTemplateSkuLinks } from "@/lib/repricer";
+import { countSkuLinks } from "@/lib/skuIdentity";
+
+interface SkuIdentityManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    reportIds?: string[]; // product ids exactly as they appear in the loaded report
+}
+
+const UNKNOWN_LIMIT = 50;
+
+export function SkuIdentityManager({ isOpen, onClose, reportIds = [] }: SkuIdentityManagerProps) {
+    const { skuIdentity, setSkuIdentity, addSkuLinks, resolveSku, cogsHistory, repricerItems } = useAppState();
+    const [newAlias, setNewAlias] = useState("");
+    const [newTarget, setNewTarget] = useState("");
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [isImporting, setIsImporting] = useState(false);
+    const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const { aliases } = skuIdentity;
+    const knownArticles = new Set([
+        ...Object.keys(skuIdentity.links),
+        ...Object.keys(cogsHistory),
+        ...repricerItems.map(item => item.article)
+    ]);
+    // Ids that resolve to nothing we have a cost, a category source or a template row for
+    const unknownIds = Array.from(new Set(reportIds))
+        .filter(id => !knownArticles.has(resolveSku(id)))
+        .sort((a, b) => a.localeCompare(b, "ru"));
+
+    const setAlias = (alias: string, target: string) => {
+        const key = alias.trim();
+        if (!key) return;
+        const next = { ...aliases };
+        if (target.trim()) {
+            next[key] = target.trim();
+        } else {
+            delete next[key];
+        }
+        setSkuIdentity({ ...skuIdentity, aliases: next });
+    };
+
+    const handleAddAlias = () => {
+        if (!newAlias.trim() || !newTarget.trim()) return;
+        setAlias(newAlias, newTarget);
+        setNewAlias("");
+        setNewTarget("");
+    };
+
+    const applyDraft = (id: string) => {
+        setAlias(id, drafts[id] || "");
+        setDrafts(prev => {
+            const rest = { ...prev };
+            delete rest[id];
+            return rest;
+        });
+    };
+
+    const handleTemplateFile = async (file: File) => {
+        setIsImporting(true);
+        setImportMessage(null);
+        try {
+            const template = await runParseTask({ kind: "ozonTemplate", file });
+            const links = getTemplateSkuLinks(template.items);
+            if (links.length === 0) {
+                setImportMessage({ text: "В шаблоне нет столбцов «SKU» и «Штрихкод»", isError: true });
+                return;
+            }
+            addSkuLinks(links);
+            setImportMessage({ text: `Связано артикулов: ${links.length}`, isError: false });
+        } catch (err: unknown) {
+            console.error(err);
+            setImportMessage({ text: err instanceof Error ? err.message : "Ошибка при чтении шаблона", isError: true });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-start justify-center p-4 sm:p-8 overflow-y-auto"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 20 }}
+                        className="w-full max-w-3xl bg-white rounded-3xl shadow-2xl border border-slate-200/60 overflow-hidden"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-slate-100">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900">Соответствие артикулов</h3>
+                                <p className="text-sm text-slate-500 mt-0.5">
+                                    SKU Ozon и штрихкоды сводятся к вашему артикулу, чтобы себестоимость и категории находились в любом отчете.
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <datalist id="known-articles">
+                            {Array.from(knownArticles).map(article => <option key={article} value={article} />)}
+                        </datalist>
+
+                        <div className="p-6 space-y-8">
+                            <div className="space-y-3">
+                                <div className="flex flex-wrap items-center justify-between gap-3">
+                                    <div>
+                                        <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider">Связи из шаблона цен</p>
+                                        <p className="text-xs text-slate-500 mt-1">Артикулов с известными SKU и штрихкодами: {countSkuLinks(skuIdentity)}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => document.getElementById("identity-template-upload")?.click()}
+                                            disabled={isImporting}
+                                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors disabled:opacity-50"
+                                        >
+                                            {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                                            Из шаблона цен
+                                        </button>
+                                        <input
+                                            id="identity-template-upload"
+                                            type="file"
+                                            className="hidden"
+                                            accept=".xlsx"
+                                            onChange={(e) => {
+                                                if (e.target.files && e.target.files[0]) {
+                                                    handleTemplateFile(e.target.files[0]);
+                                                }
+                                                e.target.value = "";
+                                            }}
+                                        />
+                                        {countSkuLinks(skuIdentity) > 0 && (
+                                            <button
+                                                onClick={() => setSkuIdentity({ ...skuIdentity, links: {} })}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg text-slate-500 hover:text-rose-600 hover:bg-rose-50 transition-colors"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                                Забыть связи
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {importMessage && (
+                                    <div className={cn(
+                                        "flex items-center gap-2 text-xs rounded-lg px-3 py-2 border",
+                                        importMessage.isError
+                                            ? "text-amber-800 bg-amber-50/80 border-amber-100"
+                                            : "text-emerald-700 bg-emerald-50/80 border-emerald-100"
+                                    )}>
+                                        {importMessage.isError ? <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> : <Check className="w-3.5 h-3.5 shrink-0" />}
+                                        {importMessage.text}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="space-y-3">
+                                <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider">Ручные соответствия</p>
+                                {Object.keys(aliases).length > 0 && (
+                                    <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+                                        {Object.entries(aliases)
+                                            .sort(([a], [b]) => a.localeCompare(b, "ru"))
+                                            .map(([alias, target]) => (
+                                                <div key={alias} className="flex items-center gap-2 px-3 py-2 text-xs">
+                                                    <span className="flex-1 font-medium text-slate-700 break-all">{alias}</span>
+                                                    <ArrowRight className="w-3.5 h-3.5 text-slate-300 shrink-0" />
+                                                    <span className="flex-1 font-semibold text-slate-900 break-all">{target}</span>
+                                                    <button
+                                                        onClick={() => setAlias(alias, "")}
+                                                        className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50"
+                                                        title="Удалить соответствие"
+                                                    >
+                                                        <Trash2 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                    </div>
+                                )}
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <input
+                                        value={newAlias}
+                                        onChange={(e) => setNewAlias(e.target.value)}
+                                        placeholder="SKU, штрихкод или другой артикул"
+                                        className="flex-1 min-w-40 px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                    />
+                                    <ArrowRight className="w-4 h-4 text-slate-300" />
+                                    <input
+                                        list="known-articles"
+                                        value={newTarget}
+                                        onChange={(e) => setNewTarget(e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === "Enter") handleAddAlias(); }}
+                                        placeholder="Ваш артикул"
+                                        className="flex-1 min-w-40 px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                    />
+                                    <button
+                                        onClick={handleAddAlias}
+                                        disabled={!newAlias.trim() || !newTarget.trim()}
+                                        className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-xl transition-colors disabled:opacity-50"
+                                    >
+                                        <Plus className="w-4 h-4" />
+                                        Добавить
+                                    </button>
+                                </div>
+                            </div>
+
+                            {reportIds.length > 0 && (
+                                <div className="space-y-3">
+                                    <p className="text-[11px] font-semibold text-slate-500 uppercase tracking-wider">
+                                        Неизвестные идентификаторы отчета{unknownIds.length > 0 && `: ${unknownIds.length}`}
+                                    </p>
+                                    {unknownIds.length > 0 ? (
+                                        <div className="max-h-72 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+                                            {unknownIds.slice(0, UNKNOWN_LIMIT).map(id => (
+                                                <div key={id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-xs">
+                                                    <span className="font-medium text-slate-700 break-all">{id}</span>
+                                                    <div className="flex items-center gap-2">
+                                                        <input
+                                                            list="known-articles"
+                                                            value={drafts[id] ?? ""}
+                                                            onChange={(e) => setDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+                                                            onKeyDown={(e) => { if (e.key === "Enter") applyDraft(id); }}
+                                                            placeholder="Ваш артикул"
+                                                            className="w-48 px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                                        />
+                                                        <button
+                                                            onClick={() => applyDraft(id)}
+                                                            disabled={!(drafts[id] || "").trim()}
+                                                            className="p-1.5 rounded-lg text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 disabled:opacity-30 disabled:pointer-events-none"
+                                                            title="Сопоставить"
+                                                        >
+                                                            <Check className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ) : (
+                                        <p className="text-xs text-slate-400">Все товары отчета сопоставлены с известными артикулами</p>
+                                    )}
+                                    {unknownIds.length > UNKNOWN_LIMIT && (
+                                        <p className="text-xs text-slate-400">Показаны первые {UNKNOWN_LIMIT}</p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -1,42 +1,131 @@
 "use client";
 
-import { createContext, useContext, useState } from "react";
+import { createContext, useContext, useMemo, useState } from "react";
 import { AccrualsSummary } from "@/lib/parseAccruals";
+import { AnalysisResult } from "@/lib/parse";
 import { ParsedTemplate, RepricerItem } from "@/lib/repricer";
+import { ImportDiagnostics } from "@/lib/importDiagnostics";
+import { ExpenseRule, loadExpenseRules, saveExpenseRules } from "@/lib/expenseRules";
+import { CogsHistory, CogsSource, buildCogsHistory } from "@/lib/cogsHistory";
+import { ProductCategories, loadProductCategories, saveProductCategories } from "@/lib/productCategories";
+import { OverheadSettings, loadOverheadSettings, saveOverheadSettings } from "@/lib/overheads";
+import { LegalEntity, TaxSettings, getActiveLegalEntity, loadTaxSettings, saveTaxSettings } from "@/lib/taxRegime";
+import { SkuIdentityMap, SkuLink, SkuResolver, createSkuResolver, learnSkuLinks, loadSkuIdentity, saveSkuIdentity } from "@/lib/skuIdentity";
 
 interface AppState {
   accrualsResult: AccrualsSummary | null;
   setAccrualsResult: React.Dispatch<React.SetStateAction<AccrualsSummary | null>>;
+
+  accrualsReports: AccrualsSummary[];
+  setAccrualsReports: React.Dispatch<React.SetStateAction<AccrualsSummary[]>>;
   
+  unitEconomicsResult: AnalysisResult | null;
+  setUnitEconomicsResult: React.Dispatch<React.SetStateAction<AnalysisResult | null>>;
+
   repricerParsedData: ParsedTemplate | null;
   setRepricerParsedData: React.Dispatch<React.SetStateAction<ParsedTemplate | null>>;
   
   repricerItems: RepricerItem[];
   setRepricerItems: React.Dispatch<React.SetStateAction<RepricerItem[]>>;
 
-  skuCogs: Record<string, number>;
-  setSkuCogs: React.Dispatch<React.SetStateAction<Record<string, number>>>;
+  cogsSources: CogsSource[]; // in priority order, highest first
+  setCogsSources: React.Dispatch<React.SetStateAction<CogsSource[]>>;
+  cogsHistory: CogsHistory; // merged from cogsSources
 
   cogsFileName: string | null;
   setCogsFileName: React.Dispatch<React.SetStateAction<string | null>>;
+
+  cogsDiagnostics: ImportDiagnostics[];
+  setCogsDiagnostics: React.Dispatch<React.SetStateAction<ImportDiagnostics[]>>;
+
+  expenseRules: ExpenseRule[];
+  setExpenseRules: (rules: ExpenseRule[]) => void; // also persists the rules
+  productCategories: ProductCategories;
+  setProductCategories: (categories: ProductCategories) => void; // also persists the categories
+  overheadSettings: OverheadSettings;
+  setOverheadSettings: (settings: OverheadSettings) => void; // also persists the settings
+  taxSettings: TaxSettings;
+  setTaxSettings: (settings: TaxSettings) => void; // also persists the settings
+  legalEntity: LegalEntity; // the active one, its regime and VAT rate drive every tax calculation
+  skuIdentity: SkuIdentityMap;
+  setSkuIdentity: (identity: SkuIdentityMap) => void; // also persists the map
+  addSkuLinks: (links: SkuLink[]) => void; // merges ids learned from a price template
+  resolveSku: SkuResolver; // any product id -> offer_id, use for every per-article lookup
 }
 
 const AppStateContext = createContext<AppState | undefined>(undefined);
 
 export function AppStateProvider({ children }: { children: React.ReactNode }) {
   const [accrualsResult, setAccrualsResult] = useState<AccrualsSummary | null>(null);
+  const [accrualsReports, setAccrualsReports] = useState<AccrualsSummary[]>([]);
+  const [unitEconomicsResult, setUnitEconomicsResult] = useState<AnalysisResult | null>(null);
   const [repricerParsedData, setRepricerParsedData] = useState<ParsedTemplate | null>(null);
   const [repricerItems, setRepricerItems] = useState<RepricerItem[]>([]);
-  const [skuCogs, setSkuCogs] = useState<Record<string, number>>({});
+  const [cogsSources, setCogsSources] = useState<CogsSource[]>([]);
   const [cogsFileName, setCogsFileName] = useState<string | null>(null);
+  const [cogsDiagnostics, setCogsDiagnostics] = useState<ImportDiagnostics[]>([]);
+  const [expenseRules, setExpenseRulesState] = useState<ExpenseRule[]>(loadExpenseRules);
+  const [productCategories, setProductCategoriesState] = useState<ProductCategories>(loadProductCategories);
+  const [overheadSettings, setOverheadSettingsState] = useState<OverheadSettings>(loadOverheadSettings);
+  const [taxSettings, setTaxSettingsState] = useState<TaxSettings>(loadTaxSettings);
+  const [skuIdentity, setSkuIdentityState] = useState<SkuIdentityMap>(loadSkuIdentity);
+
+  const resolveSku = useMemo(() => createSkuResolver(skuIdentity), [skuIdentity]);
+  const cogsHistory = useMemo(() => buildCogsHistory(cogsSources, resolveSku), [cogsSources, resolveSku]);
+  const legalEntity = useMemo(() => getActiveLegalEntity(taxSettings), [taxSettings]);
+
+  const setExpenseRules = (rules: ExpenseRule[]) => {
+    setExpenseRulesState(rules);
+    saveExpenseRules(rules);
+  };
+
+  const setProductCategories = (categories: ProductCategories) => {
+    setProductCategoriesState(categories);
+    saveProductCategories(categories);
+  };
+
+  const setOverheadSettings = (settings: OverheadSettings) => {
+    setOverheadSettingsState(settings);
+    saveOverheadSettings(settings);
+  };
+
+  const setTaxSettings = (settings: TaxSettings) => {
+    setTaxSettingsState(settings);
+    saveTaxSettings(settings);
+  };
+
+  const setSkuIdentity = (identity: SkuIdentityMap) => {
+    setSkuIdentityState(identity);
+    saveSkuIdentity(identity);
+  };
+
+  // Called from async loaders, so it merges into the latest map instead of a captured one
+  const addSkuLinks = (links: SkuLink[]) => {
+    if (links.length === 0) return;
+    setSkuIdentityState(prev => {
+      const next = learnSkuLinks(prev, links);
+      saveSkuIdentity(next);
+      return next;
+    });
+  };
 
   return (
     <AppStateContext.Provider value={{
       accrualsResult, setAccrualsResult,
+      accrualsReports, setAccrualsReports,
+      unitEconomicsResult, setUnitEconomicsResult,
       repricerParsedData, setRepricerParsedData,
       repricerItems, setRepricerItems,
-      skuCogs, setSkuCogs,
-      cogsFileName, setCogsFileName
+      cogsSources, setCogsSources,
+      cogsHistory,
+      cogsFileName, setCogsFileName,
+      cogsDiagnostics, setCogsDiagnostics,
+      expenseRules, setExpenseRules,
+      productCategories, setProductCategories,
+      overheadSettings, setOverheadSettings,
+      taxSettings, setTaxSettings, legalEntity,
+      skuIdentity, setSkuIdentity, addSkuLinks,
+      resolveSku
     }}>
       {children}
     </AppStateContext.Provider>
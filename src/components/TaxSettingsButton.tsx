@@ -0,0 +1,26 @@
+"use client";
+
+import { useState } from "react";
+import { Landmark } from "lucide-react";
+import { useAppState } from "@/components/StoreProvider";
+import { TaxSettingsEditor } from "@/components/TaxSettingsEditor";
+import { formatLegalEntityTaxes } from "@/lib/taxRegime";
+
+export function TaxSettingsButton() {
+    const { legalEntity } = useAppState();
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+    return (
+        <>
+            <button
+                onClick={() => setIsEditorOpen(true)}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-bold rounded-lg transition-all bg-transparent text-slate-600 border border-transparent hover:bg-slate-100 hover:text-slate-900"
+                title={`Налоги: ${legalEntity.name}`}
+            >
+                <Landmark className="w-3.5 h-3.5" />
+                <span className="hidden xl:inline">{formatLegalEntityTaxes(legalEntity)}</span>
+            </button>
+            <TaxSettingsEditor isOpen={isEditorOpen} onClose={() => setIsEditorOpen(false)} />
+        </>
+    );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Plus, Trash2, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAppState } from "@/components/StoreProvider";
+import {
+    TAX_REGIMES,
+    TAX_REGIME_IDS,
+    VAT_RATES,
+    createLegalEntityId,
+    formatVatRate,
+    type LegalEntity,
+    type TaxRegime
+} from "@/lib/taxRegime";
+
+interface TaxSettingsEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+export function TaxSettingsEditor({ isOpen, onClose }: TaxSettingsEditorProps) {
+    const { taxSettings, setTaxSettings, legalEntity } = useAppState();
+    const { entities } = taxSettings;
+
+    const updateEntity = (id: string, patch: Partial<LegalEntity>) => {
+        setTaxSettings({ ...taxSettings, entities: entities.map(e => (e.id === id ? { ...e, ...patch } : e)) });
+    };
+
+    const addEntity = () => {
+        const entity: LegalEntity = { id: createLegalEntityId(), name: `Юрлицо ${entities.length + 1}`, regime: "usnIncome", vatRate: 0 };
+        setTaxSettings({ entities: [...entities, entity], activeId: entity.id });
+    };
+
+    const removeEntity = (id: string) => {
+        const rest = entities.filter(e => e.id !== id);
+        if (rest.length === 0) return;
+        setTaxSettings({ entities: rest, activeId: taxSettings.activeId === id ? rest[0].id : taxSettings.activeId });
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-start justify-center p-4 sm:p-8 overflow-y-auto"
+                    onClick={onClose}
+                >
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: 20 }}
+                        className="w-full max-w-3xl bg-white rounded-3xl shadow-2xl border border-slate-200/60 overflow-hidden"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between gap-4 px-6 py-5 border-b border-slate-100">
+                            <div>
+                                <h3 className="text-lg font-bold text-slate-900">Налоги юрлиц</h3>
+                                <p className="text-sm text-slate-500 mt-0.5">
+                                    Режим и ставка НДС выбранного юрлица применяются в начислениях, репрайсере и юнит-экономике.
+                                </p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-6">
+                            <div className="space-y-2">
+                                {entities.map(entity => {
+                                    const isActive = entity.id === legalEntity.id;
+                                    const noVat = !!TAX_REGIMES[entity.regime].noVat;
+                                    return (
+                                        <div
+                                            key={entity.id}
+                                            className={cn(
+                                                "flex flex-wrap items-center gap-2 px-3 py-2.5 rounded-xl border transition-colors",
+                                                isActive ? "bg-blue-50/60 border-blue-200" : "bg-slate-50 border-slate-200/60"
+                                            )}
+                                        >
+                                            <button
+                                                onClick={() => setTaxSettings({ ...taxSettings, activeId: entity.id })}
+                                                className={cn(
+                                                    "w-5 h-5 rounded-full border flex items-center justify-center shrink-0 transition-colors",
+                                                    isActive ? "bg-blue-600 border-blue-600 text-white" : "bg-white border-slate-300 hover:border-blue-400"
+                                                )}
+                                                title="Использовать в расчетах"
+                                            >
+                                                {isActive && <Check className="w-3 h-3" />}
+                                            </button>
+                                            <input
+                                                value={entity.name}
+                                                onChange={(e) => updateEntity(entity.id, { name: e.target.value })}
+                                                placeholder="Название юрлица"
+                                                className="flex-1 min-w-40 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                            />
+                                            <select
+                                                value={entity.regime}
+                                                onChange={(e) => updateEntity(entity.id, { regime: e.target.value as TaxRegime })}
+                                                className="px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                                            >
+                                                {TAX_REGIME_IDS.map(id => (
+                                                    <option key={id} value={id}>{TAX_REGIMES[id].title}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={noVat ? 0 : entity.vatRate}
+                                                onChange={(e) => updateEntity(entity.id, { vatRate: Number(e.target.value) })}
+                                                disabled={noVat}
+                                                className="px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50"
+                                                title={noVat ? "Плательщики АУСН не платят НДС" : undefined}
+                                            >
+                                                {VAT_RATES.map(rate => (
+                                                    <option key={rate} value={rate}>{formatVatRate(rate)}</option>
+                                                ))}
+                                            </select>
+                                            <button
+                                                onClick={() => removeEntity(entity.id)}
+                                                disabled={entities.length === 1}
+                                                className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-30 disabled:pointer-events-none"
+                                                title="Удалить юрлицо"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            <button
+                                onClick={addEntity}
+                                className="flex items-center gap-1.5 px-3 py-2 bg-blue-50 text-blue-600 hover:bg-blue-100 text-sm font-semibold rounded-xl transition-colors"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Добавить юрлицо
+                            </button>
+
+                            <p className="text-xs text-slate-500 leading-relaxed">
+                                НДС с продаж выделяется из выручки по ставке юрлица. Входящий НДС с услуг Ozon (22%) принимается к вычету
+                                только при ставке 20% или 22%: на пониженных ставках УСН 5% и 7% вычетов нет. Эквайринг НДС не облагается.
+                            </p>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,122 @@
+import type { SkuTransaction } from "@/lib/parseAccruals";
+import { classifyExpense, type ExpenseClass, type ExpenseRule } from "@/lib/expenseRules";
+
+export type TimeBucket = "day" | "week" | "month";
+
+export const TIME_BUCKET_LABELS: Record<TimeBucket, string> = {
+  day: "Дни",
+  week: "Недели",
+  month: "Месяцы"
+};
+
+export interface TimeSeriesPoint {
+  key: string;
+  start: Date;
+  end: Date; // exclusive
+  label: string;
+  inflow: number;
+  outflow: number; // negative, like in the report
+  net: number;
+  expenses: Record<ExpenseClass, number>; // outflow per expense class, negative
+}
+
+export interface AccrualsTimeSeries {
+  points: TimeSeriesPoint[];
+  undatedCount: number; // operations without a parsable date are kept out of the chart
+  undatedAmount: number;
+}
+
+const MONTHS = ["янв", "фев", "мар", "апр", "май", "июн", "июл", "авг", "сен", "окт", "ноя", "дек"];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const formatDay = (date: Date) => `${pad(date.getDate())}.${pad(date.getMonth() + 1)}`;
+
+export const getBucketStart = (date: Date, bucket: TimeBucket): Date => {
+  if (bucket === "month") return new Date(date.getFullYear(), date.getMonth(), 1);
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (bucket === "week") {
+    const shift = (day.getDay() + 6) % 7; // weeks start on Monday
+    day.setDate(day.getDate() - shift);
+  }
+  return day;
+};
+
+export const getNextBucketStart = (start: Date, bucket: TimeBucket): Date => {
+  if (bucket === "month") return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + (bucket === "week" ? 7 : 1));
+};
+
+const formatBucketLabel = (start: Date, end: Date, bucket: TimeBucket): string => {
+  if (bucket === "day") return formatDay(start);
+  if (bucket === "month") return `${MONTHS[start.getMonth()]} ${start.getFullYear()}`;
+  return `${formatDay(start)}–${formatDay(new Date(end.getTime() - 1))}`;
+};
+
+const createPoint = (start: Date, bucket: TimeBucket): TimeSeriesPoint => {
+  const end = getNextBucketStart(start, bucket);
+  return {
+    key: String(start.getTime()),
+    start,
+    end,
+    label: formatBucketLabel(start, end, bucket),
+    inflow: 0,
+    outflow: 0,
+    net: 0,
+    expenses: { commission: 0, logistics: 0, storage: 0, ads: 0, acquiring: 0, returns: 0, other: 0 }
+  };
+};
+
+// Buckets run continuously from the first to the last operation, so quiet days show up as gaps
+export const buildAccrualsTimeSeries = (
+  transactions: SkuTransaction[],
+  bucket: TimeBucket,
+  rules: ExpenseRule[]
+): AccrualsTimeSeries => {
+  const pointsByKey = new Map<number, TimeSeriesPoint>();
+  const classCache = new Map<string, ExpenseClass>();
+  let undatedCount = 0;
+  let undatedAmount = 0;
+  let first: Date | null = null;
+  let last: Date | null = null;
+
+  for (const tx of transactions) {
+    if (tx.amount === 0) continue;
+    if (!tx.date) {
+      undatedCount++;
+      undatedAmount += tx.amount;
+      continue;
+    }
+
+    const start = getBucketStart(tx.date, bucket);
+    let point = pointsByKey.get(start.getTime());
+    if (!point) {
+      point = createPoint(start, bucket);
+      pointsByKey.set(start.getTime(), point);
+    }
+    if (!first || start < first) first = start;
+    if (!last || start > last) last = start;
+
+    point.net += tx.amount;
+    if (tx.amount > 0) {
+      point.inflow += tx.amount;
+    } else {
+      point.outflow += tx.amount;
+      const cacheKey = `${tx.group}::${tx.type}`;
+      let expenseClass = classCache.get(cacheKey);
+      if (!expenseClass) {
+        expenseClass = classifyExpense(rules, tx.group, tx.type).expenseClass;
+        classCache.set(cacheKey, expenseClass);
+      }
+      point.expenses[expenseClass] += tx.amount;
+    }
+  }
+
+  const points: TimeSeriesPoint[] = [];
+  if (first && last) {
+    for (let start: Date = first; start <= last; start = getNextBucketStart(start, bucket)) {
+      points.push(pointsByKey.get(start.getTime()) ?? createPoint(start, bucket));
+    }
+  }
+
+  return { points, undatedCount, undatedAmount };
+};
@@ -0,0 +1,54 @@
+import { createId, createStoredSetting } from "@/lib/storedSettings";
+
+// Column visibility and pinning of the unit-economics articles table; column ids are the table's sort keys
+export interface ColumnLayout {
+  hidden: string[];
+  pinned: string[]; // in pin order, rendered right after the SKU column
+}
+
+export interface SavedColumnLayout extends ColumnLayout {
+  id: string;
+  name: string;
+}
+
+export interface ArticlesTableLayouts {
+  current: ColumnLayout;
+  saved: SavedColumnLayout[];
+}
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = { hidden: [], pinned: ["deliveredItems", "avgPrice"] };
+
+const DEFAULT_LAYOUTS: ArticlesTableLayouts = { current: DEFAULT_COLUMN_LAYOUT, saved: [] };
+
+export const createColumnLayoutId = (): string => createId("layout");
+
+const STORAGE_KEY = "ozon-count:articles-table-layouts";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === "string");
+
+const isColumnLayout = (value: unknown): value is ColumnLayout => {
+  if (!value || typeof value !== "object") return false;
+  const layout = value as Record<string, unknown>;
+  return isStringArray(layout.hidden) && isStringArray(layout.pinned);
+};
+
+const isSavedColumnLayout = (value: unknown): value is SavedColumnLayout => {
+  if (!isColumnLayout(value)) return false;
+  const layout = value as unknown as Record<string, unknown>;
+  return typeof layout.id === "string" && typeof layout.name === "string";
+};
+
+const readArticlesTableLayouts = (parsed: unknown): ArticlesTableLayouts | null => {
+  if (!parsed || typeof parsed !== "object") return null;
+  const layouts = parsed as Record<string, unknown>;
+  if (!isColumnLayout(layouts.current) || !Array.isArray(layouts.saved)) return null;
+  return { current: layouts.current, saved: layouts.saved.filter(isSavedColumnLayout) };
+};
+
+export const { load: loadArticlesTableLayouts, save: saveArticlesTableLayouts } = createStoredSetting<ArticlesTableLayouts>(
+  STORAGE_KEY,
+  DEFAULT_LAYOUTS,
+  readArticlesTableLayouts,
+  "раскладку таблицы"
+);
@@ -0,0 +1,218 @@
+import type { SkuTransaction } from "@/lib/parseAccruals";
+import type { SkuResolver } from "@/lib/skuIdentity";
+import { getCogsAt, type CogsHistory } from "@/lib/cogsHistory";
+import { getBucketStart, getNextBucketStart, type TimeBucket } from "@/lib/accrualsTimeSeries";
+
+export type AbcClass = "A" | "B" | "C";
+export type XyzClass = "X" | "Y" | "Z";
+export type AbcBasis = "revenue" | "profit";
+export type XyzBucket = Extract<TimeBucket, "day" | "week">;
+
+export const ABC_CLASSES: AbcClass[] = ["A", "B", "C"];
+export const XYZ_CLASSES: XyzClass[] = ["X", "Y", "Z"];
+
+export const ABC_BASIS_LABELS: Record<AbcBasis, string> = {
+  revenue: "Выручка",
+  profit: "Прибыль"
+};
+
+export interface AssortmentThresholds {
+  a: number; // cumulative share of the total, %
+  b: number;
+  x: number; // coefficient of variation of units sold per period, %
+  y: number;
+}
+
+export const DEFAULT_ASSORTMENT_THRESHOLDS: AssortmentThresholds = { a: 80, b: 95, x: 10, y: 25 };
+
+export interface AssortmentRow {
+  sku: string;
+  revenue: number; // sales minus revenue returns
+  units: number; // sold minus returned
+  cogs: number;
+  profit: number; // every operation of the article minus COGS, before taxes
+  revenueShare: number; // share of the total, 0..1
+  profitShare: number;
+  abcRevenue: AbcClass;
+  abcProfit: AbcClass;
+  variation: number | null; // %, null when nothing was sold
+  xyz: XyzClass;
+}
+
+export interface AssortmentAnalysis {
+  rows: AssortmentRow[];
+  periods: number; // days or weeks the sales series runs over
+  totalRevenue: number;
+  totalProfit: number;
+  undatedSales: number; // sale and return rows without a date, left out of the XYZ series
+}
+
+export interface AssortmentCell {
+  abc: AbcClass;
+  xyz: XyzClass;
+  count: number;
+  revenue: number;
+  profit: number;
+  revenueShare: number;
+  profitShare: number;
+}
+
+const isSaleTransaction = (tx: SkuTransaction) => tx.group === "Продажи" && tx.type === "Выручка";
+const isReturnTransaction = (tx: SkuTransaction) => tx.group === "Возвраты" && tx.type === "Возврат выручки";
+
+// Largest first; an article is A while the share accumulated before it is under the A threshold.
+// Zero and loss-making articles are always C
+const assignAbc = (rows: AssortmentRow[], basis: AbcBasis, thresholds: AssortmentThresholds) => {
+  const total = rows.reduce((sum, row) => sum + Math.max(0, row[basis]), 0);
+  let accumulated = 0;
+  [...rows]
+    .sort((a, b) => b[basis] - a[basis])
+    .forEach((row) => {
+      const value = row[basis];
+      let abc: AbcClass = "C";
+      if (value > 0 && total > 0) {
+        const before = (accumulated / total) * 100;
+        abc = before < thresholds.a ? "A" : before < thresholds.b ? "B" : "C";
+        accumulated += value;
+      }
+      if (basis === "revenue") row.abcRevenue = abc;
+      else row.abcProfit = abc;
+    });
+};
+
+const getVariation = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (mean <= 0) return null;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return (Math.sqrt(variance) / mean) * 100;
+};
+
+const getXyz = (variation: number | null, thresholds: AssortmentThresholds): XyzClass => {
+  if (variation === null) return "Z";
+  if (variation <= thresholds.x) return "X";
+  return variation <= thresholds.y ? "Y" : "Z";
+};
+
+// ABC by revenue and by profit, XYZ by how evenly units sell across days or weeks.
+// The sales series runs from the first to the last dated sale of the whole report, so quiet periods count as zero
+export const buildAssortmentAnalysis = (
+  transactions: SkuTransaction[],
+  cogsHistory: CogsHistory,
+  resolveSku: SkuResolver,
+  bucket: XyzBucket,
+  thresholds: AssortmentThresholds
+): AssortmentAnalysis => {
+  const totals = new Map<string, { revenue: number; units: number; cogs: number; net: number; series: Map<number, number> }>();
+  let undatedSales = 0;
+  let first: Date | null = null;
+  let last: Date | null = null;
+
+  for (const tx of transactions) {
+    if (!tx.sku) continue;
+    const article = resolveSku(tx.sku);
+    let total = totals.get(article);
+    if (!total) {
+      total = { revenue: 0, units: 0, cogs: 0, net: 0, series: new Map() };
+      totals.set(article, total);
+    }
+    total.net += tx.amount;
+
+    const isSale = isSaleTransaction(tx);
+    if (!isSale && !isReturnTransaction(tx)) continue;
+    const units = isSale ? tx.quantity : -tx.quantity;
+    total.revenue += tx.amount;
+    total.units += units;
+    total.cogs += units * getCogsAt(cogsHistory, article, tx.date);
+
+    if (!tx.date) {
+      undatedSales++;
+      continue;
+    }
+    const start = getBucketStart(tx.date, bucket);
+    total.series.set(start.getTime(), (total.series.get(start.getTime()) ?? 0) + units);
+    if (!first || start < first) first = start;
+    if (!last || start > last) last = start;
+  }
+
+  const periodKeys: number[] = [];
+  if (first && last) {
+    for (let start: Date = first; start <= last; start = getNextBucketStart(start, bucket)) {
+      periodKeys.push(start.getTime());
+    }
+  }
+
+  const rows: AssortmentRow[] = [...totals.entries()].map(([sku, total]) => {
+    const variation = getVariation(periodKeys.map(key => total.series.get(key) ?? 0));
+    return {
+      sku,
+      revenue: total.revenue,
+      units: total.units,
+      cogs: total.cogs,
+      profit: total.net - total.cogs,
+      revenueShare: 0,
+      profitShare: 0,
+      abcRevenue: "C",
+      abcProfit: "C",
+      variation,
+      xyz: getXyz(variation, thresholds)
+    };
+  });
+
+  const totalRevenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+  const totalProfit = rows.reduce((sum, row) => sum + row.profit, 0);
+  rows.forEach((row) => {
+    row.revenueShare = totalRevenue > 0 ? row.revenue / totalRevenue : 0;
+    row.profitShare = totalProfit > 0 ? row.profit / totalProfit : 0;
+  });
+  assignAbc(rows, "revenue", thresholds);
+  assignAbc(rows, "profit", thresholds);
+  rows.sort((a, b) => b.revenue - a.revenue);
+
+  return { rows, periods: periodKeys.length, totalRevenue, totalProfit, undatedSales };
+};
+
+export const getAbcClass = (row: AssortmentRow, basis: AbcBasis): AbcClass =>
+  basis === "revenue" ? row.abcRevenue : row.abcProfit;
+
+// Nine cells, AX to CZ row by row
+export const buildAssortmentMatrix = (analysis: AssortmentAnalysis, basis: AbcBasis): AssortmentCell[] =>
+  ABC_CLASSES.flatMap(abc => XYZ_CLASSES.map((xyz) => {
+    const rows = analysis.rows.filter(row => getAbcClass(row, basis) === abc && row.xyz === xyz);
+    const revenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+    const profit = rows.reduce((sum, row) => sum + row.profit, 0);
+    return {
+      abc,
+      xyz,
+      count: rows.length,
+      revenue,
+      profit,
+      revenueShare: analysis.totalRevenue > 0 ? revenue / analysis.totalRevenue : 0,
+      profitShare: analysis.totalProfit > 0 ? profit / analysis.totalProfit : 0
+    };
+  }));
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const formatAssortmentCsv = (rows: AssortmentRow[]): string => {
+  const lines = [[
+    "Артикул", "ABC по выручке", "ABC по прибыли", "XYZ", "Выручка", "Доля выручки, %", "Прибыль", "Доля прибыли, %",
+    "Продано, шт", "Себестоимость", "Коэффициент вариации, %"
+  ].join(";")];
+  rows.forEach((row) => {
+    lines.push([
+      row.sku,
+      row.abcRevenue,
+      row.abcProfit,
+      row.xyz,
+      round(row.revenue),
+      round(row.revenueShare * 100),
+      round(row.profit),
+      round(row.profitShare * 100),
+      row.units,
+      round(row.cogs),
+      row.variation === null ? "" : round(row.variation, 1)
+    ].join(";"));
+  });
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,247 @@
+import type { CogsEntry } from "@/lib/parseAccruals";
+import { COST_COMPONENTS, COST_COMPONENT_LABELS, type CostComponents } from "@/lib/landedCost";
+import type { SkuResolver } from "@/lib/skuIdentity";
+
+export interface CogsVersion {
+  cost: number;
+  validFrom: Date | null; // null is the baseline that applies before any dated version
+  source: string; // file the version was imported from
+  components?: CostComponents;
+}
+
+// Versions per article, ordered by validFrom with the baseline first
+export type CogsHistory = Record<string, CogsVersion[]>;
+
+const toTime = (date: Date | null) => (date ? date.getTime() : -Infinity);
+
+const isSameCost = (a: CogsVersion | undefined, b: CogsVersion) =>
+  !!a && a.cost === b.cost && COST_COMPONENTS.every(c => a.components?.[c] === b.components?.[c]);
+
+// New versions are inserted by date; a version with the same validFrom is replaced, and
+// neighbours that merely repeat the same cost are collapsed
+export const appendCogsVersions = (history: CogsHistory, entries: CogsEntry[], source: string): CogsHistory => {
+  const next: CogsHistory = { ...history };
+  const touched = new Set<string>();
+
+  entries.forEach(({ sku, cost, validFrom, components }) => {
+    if (!touched.has(sku)) {
+      next[sku] = [...(next[sku] || [])];
+      touched.add(sku);
+    }
+    const versions = next[sku];
+    const version: CogsVersion = { cost, validFrom, source, ...(components && { components }) };
+    const time = toTime(validFrom);
+    const sameDateIdx = versions.findIndex(v => toTime(v.validFrom) === time);
+    if (sameDateIdx !== -1) {
+      versions[sameDateIdx] = version;
+      return;
+    }
+
+    const found = versions.findIndex(v => toTime(v.validFrom) > time);
+    const insertAt = found === -1 ? versions.length : found;
+    if (isSameCost(versions[insertAt - 1], version)) return;
+    versions.splice(insertAt, 0, version);
+    if (isSameCost(versions[insertAt + 1], version)) versions.splice(insertAt + 1, 1);
+  });
+
+  return next;
+};
+
+// Version in force on the given date; without a date the latest version is used. Dates before the
+// first dated version fall back to the earliest known cost rather than to zero
+export const getCogsVersionAt = (history: CogsHistory, sku: string, date: Date | null): CogsVersion | null => {
+  const versions = history[sku];
+  if (!versions || versions.length === 0) return null;
+  if (!date) return versions[versions.length - 1];
+
+  let current = versions[0];
+  for (const version of versions) {
+    if (version.validFrom && version.validFrom > date) break;
+    current = version;
+  }
+  return current;
+};
+
+export const getCogsAt = (history: CogsHistory, sku: string, date: Date | null): number =>
+  getCogsVersionAt(history, sku, date)?.cost ?? 0;
+
+export const countCogsVersions = (history: CogsHistory): number =>
+  Object.values(history).reduce((sum, versions) => sum + versions.length, 0);
+
+const formatCsvDate = (date: Date) =>
+  `${String(date.getDate()).padStart(2, "0")}.${String(date.getMonth() + 1).padStart(2, "0")}.${date.getFullYear()}`;
+
+// Same layout as archived_cogs.csv plus a "Действует с" column, so every version survives a re-import.
+// Per-unit component columns are added only when some version has them
+export const formatCogsCsv = (history: CogsHistory): string => {
+  const components = COST_COMPONENTS.filter(c =>
+    Object.values(history).some(versions => versions.some(v => v.components?.[c] !== undefined))
+  );
+  const lines = [["Артикул", "Себестоимость", "Действует с", ...components.map(c => COST_COMPONENT_LABELS[c])].join(";")];
+  Object.keys(history)
+    .sort((a, b) => a.localeCompare(b, "ru"))
+    .forEach((sku) => {
+      history[sku].forEach((version) => {
+        const componentCells = components.map(c => version.components?.[c] ?? "");
+        lines.push([sku, version.cost, version.validFrom ? formatCsvDate(version.validFrom) : "", ...componentCells].join(";"));
+      });
+    });
+  return lines.join("\n") + "\n";
+};
+
+export type CogsSourceKind = "template" | "csv" | "archive" | "manual";
+
+export const COGS_SOURCE_KIND_LABELS: Record<CogsSourceKind, string> = {
+  template: "Шаблон цен",
+  csv: "CSV-база",
+  archive: "Архив",
+  manual: "Ручной ввод"
+};
+
+export interface CogsSource {
+  name: string; // file name, unique within the list
+  kind: CogsSourceKind;
+  entries: CogsEntry[];
+}
+
+export const MANUAL_COGS_SOURCE = "Ввод вручную";
+
+// Sources are kept in priority order, highest first. A re-imported file keeps its place; new files go
+// right below manual edits, and the archive always starts at the bottom
+export const upsertCogsSource = (sources: CogsSource[], source: CogsSource): CogsSource[] => {
+  const existingIdx = sources.findIndex(s => s.name === source.name);
+  if (existingIdx !== -1) {
+    return sources.map((s, idx) => (idx === existingIdx ? source : s));
+  }
+  if (source.kind === "archive") return [...sources, source];
+  if (source.kind === "manual") return [source, ...sources];
+  const insertAt = sources.filter(s => s.kind === "manual").length;
+  return [...sources.slice(0, insertAt), source, ...sources.slice(insertAt)];
+};
+
+// Manual edits accumulate in one source that always outranks the files
+export const addManualCogs = (sources: CogsSource[], entries: CogsEntry[]): CogsSource[] => {
+  const manual = sources.find(s => s.name === MANUAL_COGS_SOURCE);
+  return upsertCogsSource(sources, {
+    name: MANUAL_COGS_SOURCE,
+    kind: "manual",
+    entries: [...(manual?.entries || []), ...entries]
+  });
+};
+
+const resolveEntries = (entries: CogsEntry[], resolveSku?: SkuResolver): CogsEntry[] =>
+  resolveSku ? entries.map(e => ({ ...e, sku: resolveSku(e.sku) })) : entries;
+
+const buildSourceHistories = (sources: CogsSource[], resolveSku?: SkuResolver): CogsHistory[] =>
+  sources.map(s => appendCogsVersions({}, resolveEntries(s.entries, resolveSku), s.name));
+
+// Every date on which some source changes the article's cost, the baseline (-Infinity) included
+const getBreakpoints = (perSource: CogsHistory[], sku: string): number[] =>
+  Array.from(new Set(perSource.flatMap(h => (h[sku] || []).map(v => toTime(v.validFrom))))).sort((a, b) => a - b);
+
+// Unlike getCogsVersionAt, a source has nothing in force before its first version
+const getVersionInForce = (history: CogsHistory, sku: string, time: number): CogsVersion | undefined =>
+  (history[sku] || []).filter(v => toTime(v.validFrom) <= time).pop();
+
+const fromTime = (time: number): Date | null => (time === -Infinity ? null : new Date(time));
+
+// On every date the highest-priority source that has a cost in force wins. Articles are keyed by
+// offer_id, so a file that lists Ozon SKUs or barcodes still lands on the right product
+export const buildCogsHistory = (sources: CogsSource[], resolveSku?: SkuResolver): CogsHistory => {
+  const perSource = buildSourceHistories(sources, resolveSku);
+  const skus = new Set(perSource.flatMap(h => Object.keys(h)));
+  const history: CogsHistory = {};
+
+  skus.forEach((sku) => {
+    const versions: CogsVersion[] = [];
+
+    getBreakpoints(perSource, sku).forEach((time) => {
+      for (const sourceHistory of perSource) {
+        const inForce = getVersionInForce(sourceHistory, sku, time);
+        if (!inForce) continue;
+        if (!isSameCost(versions[versions.length - 1], inForce)) {
+          versions.push({ ...inForce, validFrom: fromTime(time) });
+        }
+        break;
+      }
+    });
+
+    if (versions.length > 0) history[sku] = versions;
+  });
+
+  return history;
+};
+
+export interface CogsSourceCoverage {
+  skus: number; // articles the source prices on at least one date
+  from: Date | null; // earliest date it applies from, null when it covers the whole history
+}
+
+// Where each source actually ends up in the merged history; sources missing from the result are fully overridden
+export const getCogsSourceCoverage = (history: CogsHistory): Record<string, CogsSourceCoverage> => {
+  const coverage: Record<string, { skus: Set<string>; from: number }> = {};
+  Object.entries(history).forEach(([sku, versions]) => {
+    versions.forEach((version) => {
+      if (!coverage[version.source]) coverage[version.source] = { skus: new Set(), from: Infinity };
+      const entry = coverage[version.source];
+      entry.skus.add(sku);
+      entry.from = Math.min(entry.from, toTime(version.validFrom));
+    });
+  });
+  return Object.fromEntries(Object.entries(coverage).map(([source, entry]) =>
+    [source, { skus: entry.skus.size, from: fromTime(entry.from) }]
+  ));
+};
+
+export interface CogsConflict {
+  sku: string;
+  winner: { source: string; cost: number };
+  other: { source: string; cost: number };
+  difference: number; // other minus winner
+  validFrom: Date | null; // null when the disagreement runs from the start of the history
+  validTo: Date | null; // exclusive; null while it is still in force
+}
+
+const isSameConflict = (a: CogsConflict, b: CogsConflict) =>
+  a.winner.source === b.winner.source && a.winner.cost === b.winner.cost && a.other.cost === b.other.cost;
+
+// Disagreements over the dates where they actually apply: the winner is the source buildCogsHistory uses
+// on that date, the other is any lower source with a different cost in force at the same time
+export const findCogsConflicts = (sources: CogsSource[], resolveSku?: SkuResolver): CogsConflict[] => {
+  const perSource = buildSourceHistories(sources, resolveSku);
+  const skus = new Set(perSource.flatMap(h => Object.keys(h)));
+  const conflicts: CogsConflict[] = [];
+
+  skus.forEach((sku) => {
+    let open = new Map<string, CogsConflict>(); // by the other source
+
+    getBreakpoints(perSource, sku).forEach((time) => {
+      const date = fromTime(time);
+      const inForce = perSource.flatMap((h, idx) => {
+        const version = getVersionInForce(h, sku, time);
+        return version ? [{ source: sources[idx].name, cost: version.cost }] : [];
+      });
+      const current = new Map<string, CogsConflict>();
+      const [winner, ...others] = inForce;
+      others.forEach((other) => {
+        if (Math.abs(other.cost - winner.cost) < 0.005) return;
+        current.set(other.source, { sku, winner, other, difference: other.cost - winner.cost, validFrom: date, validTo: null });
+      });
+
+      // A disagreement that carries on unchanged keeps its start date, anything else is closed here
+      open.forEach((conflict, source) => {
+        const next = current.get(source);
+        if (next && isSameConflict(conflict, next)) {
+          current.set(source, conflict);
+          return;
+        }
+        conflicts.push({ ...conflict, validTo: date });
+      });
+      open = current;
+    });
+
+    conflicts.push(...open.values());
+  });
+
+  return conflicts.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+};
@@ -0,0 +1,101 @@
+import type { AccrualsSummary } from "@/lib/parseAccruals";
+
+export interface AccrualsComparisonItem {
+  group: string;
+  type: string;
+  amountA: number;
+  amountB: number;
+  delta: number;
+  deltaPct: number | null; // null when the operation is absent in period A
+  pctOfInflowA: number;
+  pctOfInflowB: number;
+  pctOfOutflowA: number;
+  pctOfOutflowB: number;
+}
+
+export interface AccrualsComparisonGroup extends AccrualsComparisonItem {
+  children: AccrualsComparisonItem[];
+}
+
+const getDeltaPct = (a: number, b: number): number | null => {
+  if (a === 0) return null;
+  return ((b - a) / Math.abs(a)) * 100;
+};
+
+const buildItem = (
+  group: string,
+  type: string,
+  amountA: number,
+  amountB: number,
+  a: AccrualsSummary,
+  b: AccrualsSummary
+): AccrualsComparisonItem => ({
+  group,
+  type,
+  amountA,
+  amountB,
+  delta: amountB - amountA,
+  deltaPct: getDeltaPct(amountA, amountB),
+  pctOfInflowA: amountA > 0 && a.totalInflow ? (amountA / a.totalInflow) * 100 : 0,
+  pctOfInflowB: amountB > 0 && b.totalInflow ? (amountB / b.totalInflow) * 100 : 0,
+  pctOfOutflowA: amountA < 0 && a.totalOutflow ? (Math.abs(amountA) / Math.abs(a.totalOutflow)) * 100 : 0,
+  pctOfOutflowB: amountB < 0 && b.totalOutflow ? (Math.abs(amountB) / Math.abs(b.totalOutflow)) * 100 : 0
+});
+
+// Inflows first, then outflows, each by the larger absolute amount of the two periods
+const compareOrder = (x: AccrualsComparisonItem, y: AccrualsComparisonItem): number => {
+  const xIn = x.amountA + x.amountB > 0;
+  const yIn = y.amountA + y.amountB > 0;
+  if (xIn && !yIn) return -1;
+  if (!xIn && yIn) return 1;
+  return Math.max(Math.abs(y.amountA), Math.abs(y.amountB)) - Math.max(Math.abs(x.amountA), Math.abs(x.amountB));
+};
+
+// Change of the item's share in its flow (inflow or outflow), in percentage points
+export const getShareDelta = (item: AccrualsComparisonItem): number => {
+  if (item.amountA > 0 || item.amountB > 0) {
+    return item.pctOfInflowB - item.pctOfInflowA;
+  }
+  return item.pctOfOutflowB - item.pctOfOutflowA;
+};
+
+export const compareBreakdowns = (a: AccrualsSummary, b: AccrualsSummary): AccrualsComparisonItem[] => {
+  const map: Record<string, { group: string; type: string; amountA: number; amountB: number }> = {};
+
+  a.breakdown.forEach((item) => {
+    const key = `${item.group}::${item.type}`;
+    if (!map[key]) map[key] = { group: item.group, type: item.type, amountA: 0, amountB: 0 };
+    map[key].amountA += item.amount;
+  });
+  b.breakdown.forEach((item) => {
+    const key = `${item.group}::${item.type}`;
+    if (!map[key]) map[key] = { group: item.group, type: item.type, amountA: 0, amountB: 0 };
+    map[key].amountB += item.amount;
+  });
+
+  return Object.values(map)
+    .map((item) => buildItem(item.group, item.type, item.amountA, item.amountB, a, b))
+    .sort(compareOrder);
+};
+
+export const groupComparison = (
+  items: AccrualsComparisonItem[],
+  a: AccrualsSummary,
+  b: AccrualsSummary
+): AccrualsComparisonGroup[] => {
+  const map: Record<string, { amountA: number; amountB: number; children: AccrualsComparisonItem[] }> = {};
+
+  items.forEach((item) => {
+    if (!map[item.group]) map[item.group] = { amountA: 0, amountB: 0, children: [] };
+    map[item.group].amountA += item.amountA;
+    map[item.group].amountB += item.amountB;
+    map[item.group].children.push(item);
+  });
+
+  return Object.entries(map)
+    .map(([group, data]) => ({
+      ...buildItem(group, "Все операции группы", data.amountA, data.amountB, a, b),
+      children: [...data.children].sort(compareOrder)
+    }))
+    .sort(compareOrder);
+};
@@ -0,0 +1,124 @@
+import Papa from "papaparse";
+
+export type CsvEncoding = "utf-8" | "windows-1251";
+
+export interface CsvRow {
+  cells: string[];
+  line: number; // 1-based line where the row starts; multi-line cells make rows span several lines
+}
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvTable {
+  rows: CsvRow[];
+  delimiter: string;
+  errors: CsvParseError[];
+}
+
+// 1C and older Excel exports are Windows-1251; a file that isn't valid UTF-8 is assumed to be one
+export const decodeCsvBytes = (buffer: ArrayBuffer): { text: string; encoding: CsvEncoding } => {
+  const bytes = new Uint8Array(buffer);
+  const hasBom = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(hasBom ? bytes.subarray(3) : bytes);
+    return { text, encoding: "utf-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1251").decode(bytes), encoding: "windows-1251" };
+  }
+};
+
+const CSV_ERROR_MESSAGES: Record<string, string> = {
+  MissingQuotes: "Незакрытые кавычки",
+  InvalidQuotes: "Лишние кавычки внутри значения"
+};
+
+const DELIMITERS = [";", ",", "\t", "|"];
+const SNIFF_LINES = 20;
+
+// The delimiter that splits the most lines into the same number of cells wins. Decimal commas only
+// show up in data rows, never in the header, so they can't outvote a real ";" separator
+const sniffDelimiter = (text: string): string => {
+  const lineCounts: Record<string, number>[] = [];
+  let counts: Record<string, number> = {};
+  let inQuotes = false;
+  for (let i = 0; i < text.length && lineCounts.length < SNIFF_LINES; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (ch === "\n" && !inQuotes) {
+      lineCounts.push(counts);
+      counts = {};
+    } else if (!inQuotes && DELIMITERS.includes(ch)) {
+      counts[ch] = (counts[ch] ?? 0) + 1;
+    }
+  }
+  lineCounts.push(counts);
+
+  let best = DELIMITERS[0];
+  let bestScore = 0;
+  DELIMITERS.forEach((delimiter) => {
+    const frequency = new Map<number, number>();
+    lineCounts.forEach((c) => {
+      if (c[delimiter]) frequency.set(c[delimiter], (frequency.get(c[delimiter]) ?? 0) + 1);
+    });
+    const score = Math.max(0, ...frequency.values());
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Tokenizes the whole text: the delimiter is sniffed among ; , TAB and |, quoted cells may contain
+// delimiters, doubled quotes and line breaks
+export const parseCsvTable = (text: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, "");
+  const rows: CsvRow[] = [];
+  const errors: CsvParseError[] = [];
+  const delimiter = sniffDelimiter(source);
+  let scanned = 0;
+  let line = 1;
+
+  const lineAt = (offset: number) => {
+    for (; scanned < offset; scanned++) {
+      if (source.charCodeAt(scanned) === 10) line++;
+    }
+    return line;
+  };
+
+  let rowStart = 0;
+  Papa.parse<string[]>(source, {
+    delimiter,
+    skipEmptyLines: false,
+    step: (result) => {
+      const rowLine = lineAt(rowStart);
+      result.errors.forEach(e => errors.push({ line: rowLine, message: CSV_ERROR_MESSAGES[e.code] || e.message }));
+      rows.push({ cells: result.data, line: rowLine });
+      rowStart = result.meta.cursor;
+    }
+  });
+
+  return { rows, delimiter, errors };
+};
+
+// Accepts "1 234,50", "1.234,50", "1,234.50" and "₽ 99"; the last separator is the decimal one
+export const parseCsvNumber = (value: string): number | null => {
+  let str = value.replace(/^"|"$/g, "").replace(/[\s₽]|руб\.?/gi, "");
+  if (!str) return null;
+  const lastComma = str.lastIndexOf(",");
+  const lastDot = str.lastIndexOf(".");
+  if (lastComma !== -1 && lastDot !== -1) {
+    str = lastComma > lastDot ? str.replace(/\./g, "").replace(",", ".") : str.replace(/,/g, "");
+  } else if (lastComma !== -1) {
+    str = str.indexOf(",") === lastComma ? str.replace(",", ".") : str.replace(/,/g, "");
+  }
+  if (!/^-?\d*\.?\d+$/.test(str)) return null;
+  return Number(str);
+};
+
+export const formatCsvDelimiter = (delimiter: string): string =>
+  delimiter === "\t" ? "табуляция" : `«${delimiter}»`;
@@ -0,0 +1,146 @@
+import { createId, createStoredSetting } from "@/lib/storedSettings";
+
+export type ExpenseClass = "commission" | "logistics" | "storage" | "ads" | "acquiring" | "returns" | "other";
+
+// How an expense reacts to sales: share of revenue, roubles per unit sold, or a flat amount per period
+export type ExpenseBehavior = "variablePct" | "fixedPerUnit" | "fixedPerPeriod";
+
+export interface ExpenseRule {
+  id: string;
+  groupPattern: string; // "|"-separated substrings of "Группа услуг", empty matches any group
+  typePattern: string; // "|"-separated substrings of "Тип начисления", empty matches any type
+  expenseClass: ExpenseClass;
+  behavior: ExpenseBehavior; // the repricer treats only variablePct as a share of the price
+  scalesWithVolume: boolean; // the accruals forecast rescales the amount with sales volume
+}
+
+export interface ExpenseClassification {
+  expenseClass: ExpenseClass;
+  behavior: ExpenseBehavior;
+  scalesWithVolume: boolean;
+  ruleId: string | null; // null when no rule matched and the fallback was used
+}
+
+export const EXPENSE_CLASS_LABELS: Record<ExpenseClass, string> = {
+  commission: "Комиссия",
+  logistics: "Логистика",
+  storage: "Хранение",
+  ads: "Реклама",
+  acquiring: "Эквайринг",
+  returns: "Возвраты",
+  other: "Прочее"
+};
+
+export const EXPENSE_BEHAVIOR_LABELS: Record<ExpenseBehavior, string> = {
+  variablePct: "% от выручки",
+  fixedPerUnit: "₽ за единицу",
+  fixedPerPeriod: "₽ за период"
+};
+
+const FALLBACK: Omit<ExpenseClassification, "ruleId"> = { expenseClass: "other", behavior: "fixedPerPeriod", scalesWithVolume: false };
+
+const LOGISTICS_PER_UNIT = "логистик|доставк|магистрал|обработк|сборк|склад|упаковк|сортировк";
+const STORAGE = "хранени|размещен|кросс-док";
+const LOGISTICS = `${LOGISTICS_PER_UNIT}|${STORAGE}`;
+// Operations the repricer has always priced as a share of revenue
+const PRICED_GROUP = "логистика|продвижение в поиске";
+const PRICED_TYPE = "логистика|последняя миля|доставка до места выдачи|возврат выручки|баллы за скидки";
+
+// Rules are checked top to bottom, the first match wins. The defaults reproduce the original per-page heuristics:
+// the accruals forecast scaled commission, acquiring and logistics except storage and cross-docking, and the repricer
+// priced reward, acquiring, delivery, search promotion, revenue returns and discount points as a share of revenue
+export const DEFAULT_EXPENSE_RULES: ExpenseRule[] = [
+  { id: "commission-group", groupPattern: "вознаграждение", typePattern: "", expenseClass: "commission", behavior: "variablePct", scalesWithVolume: true },
+  { id: "commission-type", groupPattern: "", typePattern: "вознаграждение", expenseClass: "commission", behavior: "variablePct", scalesWithVolume: true },
+  { id: "commission-priced-group", groupPattern: "комисси", typePattern: `эквайринг|${PRICED_TYPE}`, expenseClass: "commission", behavior: "variablePct", scalesWithVolume: true },
+  { id: "commission-priced-type", groupPattern: `эквайринг|${PRICED_GROUP}`, typePattern: "комисси", expenseClass: "commission", behavior: "variablePct", scalesWithVolume: true },
+  { id: "acquiring-logistics-group", groupPattern: "эквайринг", typePattern: LOGISTICS, expenseClass: "logistics", behavior: "variablePct", scalesWithVolume: true },
+  { id: "acquiring-logistics-type", groupPattern: LOGISTICS, typePattern: "эквайринг", expenseClass: "logistics", behavior: "variablePct", scalesWithVolume: true },
+  { id: "acquiring-group", groupPattern: "эквайринг", typePattern: "", expenseClass: "acquiring", behavior: "variablePct", scalesWithVolume: true },
+  { id: "acquiring-type", groupPattern: "", typePattern: "эквайринг", expenseClass: "acquiring", behavior: "variablePct", scalesWithVolume: true },
+  { id: "commission-unit-group", groupPattern: "комисси", typePattern: "", expenseClass: "commission", behavior: "fixedPerUnit", scalesWithVolume: true },
+  { id: "commission-unit-type", groupPattern: "", typePattern: "комисси", expenseClass: "commission", behavior: "fixedPerUnit", scalesWithVolume: true },
+  { id: "storage-priced-group", groupPattern: PRICED_GROUP, typePattern: STORAGE, expenseClass: "storage", behavior: "variablePct", scalesWithVolume: false },
+  { id: "storage-priced-type", groupPattern: STORAGE, typePattern: PRICED_TYPE, expenseClass: "storage", behavior: "variablePct", scalesWithVolume: false },
+  { id: "storage-group", groupPattern: "хранени|размещен", typePattern: "", expenseClass: "storage", behavior: "fixedPerPeriod", scalesWithVolume: false },
+  { id: "storage-type", groupPattern: "", typePattern: "хранени|размещен", expenseClass: "storage", behavior: "fixedPerPeriod", scalesWithVolume: false },
+  { id: "crossdock-group", groupPattern: "кросс-док", typePattern: "", expenseClass: "logistics", behavior: "fixedPerPeriod", scalesWithVolume: false },
+  { id: "crossdock-type", groupPattern: "", typePattern: "кросс-док", expenseClass: "logistics", behavior: "fixedPerPeriod", scalesWithVolume: false },
+  { id: "delivery-group", groupPattern: "логистика", typePattern: "", expenseClass: "logistics", behavior: "variablePct", scalesWithVolume: true },
+  { id: "delivery-type", groupPattern: "", typePattern: "логистика|доставка до места выдачи", expenseClass: "logistics", behavior: "variablePct", scalesWithVolume: true },
+  { id: "delivery-priced", groupPattern: LOGISTICS_PER_UNIT, typePattern: PRICED_TYPE, expenseClass: "logistics", behavior: "variablePct", scalesWithVolume: true },
+  { id: "delivery-ads-search", groupPattern: "продвижение в поиске", typePattern: LOGISTICS_PER_UNIT, expenseClass: "logistics", behavior: "variablePct", scalesWithVolume: true },
+  { id: "logistics-group", groupPattern: LOGISTICS_PER_UNIT, typePattern: "", expenseClass: "logistics", behavior: "fixedPerUnit", scalesWithVolume: true },
+  { id: "logistics-type", groupPattern: "", typePattern: LOGISTICS_PER_UNIT, expenseClass: "logistics", behavior: "fixedPerUnit", scalesWithVolume: true },
+  { id: "ads-search", groupPattern: "продвижение в поиске", typePattern: "", expenseClass: "ads", behavior: "variablePct", scalesWithVolume: false },
+  { id: "returns-revenue", groupPattern: "", typePattern: "возврат выручки", expenseClass: "returns", behavior: "variablePct", scalesWithVolume: false },
+  { id: "discount-points", groupPattern: "", typePattern: "баллы за скидки", expenseClass: "other", behavior: "variablePct", scalesWithVolume: false },
+  { id: "last-mile", groupPattern: "", typePattern: "последняя миля", expenseClass: "other", behavior: "variablePct", scalesWithVolume: false },
+  { id: "returns-group", groupPattern: "возврат", typePattern: "", expenseClass: "returns", behavior: "fixedPerPeriod", scalesWithVolume: false },
+  { id: "ads-group", groupPattern: "продвижен|реклам", typePattern: "", expenseClass: "ads", behavior: "fixedPerPeriod", scalesWithVolume: false }
+];
+
+const matchesPattern = (value: string, pattern: string): boolean => {
+  const alternatives = pattern.toLowerCase().split("|").map(p => p.trim()).filter(Boolean);
+  if (alternatives.length === 0) return true;
+  const lower = value.toLowerCase();
+  return alternatives.some(p => lower.includes(p));
+};
+
+export const classifyExpense = (rules: ExpenseRule[], group: string, type: string): ExpenseClassification => {
+  const rule = rules.find(r =>
+    (r.groupPattern.trim() || r.typePattern.trim()) &&
+    matchesPattern(group, r.groupPattern) &&
+    matchesPattern(type, r.typePattern)
+  );
+  return rule
+    ? { expenseClass: rule.expenseClass, behavior: rule.behavior, scalesWithVolume: rule.scalesWithVolume, ruleId: rule.id }
+    : { ...FALLBACK, ruleId: null };
+};
+
+export type VatBaseKind = "sales" | "services" | "exempt";
+
+// VAT bases: revenue reversals reduce sales instead of counting as an Ozon service, acquiring is a VAT-exempt bank service
+export const getVatBaseKind = (rules: ExpenseRule[], group: string, type: string, amount: number): VatBaseKind => {
+  if (amount > 0 || type.toLowerCase().includes("возврат выручки")) return "sales";
+  return classifyExpense(rules, group, type).expenseClass === "acquiring" ? "exempt" : "services";
+};
+
+export const getVatBases = (items: { group: string; type: string; amount: number }[], rules: ExpenseRule[]) => {
+  let sales = 0;
+  let ozonServices = 0;
+  items.forEach((item) => {
+    const kind = getVatBaseKind(rules, item.group, item.type, item.amount);
+    if (kind === "sales") sales += item.amount;
+    else if (kind === "services") ozonServices -= item.amount;
+  });
+  return { sales, ozonServices };
+};
+
+export const createExpenseRuleId = (): string => createId("rule");
+
+const STORAGE_KEY = "ozon-count:expense-rules";
+
+// Rules saved before scalesWithVolume existed scale unless they are a flat per-period amount
+type StoredExpenseRule = Omit<ExpenseRule, "scalesWithVolume"> & { scalesWithVolume?: boolean };
+
+const isExpenseRule = (value: unknown): value is StoredExpenseRule => {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === "string" &&
+    typeof rule.groupPattern === "string" &&
+    typeof rule.typePattern === "string" &&
+    typeof rule.expenseClass === "string" && rule.expenseClass in EXPENSE_CLASS_LABELS &&
+    typeof rule.behavior === "string" && rule.behavior in EXPENSE_BEHAVIOR_LABELS &&
+    (rule.scalesWithVolume === undefined || typeof rule.scalesWithVolume === "boolean");
+};
+
+// Saved rules replace the defaults entirely; anything unreadable falls back to the defaults
+export const { load: loadExpenseRules, save: saveExpenseRules } = createStoredSetting<ExpenseRule[]>(
+  STORAGE_KEY,
+  DEFAULT_EXPENSE_RULES,
+  parsed => Array.isArray(parsed) && parsed.every(isExpenseRule)
+    ? parsed.map(rule => ({ ...rule, scalesWithVolume: rule.scalesWithVolume ?? rule.behavior !== "fixedPerPeriod" }))
+    : null,
+  "правила расходов"
+);
@@ -0,0 +1,90 @@
+export interface ColumnMatch {
+  field: string; // what the parser was looking for
+  header: string | null; // header text it matched, null when the column is missing
+  required: boolean;
+}
+
+export interface SkippedRowsGroup {
+  reason: string;
+  count: number;
+  sampleRows: number[]; // 1-based row numbers as shown in Excel / the text file
+}
+
+export interface UnparsedNumbersGroup {
+  column: string;
+  count: number;
+  samples: { row: number; value: string }[];
+}
+
+export interface TotalsCheck {
+  label: string;
+  reported: number; // value printed in the report's own total row
+  parsed: number; // sum of the rows that were imported
+}
+
+export interface ImportDiagnostics {
+  parser: string;
+  source: string;
+  headerRow: number | null; // 1-based
+  columns: ColumnMatch[];
+  rowsRead: number;
+  rowsImported: number;
+  skippedRows: SkippedRowsGroup[];
+  unparsedNumbers: UnparsedNumbersGroup[];
+  totalsChecks: TotalsCheck[];
+  notes: string[]; // guesses and fallbacks the parser had to make
+}
+
+// Only a handful of examples per reason are kept so huge exports don't bloat the result
+const MAX_SAMPLES = 10;
+const TOTALS_TOLERANCE = 0.01;
+
+export const createImportDiagnostics = (parser: string, source: string): ImportDiagnostics => ({
+  parser,
+  source,
+  headerRow: null,
+  columns: [],
+  rowsRead: 0,
+  rowsImported: 0,
+  skippedRows: [],
+  unparsedNumbers: [],
+  totalsChecks: [],
+  notes: []
+});
+
+export const recordColumn = (diagnostics: ImportDiagnostics, field: string, header: string | undefined, required: boolean) => {
+  diagnostics.columns.push({ field, header: header || null, required });
+};
+
+export const recordSkippedRow = (diagnostics: ImportDiagnostics, row: number, reason: string) => {
+  let group = diagnostics.skippedRows.find(g => g.reason === reason);
+  if (!group) {
+    group = { reason, count: 0, sampleRows: [] };
+    diagnostics.skippedRows.push(group);
+  }
+  group.count++;
+  if (group.sampleRows.length < MAX_SAMPLES) group.sampleRows.push(row);
+};
+
+export const recordUnparsedNumber = (diagnostics: ImportDiagnostics, row: number, column: string, value: string) => {
+  let group = diagnostics.unparsedNumbers.find(g => g.column === column);
+  if (!group) {
+    group = { column, count: 0, samples: [] };
+    diagnostics.unparsedNumbers.push(group);
+  }
+  group.count++;
+  if (group.samples.length < MAX_SAMPLES) group.samples.push({ row, value });
+};
+
+export const isTotalsCheckPassed = (check: TotalsCheck): boolean =>
+  Math.abs(check.reported - check.parsed) < TOTALS_TOLERANCE;
+
+// Things worth a look before trusting the numbers; skipped empty/helper rows are expected and not counted
+export const countImportWarnings = (diagnostics: ImportDiagnostics): number =>
+  diagnostics.columns.filter(c => c.required && !c.header).length +
+  diagnostics.unparsedNumbers.reduce((sum, g) => sum + g.count, 0) +
+  diagnostics.totalsChecks.filter(c => !isTotalsCheckPassed(c)).length +
+  diagnostics.notes.length;
+
+// Report total rows start with "Итого" in one of the leading cells
+export const isTotalsRowLabel = (value: string): boolean => /^итого(?![а-яё])/i.test(value.trim());
@@ -0,0 +1,122 @@
+export type CostComponent = "purchase" | "packaging" | "labeling" | "freight" | "customs";
+
+export const COST_COMPONENT_LABELS: Record<CostComponent, string> = {
+  purchase: "Закупка",
+  packaging: "Упаковка",
+  labeling: "Маркировка",
+  freight: "Доставка до склада",
+  customs: "Таможня"
+};
+
+// Per-unit amounts; a component missing here simply wasn't filled in the source file
+export type CostComponents = Partial<Record<CostComponent, number>>;
+
+// Header prefixes per component. A column whose header also says "за партию" / "на партию"
+// holds the amount for the whole shipment and is spread over "Штук в партии"
+const COMPONENT_HEADERS: Record<CostComponent, RegExp> = {
+  purchase: /^закуп/i,
+  packaging: /^упаковк/i,
+  labeling: /^(маркировк|этикет)/i,
+  freight: /^(доставка|логистика) (до|на) склад/i, // not Ozon's own "Доставка до места выдачи"
+  customs: /^(таможн|пошлин)/i
+};
+
+const SHIPMENT_HEADER = /(за|на) партию/i;
+const BATCH_QTY_HEADER = /(штук|шт\.?|количество|кол-во) в партии|партия,? шт/i;
+
+export interface CostComponentColumns {
+  perUnit: Partial<Record<CostComponent, number>>; // column index
+  perShipment: Partial<Record<CostComponent, number>>;
+  batchQty: number; // -1 when the file has no batch size column
+}
+
+export const COST_COMPONENTS = Object.keys(COST_COMPONENT_LABELS) as CostComponent[];
+
+export const findCostComponentColumns = (header: string[]): CostComponentColumns => {
+  const columns: CostComponentColumns = { perUnit: {}, perShipment: {}, batchQty: -1 };
+  header.forEach((raw, idx) => {
+    const text = (raw || "").trim();
+    if (!text) return;
+    if (BATCH_QTY_HEADER.test(text)) {
+      if (columns.batchQty === -1) columns.batchQty = idx;
+      return;
+    }
+    const component = COST_COMPONENTS.find(c => COMPONENT_HEADERS[c].test(text));
+    if (!component) return;
+    const target = SHIPMENT_HEADER.test(text) ? columns.perShipment : columns.perUnit;
+    if (target[component] === undefined) target[component] = idx;
+  });
+  return columns;
+};
+
+export const hasCostComponentColumns = (columns: CostComponentColumns): boolean =>
+  Object.keys(columns.perUnit).length > 0 || Object.keys(columns.perShipment).length > 0;
+
+// Reads one row; readNumber returns null for empty cells. Shipment amounts without a usable batch
+// size can't be turned into a unit cost and are reported through onMissingBatch
+export const readCostComponents = (
+  columns: CostComponentColumns,
+  readNumber: (idx: number) => number | null,
+  onMissingBatch: () => void
+): CostComponents | null => {
+  const components: CostComponents = {};
+  let filled = false;
+  const add = (component: CostComponent, value: number) => {
+    components[component] = (components[component] ?? 0) + value;
+    filled = true;
+  };
+
+  COST_COMPONENTS.forEach((component) => {
+    const unitIdx = columns.perUnit[component];
+    const unitValue = unitIdx !== undefined ? readNumber(unitIdx) : null;
+    if (unitValue !== null) add(component, unitValue);
+
+    const shipmentIdx = columns.perShipment[component];
+    const shipmentValue = shipmentIdx !== undefined ? readNumber(shipmentIdx) : null;
+    if (shipmentValue === null) return;
+    const batchQty = columns.batchQty !== -1 ? readNumber(columns.batchQty) : null;
+    if (!batchQty || batchQty <= 0) {
+      onMissingBatch();
+      return;
+    }
+    add(component, shipmentValue / batchQty);
+  });
+
+  return filled ? components : null;
+};
+
+export const sumCostComponents = (components: CostComponents): number =>
+  COST_COMPONENTS.reduce((sum, c) => sum + (components[c] ?? 0), 0);
+
+const UNSPLIT_COST_LABEL = "Без разбивки";
+
+// Totals per component for a set of sold units; costs imported without components land in "unsplit"
+export interface CostBreakdown {
+  components: Record<CostComponent, number>;
+  unsplit: number;
+}
+
+export const createCostBreakdown = (): CostBreakdown => ({
+  components: { purchase: 0, packaging: 0, labeling: 0, freight: 0, customs: 0 },
+  unsplit: 0
+});
+
+export const addToCostBreakdown = (breakdown: CostBreakdown, cost: number, components: CostComponents | undefined, qty: number) => {
+  if (!components) {
+    breakdown.unsplit += cost * qty;
+    return;
+  }
+  COST_COMPONENTS.forEach((c) => {
+    breakdown.components[c] += (components[c] ?? 0) * qty;
+  });
+};
+
+// Rows for display, scaled when the headline figure is a forecast; empty when nothing was split
+export const listCostBreakdown = (breakdown: CostBreakdown, scale: number = 1): { label: string; value: number }[] => {
+  const rows = COST_COMPONENTS
+    .filter(c => Math.abs(breakdown.components[c]) >= 0.01)
+    .map(c => ({ label: COST_COMPONENT_LABELS[c], value: breakdown.components[c] * scale }));
+  if (rows.length === 0) return [];
+  if (Math.abs(breakdown.unsplit) >= 0.01) rows.push({ label: UNSPLIT_COST_LABEL, value: breakdown.unsplit * scale });
+  return rows;
+};
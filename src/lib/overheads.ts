@@ -0,0 +1,140 @@
+import { createId, createStoredSetting } from "@/lib/storedSettings";
+import type { SkuResolver } from "@/lib/skuIdentity";
+
+// Period costs that the marketplace reports don't attribute to products, spread over SKUs by a driver
+export type OverheadDriver = "revenue" | "units" | "equal" | "direct";
+
+export const OVERHEAD_DRIVER_LABELS: Record<OverheadDriver, string> = {
+  revenue: "Доля выручки",
+  units: "Доставленные штуки",
+  equal: "Поровну на артикул",
+  direct: "На один артикул"
+};
+
+export type OverheadBasis = "period" | "revenuePct";
+
+export const OVERHEAD_BASIS_LABELS: Record<OverheadBasis, string> = {
+  period: "₽ за период",
+  revenuePct: "% от выручки"
+};
+
+export interface OverheadCost {
+  id: string;
+  name: string;
+  basis: OverheadBasis;
+  amount: number; // roubles per period, or percent of each article's revenue
+  driver: OverheadDriver; // not used for revenuePct, which is always charged on the article's own revenue
+  targetSku: string; // article that takes the whole amount with the "direct" driver
+  ozonService: boolean; // billed by Ozon, so the amount carries deductible input VAT
+}
+
+export interface OverheadSettings {
+  costs: OverheadCost[];
+  adsDriver: OverheadDriver; // "direct" keeps each article's own ad spend
+}
+
+export const DEFAULT_OVERHEAD_SETTINGS: OverheadSettings = {
+  costs: [
+    { id: "subscription", name: "Подписка Premium", basis: "period", amount: 24990, driver: "revenue", targetSku: "", ozonService: true },
+    { id: "cross-docking", name: "Кросс-докинг", basis: "revenuePct", amount: 1.5, driver: "revenue", targetSku: "", ozonService: true }
+  ],
+  adsDriver: "direct"
+};
+
+export interface OverheadTarget {
+  sku: string;
+  revenue: number;
+  units: number;
+}
+
+export const createOverheadId = (): string => createId("overhead");
+
+// Both sides go through resolveSku, so an offer_id target matches a report that lists Ozon SKUs and vice versa
+const isDirectTarget = (targetSku: string, sku: string, resolveSku?: SkuResolver): boolean => {
+  const target = targetSku.trim();
+  if (!target) return false;
+  return resolveSku ? resolveSku(sku) === resolveSku(target) : sku === target;
+};
+
+// True when a "direct" cost names an article that is among the targets
+export const hasDirectTarget = (targetSku: string, targets: { sku: string }[], resolveSku?: SkuResolver): boolean =>
+  targets.some(t => isDirectTarget(targetSku, t.sku, resolveSku));
+
+// Splits a total over targets; a driver whose weights sum to zero (no revenue, no units) and a "direct" cost
+// without a matching article fall back to equal shares, so the amount is never lost
+export const allocateAmount = (
+  total: number,
+  driver: OverheadDriver,
+  targets: OverheadTarget[],
+  targetSku: string = "",
+  resolveSku?: SkuResolver
+): number[] => {
+  if (driver === "direct" && hasDirectTarget(targetSku, targets, resolveSku)) {
+    // Several report rows (an Ozon SKU and its barcode, say) can resolve to the same article and share the cost equally
+    const matches = targets.filter(t => isDirectTarget(targetSku, t.sku, resolveSku)).length;
+    return targets.map(t => (isDirectTarget(targetSku, t.sku, resolveSku) ? total / matches : 0));
+  }
+  const weights = targets.map((t) => {
+    if (driver === "revenue") return Math.max(0, t.revenue);
+    if (driver === "units") return Math.max(0, t.units);
+    return 1;
+  });
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum === 0) return targets.map(() => (targets.length > 0 ? total / targets.length : 0));
+  return weights.map(w => total * (w / weightSum));
+};
+
+// Positive amounts per cost id, in the order of targets
+export const allocateOverheads = (costs: OverheadCost[], targets: OverheadTarget[], resolveSku?: SkuResolver): Record<string, number[]> => {
+  const result: Record<string, number[]> = {};
+  costs.forEach((cost) => {
+    result[cost.id] = cost.basis === "revenuePct"
+      ? targets.map(t => Math.max(0, t.revenue) * cost.amount / 100)
+      : allocateAmount(cost.amount, cost.driver, targets, cost.targetSku, resolveSku);
+  });
+  return result;
+};
+
+// Period totals of every cost, positive; ozonServices is the part that carries input VAT
+export const sumOverheads = (
+  costs: OverheadCost[],
+  targets: OverheadTarget[],
+  resolveSku?: SkuResolver
+): { total: number; ozonServices: number } => {
+  const allocation = allocateOverheads(costs, targets, resolveSku);
+  return costs.reduce((sums, cost) => {
+    const amount = allocation[cost.id].reduce((sum, v) => sum + v, 0);
+    return { total: sums.total + amount, ozonServices: sums.ozonServices + (cost.ozonService ? amount : 0) };
+  }, { total: 0, ozonServices: 0 });
+};
+
+const STORAGE_KEY = "ozon-count:overheads";
+
+const isOverheadCost = (value: unknown): value is OverheadCost => {
+  if (!value || typeof value !== "object") return false;
+  const cost = value as Record<string, unknown>;
+  return typeof cost.id === "string" &&
+    typeof cost.name === "string" &&
+    typeof cost.basis === "string" && cost.basis in OVERHEAD_BASIS_LABELS &&
+    typeof cost.amount === "number" &&
+    typeof cost.driver === "string" && cost.driver in OVERHEAD_DRIVER_LABELS &&
+    typeof cost.targetSku === "string" &&
+    typeof cost.ozonService === "boolean";
+};
+
+const readOverheadSettings = (parsed: unknown): OverheadSettings | null => {
+  if (!parsed || typeof parsed !== "object") return null;
+  const settings = parsed as Record<string, unknown>;
+  if (!Array.isArray(settings.costs) || !settings.costs.every(isOverheadCost)) return null;
+  const adsDriver = typeof settings.adsDriver === "string" && settings.adsDriver in OVERHEAD_DRIVER_LABELS
+    ? settings.adsDriver as OverheadDriver
+    : DEFAULT_OVERHEAD_SETTINGS.adsDriver;
+  return { costs: settings.costs, adsDriver };
+};
+
+export const { load: loadOverheadSettings, save: saveOverheadSettings } = createStoredSetting<OverheadSettings>(
+  STORAGE_KEY,
+  DEFAULT_OVERHEAD_SETTINGS,
+  readOverheadSettings,
+  "накладные расходы"
+);
@@ -1,4 +1,13 @@
 import Papa from "papaparse";
+import {
+    createImportDiagnostics,
+    recordColumn,
+    recordSkippedRow,
+    recordUnparsedNumber,
+    isTotalsRowLabel,
+    type ImportDiagnostics
+} from "@/lib/importDiagnostics";
+import { openSpreadsheet, readSheetRows, toRowGrid, cellToString, type CellValue, type SheetRow } from "@/lib/spreadsheetReader";
 
 export interface ReportRow {
     "Выручка": string;
@@ -43,8 +52,27 @@ export interface AnalysisResult {
     totalCogs: number;
     articles: ArticleRow[];
     period?: string;
+    diagnostics: ImportDiagnostics;
 }
 
+// Columns read from the report; the first two are required for a meaningful import
+const REPORT_COLUMNS = [
+    "Артикул", "Выручка", "Наименование товара", "Баллы за скидки", "Программы партнёров",
+    "Вознаграждение Ozon", "Заказано товаров, шт", "Доставлено товаров, шт", "Возвращено товаров, шт",
+    "Обработка отправления", "Логистика", "Доставка до места выдачи", "Стоимость размещения", "Эквайринг",
+    "Обработка возврата", "Обратная логистика", "Утилизация", "Обработка ошибок продавца",
+    "Оплата за клик", "Оплата за заказ", "Звёздные товары", "Платный бренд", "Себестоимость"
+];
+
+// The XLSX export renamed a few columns; values are read from whichever header the file has
+const COLUMN_ALIASES: Record<string, string[]> = {
+    "Наименование товара": ["Название товара"],
+    "Обработка ошибок продавца": ["Операционные ошибки"]
+};
+
+const findReportField = (fields: string[], column: string): string | undefined =>
+    [column, ...(COLUMN_ALIASES[column] || [])].find(name => fields.includes(name));
+
 export const parseCurrency = (value: string): number => {
     if (!value) return 0;
     // Remove all non-numeric characters except minus, comma, and dot
@@ -54,8 +82,242 @@ export const parseCurrency = (value: string): number => {
     return isNaN(number) ? 0 : number;
 };
 
-export const parseReport = (file: File): Promise<AnalysisResult> => {
+// The header row holds both "Выручка" and "Баллы за скидки"; the period sits in a title line above it
+const HEADER_SEARCH_ROWS = 20;
+
+const isReportHeader = (line: string) => line.includes("Выручка") && line.includes("Баллы за скидки");
+
+const extractPeriod = (line: string): string => {
+    if (!line.toLowerCase().includes("период")) return "";
+    // Try to extract date range pattern dd.mm.yyyy - dd.mm.yyyy
+    const dateMatch = line.match(/(\d{2}\.\d{2}\.\d{4})\s*-\s*(\d{2}\.\d{2}\.\d{4})/);
+    if (dateMatch) {
+        return `Period: ${dateMatch[1]} - ${dateMatch[2]}`;
+    }
+    // Fallback: replace Russian "Период" with "Period"
+    let cleanLine = line.replace(/^["';]+|["';]+$/g, '').trim();
+    // Replace "за период" or just "период" with "Period:"
+    cleanLine = cleanLine.replace(/за\s+период/i, "Period:");
+    cleanLine = cleanLine.replace(/период/i, "Period:");
+    return cleanLine;
+};
+
+// Scans the leading lines for the period and the header; without a header line 4 is assumed
+const findReportLayout = (lines: string[], diagnostics: ImportDiagnostics) => {
+    let headerLineIndex = -1;
+    let period = "";
+
+    for (let i = 0; i < Math.min(lines.length, HEADER_SEARCH_ROWS); i++) {
+        if (!period) period = extractPeriod(lines[i]);
+        if (isReportHeader(lines[i])) {
+            headerLineIndex = i;
+            break;
+        }
+    }
+
+    if (headerLineIndex === -1) {
+        // Fallback: try line 3 (index 3, line 4)
+        if (lines.length > 3) headerLineIndex = 3;
+        else headerLineIndex = 0;
+        diagnostics.notes.push(`Строка с колонками «Выручка» и «Баллы за скидки» не найдена, заголовком считается строка ${headerLineIndex + 1}`);
+    }
+    diagnostics.headerRow = headerLineIndex + 1;
+    if (!period) {
+        diagnostics.notes.push("Период отчета не найден в шапке файла");
+    }
+    return { headerLineIndex, period };
+};
+
+const isEmptyRow = (row: ReportRow | undefined) =>
+    !row || Object.values(row).every(v => !v || !String(v).trim());
+
+// Shared by the CSV and XLSX readers: rows are keyed by header text, line is the 1-based file row
+const summarizeReport = (
+    fields: string[],
+    rows: { row: ReportRow; line: number }[],
+    period: string,
+    diagnostics: ImportDiagnostics
+): AnalysisResult => {
+    const fieldFor: Record<string, string> = {};
+    REPORT_COLUMNS.forEach((column, idx) => {
+        const field = findReportField(fields, column);
+        if (field) fieldFor[column] = field;
+        recordColumn(diagnostics, column, field, idx < 2);
+    });
+
+    let reportedRevenue: number | null = null;
+    let unknownSkuRows = 0;
+
+    let revenue = 0;
+    let discountPoints = 0;
+    let partnerPrograms = 0;
+    let marketplaceCommission = 0;
+    let orderedItems = 0;
+    let deliveredItems = 0;
+    let returnedItems = 0;
+    let logisticsCost = 0;
+    let acquiringCost = 0;
+    let returnsCost = 0;
+    let additionalServicesCost = 0;
+    let promotionCost = 0;
+    let totalCogs = 0;
+
+    const articlesMap = new Map<string, ArticleRow>();
+
+    rows.forEach(({ row, line: lineNumber }, idx) => {
+        if (isEmptyRow(row)) {
+            if (idx < rows.length - 1) recordSkippedRow(diagnostics, lineNumber, "Пустая строка");
+            return;
+        }
+        diagnostics.rowsRead++;
+
+        // The report's own total row is only used to cross-check revenue
+        if (isTotalsRowLabel(row["Артикул"] || "") || isTotalsRowLabel(row["SKU"] || "")) {
+            reportedRevenue = (reportedRevenue ?? 0) + parseCurrency(row["Выручка"]);
+            recordSkippedRow(diagnostics, lineNumber, "Строка итогов отчета");
+            return;
+        }
+        diagnostics.rowsImported++;
+
+        // Safe parsing helper - handles undefined/null gracefully, reports text that is not a number
+        const rowValues: Record<string, number> = {};
+        const getVal = (key: string) => {
+            const text = row[fieldFor[key] ?? key];
+            if (!text) return 0;
+            if (key in rowValues) return rowValues[key];
+            const cleanValue = text.replace(/[^\d,\.-]/g, "");
+            if (!cleanValue || isNaN(parseFloat(cleanValue.replace(",", ".")))) {
+                recordUnparsedNumber(diagnostics, lineNumber, key, text);
+                rowValues[key] = 0;
+                return 0;
+            }
+            rowValues[key] = parseCurrency(text);
+            return rowValues[key];
+        };
+
+        // Global accumulations
+        revenue += getVal("Выручка");
+        discountPoints += getVal("Баллы за скидки");
+        partnerPrograms += getVal("Программы партнёров");
+        marketplaceCommission += getVal("Вознаграждение Ozon");
+        orderedItems += getVal("Заказано товаров, шт");
+        const delivered = getVal("Доставлено товаров, шт");
+        deliveredItems += delivered;
+        returnedItems += getVal("Возвращено товаров, шт");
+
+        // Logistics calculation
+        let rowLogistics = 0;
+        rowLogistics += getVal("Обработка отправления");
+        rowLogistics += getVal("Логистика");
+        rowLogistics += getVal("Доставка до места выдачи");
+        rowLogistics += getVal("Стоимость размещения");
+        logisticsCost += rowLogistics;
+
+        // Acquiring calculation
+        const rowAcquiring = getVal("Эквайринг");
+        acquiringCost += rowAcquiring;
+
+        // Returns Cost calculation
+        let rowReturns = 0;
+        rowReturns += getVal("Обработка возврата");
+        rowReturns += getVal("Обратная логистика");
+        returnsCost += rowReturns;
+
+        // Additional Services calculation
+        let rowAdditional = 0;
+        rowAdditional += getVal("Утилизация");
+        rowAdditional += getVal("Обработка ошибок продавца");
+        additionalServicesCost += rowAdditional;
+
+        // Promotion Cost calculation
+        let rowPromotion = 0;
+        rowPromotion += getVal("Оплата за клик");
+        rowPromotion += getVal("Оплата за заказ");
+        rowPromotion += getVal("Звёздные товары");
+        rowPromotion += getVal("Платный бренд");
+        promotionCost += rowPromotion;
+
+        // COGS calculation
+        const unitCost = getVal("Себестоимость");
+        const returned = getVal("Возвращено товаров, шт");
+        const rowCogs = -(unitCost * (delivered - returned));
+        totalCogs += rowCogs;
+
+
+        // Article aggregation
+        if (!row["Артикул"]) unknownSkuRows++;
+        const sku = row["Артикул"] || "Unknown";
+        const name = row[fieldFor["Наименование товара"] ?? "Наименование товара"] || "Unknown";
+
+        if (!articlesMap.has(sku)) {
+            articlesMap.set(sku, {
+                sku,
+                name,
+                revenue: 0,
+                discountPoints: 0,
+                partnerPrograms: 0,
+                marketplaceCommission: 0,
+                orderedItems: 0,
+                deliveredItems: 0,
+                returnedItems: 0,
+                logisticsCost: 0,
+                acquiringCost: 0,
+                returnsCost: 0,
+                additionalServicesCost: 0,
+                promotionCost: 0,
+                totalCogs: 0
+            });
+        }
+
+        const article = articlesMap.get(sku)!;
+        article.revenue += getVal("Выручка");
+        article.discountPoints += getVal("Баллы за скидки");
+        article.partnerPrograms += getVal("Программы партнёров");
+        article.marketplaceCommission += getVal("Вознаграждение Ozon");
+        article.orderedItems += getVal("Заказано товаров, шт");
+        article.deliveredItems += delivered;
+        article.returnedItems += getVal("Возвращено товаров, шт");
+        article.logisticsCost += rowLogistics;
+        article.acquiringCost += rowAcquiring;
+        article.returnsCost += rowReturns;
+        article.additionalServicesCost += rowAdditional;
+        article.promotionCost += rowPromotion;
+        article.totalCogs += rowCogs;
+    });
+
+    // Finalize article calculations
+    const articles = Array.from(articlesMap.values());
+
+    if (unknownSkuRows > 0) {
+        diagnostics.notes.push(`${unknownSkuRows} строк без артикула объединены в «Unknown»`);
+    }
+    if (reportedRevenue !== null) {
+        diagnostics.totalsChecks.push({ label: "Выручка", reported: reportedRevenue, parsed: revenue });
+    }
+
+    return {
+        period,
+        revenue,
+        discountPoints,
+        partnerPrograms,
+        marketplaceCommission,
+        orderedItems,
+        deliveredItems,
+        returnedItems,
+        logisticsCost,
+        acquiringCost,
+        returnsCost,
+        additionalServicesCost,
+        promotionCost,
+        totalCogs,
+        articles,
+        diagnostics
+    };
+};
+
+const parseReportCsv = (file: File): Promise<AnalysisResult> => {
     return new Promise((resolve, reject) => {
+        const diagnostics = createImportDiagnostics("Юнит-экономика (CSV)", file.name);
         const reader = new FileReader();
         reader.onload = (event) => {
             const text = event.target?.result as string;
@@ -64,182 +326,29 @@ export const parseReport = (file: File): Promise<AnalysisResult> => {
                 return;
             }
 
-            // Split lines to find the header row
-            // We expect headers to start with "SKU" or similar, or just check line 4
             const lines = text.split(/\r?\n/);
-
-            let headerLineIndex = -1;
-
-            let period = "";
-
-            // Look for the header line which must contain "Выручка" and "Баллы за скидки"
-            for (let i = 0; i < Math.min(lines.length, 20); i++) {
-                const line = lines[i];
-
-                // Try to find period
-                if (line.toLowerCase().includes("период") && !period) {
-                    // Try to extract date range pattern dd.mm.yyyy - dd.mm.yyyy
-                    const dateMatch = line.match(/(\d{2}\.\d{2}\.\d{4})\s*-\s*(\d{2}\.\d{2}\.\d{4})/);
-                    if (dateMatch) {
-                        period = `Period: ${dateMatch[1]} - ${dateMatch[2]}`;
-                    } else {
-                        // Fallback: replace Russian "Период" with "Period"
-                        let cleanLine = line.replace(/^["';]+|["';]+$/g, '').trim();
-                        // Replace "за период" or just "период" with "Period:"
-                        cleanLine = cleanLine.replace(/за\s+период/i, "Period:");
-                        cleanLine = cleanLine.replace(/период/i, "Period:");
-                        period = cleanLine;
-                    }
-                }
-
-                if (line.includes("Выручка") && line.includes("Баллы за скидки")) {
-                    headerLineIndex = i;
-                    break;
-                }
-            }
-
-            if (headerLineIndex === -1) {
-                // Fallback: try line 3 (index 3, line 4)
-                if (lines.length > 3) headerLineIndex = 3;
-                else headerLineIndex = 0;
-            }
+            const { headerLineIndex, period } = findReportLayout(lines, diagnostics);
 
             // Extract content starting from header line
             const csvContent = lines.slice(headerLineIndex).join("\n");
 
             Papa.parse<ReportRow>(csvContent, {
                 header: true,
-                skipEmptyLines: true,
+                // Empty lines are skipped below so row numbers still match the file
+                skipEmptyLines: false,
                 complete: (results) => {
-                    let revenue = 0;
-                    let discountPoints = 0;
-                    let partnerPrograms = 0;
-                    let marketplaceCommission = 0;
-                    let orderedItems = 0;
-                    let deliveredItems = 0;
-                    let returnedItems = 0;
-                    let logisticsCost = 0;
-                    let acquiringCost = 0;
-                    let returnsCost = 0;
-                    let additionalServicesCost = 0;
-                    let promotionCost = 0;
-                    let totalCogs = 0;
-
-                    const articlesMap = new Map<string, ArticleRow>();
-
-                    results.data.forEach((row) => {
-                        // Safe parsing helper - handles undefined/null gracefully
-                        const getVal = (key: string) => row[key] ? parseCurrency(row[key]) : 0;
-
-                        // Global accumulations
-                        revenue += getVal("Выручка");
-                        discountPoints += getVal("Баллы за скидки");
-                        partnerPrograms += getVal("Программы партнёров");
-                        marketplaceCommission += getVal("Вознаграждение Ozon");
-                        orderedItems += getVal("Заказано товаров, шт");
-                        const delivered = getVal("Доставлено товаров, шт");
-                        deliveredItems += delivered;
-                        returnedItems += getVal("Возвращено товаров, шт");
-
-                        // Logistics calculation
-                        let rowLogistics = 0;
-                        rowLogistics += getVal("Обработка отправления");
-                        rowLogistics += getVal("Логистика");
-                        rowLogistics += getVal("Доставка до места выдачи");
-                        rowLogistics += getVal("Стоимость размещения");
-                        logisticsCost += rowLogistics;
-
-                        // Acquiring calculation
-                        const rowAcquiring = getVal("Эквайринг");
-                        acquiringCost += rowAcquiring;
-
-                        // Returns Cost calculation
-                        let rowReturns = 0;
-                        rowReturns += getVal("Обработка возврата");
-                        rowReturns += getVal("Обратная логистика");
-                        returnsCost += rowReturns;
-
-                        // Additional Services calculation
-                        let rowAdditional = 0;
-                        rowAdditional += getVal("Утилизация");
-                        rowAdditional += getVal("Обработка ошибок продавца");
-                        additionalServicesCost += rowAdditional;
-
-                        // Promotion Cost calculation
-                        let rowPromotion = 0;
-                        rowPromotion += getVal("Оплата за клик");
-                        rowPromotion += getVal("Оплата за заказ");
-                        rowPromotion += getVal("Звёздные товары");
-                        rowPromotion += getVal("Платный бренд");
-                        promotionCost += rowPromotion;
-
-                        // COGS calculation
-                        const unitCost = getVal("Себестоимость");
-                        const returned = getVal("Возвращено товаров, шт");
-                        const rowCogs = -(unitCost * (delivered - returned));
-                        totalCogs += rowCogs;
-
-
-                        // Article aggregation
-                        const sku = row["Артикул"] || "Unknown";
-                        const name = row["Наименование товара"] || "Unknown";
-
-                        if (!articlesMap.has(sku)) {
-                            articlesMap.set(sku, {
-                                sku,
-                                name,
-                                revenue: 0,
-                                discountPoints: 0,
-                                partnerPrograms: 0,
-                                marketplaceCommission: 0,
-                                orderedItems: 0,
-                                deliveredItems: 0,
-                                returnedItems: 0,
-                                logisticsCost: 0,
-                                acquiringCost: 0,
-                                returnsCost: 0,
-                                additionalServicesCost: 0,
-                                promotionCost: 0,
-                                totalCogs: 0
-                            });
-                        }
-
-                        const article = articlesMap.get(sku)!;
-                        article.revenue += getVal("Выручка");
-                        article.discountPoints += getVal("Баллы за скидки");
-                        article.partnerPrograms += getVal("Программы партнёров");
-                        article.marketplaceCommission += getVal("Вознаграждение Ozon");
-                        article.orderedItems += getVal("Заказано товаров, шт");
-                        article.deliveredItems += delivered;
-                        article.returnedItems += getVal("Возвращено товаров, шт");
-                        article.logisticsCost += rowLogistics;
-                        article.acquiringCost += rowAcquiring;
-                        article.returnsCost += rowReturns;
-                        article.additionalServicesCost += rowAdditional;
-                        article.promotionCost += rowPromotion;
-                        article.totalCogs += rowCogs;
+                    // Empty lines always produce "too few fields" errors, those are not worth reporting
+                    const parseErrors = results.errors.filter(e => e.row === undefined || !isEmptyRow(results.data[e.row]));
+                    parseErrors.slice(0, 5).forEach((error) => {
+                        const line = error.row !== undefined ? headerLineIndex + error.row + 2 : null;
+                        diagnostics.notes.push(line ? `Строка ${line}: ${error.message}` : error.message);
                     });
+                    if (parseErrors.length > 5) {
+                        diagnostics.notes.push(`И еще ${parseErrors.length - 5} ошибок разбора CSV`);
+                    }
 
-                    // Finalize article calculations
-                    const articles = Array.from(articlesMap.values());
-
-                    resolve({
-                        period,
-                        revenue,
-                        discountPoints,
-                        partnerPrograms,
-                        marketplaceCommission,
-                        orderedItems,
-                        deliveredItems,
-                        returnedItems,
-                        logisticsCost,
-                        acquiringCost,
-                        returnsCost,
-                        additionalServicesCost,
-                        promotionCost,
-                        totalCogs,
-                        articles
-                    });
+                    const rows = results.data.map((row, idx) => ({ row, line: headerLineIndex + idx + 2 }));
+                    resolve(summarizeReport(results.meta.fields || [], rows, period, diagnostics));
                 },
                 error: (error: Error) => {
                     reject(error);
@@ -251,3 +360,43 @@ export const parseReport = (file: File): Promise<AnalysisResult> => {
         reader.readAsText(file);
     });
 };
+
+// Typed numbers are kept as plain text so both readers go through the same parseCurrency path
+const cellToReportText = (value: CellValue | undefined): string =>
+    typeof value === "number" ? String(value) : cellToString(value);
+
+const parseReportXlsx = async (file: File): Promise<AnalysisResult> => {
+    const diagnostics = createImportDiagnostics("Юнит-экономика (XLSX)", file.name);
+    const book = await openSpreadsheet(file);
+    const sheet = book.sheets[0];
+    if (!sheet) {
+        throw new Error("В файле Excel нет ни одного листа");
+    }
+
+    const sheetRows: SheetRow[] = [];
+    await readSheetRows(book, sheet.path, (row) => {
+        sheetRows.push(row);
+    });
+
+    // Title lines are matched as text, like the CSV lines they replace
+    const grid = toRowGrid(sheetRows);
+    const lines = grid.map(values => values.map(cellToReportText).join(";"));
+    const { headerLineIndex, period } = findReportLayout(lines, diagnostics);
+
+    const header = (grid[headerLineIndex] || []).map(cellToReportText);
+    const rows = sheetRows
+        .filter(sheetRow => sheetRow.index > headerLineIndex)
+        .map(sheetRow => {
+            const row: ReportRow = { "Выручка": "", "Баллы за скидки": "", "Программы партнёров": "", "Вознаграждение Ozon": "", "Эквайринг": "" };
+            header.forEach((field, col) => {
+                if (field) row[field] = cellToReportText(sheetRow.values[col]);
+            });
+            return { row, line: sheetRow.index + 1 };
+        });
+
+    return summarizeReport(header.filter(Boolean), rows, period, diagnostics);
+};
+
+// Ozon ships the report as .xlsx now; older downloads and re-saved files are CSV
+export const parseReport = (file: File): Promise<AnalysisResult> =>
+    /\.xlsx$/i.test(file.name) ? parseReportXlsx(file) : parseReportCsv(file);
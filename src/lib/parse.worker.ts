@@ -0,0 +1,32 @@
+import { findAccrualsSheets, parseAccrualsReport, parseCogsXlsx } from "@/lib/parseAccruals";
+import { parseOzonTemplate } from "@/lib/repricer";
+import type { ParseTask, ParseWorkerMessage } from "@/lib/parseInWorker";
+
+const post = (message: ParseWorkerMessage) => {
+  self.postMessage(message);
+};
+
+const onProgress = (processed: number) => post({ type: "progress", processed });
+
+const runTask = async (task: ParseTask) => {
+  switch (task.kind) {
+    case "accrualsSheets":
+      return findAccrualsSheets(task.file);
+    case "accruals":
+      return parseAccrualsReport(task.file, task.sheetPath, onProgress);
+    case "cogsXlsx":
+      return parseCogsXlsx(task.file, onProgress, task.validFrom ?? null);
+    case "ozonTemplate":
+      return parseOzonTemplate(task.file, onProgress);
+  }
+};
+
+self.addEventListener("message", async (event: MessageEvent<ParseTask>) => {
+  try {
+    // Only the final typed result crosses back to the page; intermediate XML stays in the worker
+    const result = await runTask(event.data);
+    post({ type: "result", result });
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Ошибка при обработке файла" });
+  }
+});
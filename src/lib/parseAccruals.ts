@@ -1,4 +1,24 @@
-import JSZip from "jszip";
+import {
+  createImportDiagnostics,
+  recordColumn,
+  recordSkippedRow,
+  recordUnparsedNumber,
+  isTotalsRowLabel,
+  type ImportDiagnostics
+} from "@/lib/importDiagnostics";
+import {
+  COST_COMPONENTS,
+  COST_COMPONENT_LABELS,
+  findCostComponentColumns,
+  hasCostComponentColumns,
+  readCostComponents,
+  sumCostComponents,
+  type CostComponentColumns,
+  type CostComponents
+} from "@/lib/landedCost";
+import { splitBarcodes, type SkuLink } from "@/lib/skuIdentity";
+import { decodeCsvBytes, formatCsvDelimiter, parseCsvNumber, parseCsvTable } from "@/lib/csvText";
+import { openSpreadsheet, readSheetRows, readLeadingRows, toRowGrid, cellToString, cellToNumber, excelSerialToDate, type CellValue, type SpreadsheetBook } from "@/lib/spreadsheetReader";
 
 export interface AccrualsBreakdownItem {
   group: string;
@@ -10,118 +30,169 @@ export interface AccrualsBreakdownItem {
 }
 
 export interface SkuTransaction {
-  sku: string;
+  sku: string; // empty for operations not tied to a product (ads, subscription, penalties)
   group: string;
   type: string;
   quantity: number;
   amount: number;
+  date: Date | null;
+  postingNumber: string;
+  accrualId: string;
+  sourcePeriod: string; // period label of the report file the row came from
+}
+
+export interface AccrualsSource {
+  fileName: string;
+  period: string;
 }
 
 export interface AccrualsSummary {
   period: string;
+  sources: AccrualsSource[];
   totalInflow: number;
   totalOutflow: number;
   netResult: number;
   breakdown: AccrualsBreakdownItem[];
   skuTransactions: SkuTransaction[];
+  diagnostics: ImportDiagnostics[]; // one entry per imported file
+}
+
+export interface CogsEntry {
+  sku: string;
+  cost: number; // per unit, equals the sum of components when they are given
+  validFrom: Date | null;
+  components?: CostComponents;
+}
+
+export interface CogsImport {
+  entries: CogsEntry[];
+  diagnostics: ImportDiagnostics;
+  links?: SkuLink[]; // article <-> Ozon SKU / barcodes, when the file is a price template
+}
+
+export interface AccrualsSheetCandidate {
+  name: string;
+  path: string;
 }
 
-const getColIndex = (cellRef: string): number => {
-  const colLetter = cellRef.replace(/[0-9]/g, "");
-  let index = 0;
-  for (let i = 0; i < colLetter.length; i++) {
-    index = index * 26 + (colLetter.charCodeAt(i) - 64);
+// Dates arrive either as Date cells, Excel serial numbers or text (dd.mm.yyyy or yyyy-mm-dd, optionally with time).
+// Serials follow the workbook's date system, CSV files have none and use the 1900 one
+const parseReportDate = (value: CellValue | undefined, date1904: boolean = false): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value === "number") return value >= 1 ? excelSerialToDate(value, date1904) : null;
+
+  const trimmed = cellToString(value);
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = parseFloat(trimmed);
+    return serial >= 1 ? excelSerialToDate(serial, date1904) : null;
+  }
+
+  const ru = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (ru) {
+    return new Date(+ru[3], +ru[2] - 1, +ru[1], +(ru[4] || 0), +(ru[5] || 0), +(ru[6] || 0));
   }
-  return index - 1;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    return new Date(+iso[1], +iso[2] - 1, +iso[3], +(iso[4] || 0), +(iso[5] || 0), +(iso[6] || 0));
+  }
+
+  return null;
+};
+
+// Title rows plus the header, as text, positioned by their sheet row number
+const readLeadingTextRows = async (book: SpreadsheetBook, sheetPath: string, count: number): Promise<string[][]> => {
+  const rows = await readLeadingRows(book, sheetPath, count);
+  return toRowGrid(rows).map(values => values.map(cellToString));
 };
 
-export const parseAccrualsReport = async (file: File): Promise<AccrualsSummary> => {
-  const zip = await JSZip.loadAsync(file);
-
-  // 1. Parse shared strings table if it exists
-  const sharedStrings: string[] = [];
-  const sharedStringsFile = zip.file("xl/sharedStrings.xml");
-  if (sharedStringsFile) {
-    const ssText = await sharedStringsFile.async("text");
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(ssText, "application/xml");
-    const siElements = doc.getElementsByTagName("si");
-    for (let i = 0; i < siElements.length; i++) {
-      sharedStrings.push(siElements[i].textContent || "");
+const findAccrualsHeaderRow = (rows: string[][]): number => {
+  for (let r = 0; r < Math.min(rows.length, 10); r++) {
+    const values = rows[r].map(v => v.toLowerCase());
+    const hasGroup = values.some(v => v.includes("группа услуг"));
+    const hasType = values.some(v => v.includes("тип начисления"));
+    const hasAmount = values.some(v => v.includes("сумма итого"));
+    if (hasGroup && hasType && hasAmount) {
+      return r;
+    }
+  }
+  return -1;
+};
+
+const locateAccrualsSheets = async (book: SpreadsheetBook): Promise<AccrualsSheetCandidate[]> => {
+  const matched: AccrualsSheetCandidate[] = [];
+
+  for (const sheet of book.sheets) {
+    if (findAccrualsHeaderRow(await readLeadingTextRows(book, sheet.path, 10)) !== -1) {
+      matched.push({ name: sheet.name, path: sheet.path });
     }
   }
 
-  // 2. Parse sheet1.xml worksheet
-  const sheetFile = zip.file("xl/worksheets/sheet1.xml");
-  if (!sheetFile) {
-    throw new Error("Не удалось найти рабочий лист xl/worksheets/sheet1.xml в архиве Excel");
+  // Sheets named like the Ozon export go first, so the default pick is the most likely one
+  const isNamedLikeAccruals = (name: string) => name.toLowerCase().includes("начислен");
+  return matched.sort((a, b) => Number(isNamedLikeAccruals(b.name)) - Number(isNamedLikeAccruals(a.name)));
+};
+
+export const findAccrualsSheets = async (file: File): Promise<AccrualsSheetCandidate[]> => {
+  const book = await openSpreadsheet(file);
+  return locateAccrualsSheets(book);
+};
+
+// Integer IDs and articles stored as text sometimes keep Excel's ".0" suffix
+const stripIntegerSuffix = (val: string): string => (val.endsWith(".0") ? val.slice(0, -2) : val);
+
+export const parseAccrualsReport = async (
+  file: File,
+  sheetPath?: string,
+  onProgress?: (processedRows: number) => void
+): Promise<AccrualsSummary> => {
+  const book = await openSpreadsheet(file);
+
+  // Resolve the accruals worksheet via workbook.xml unless the caller already picked one
+  let targetPath = sheetPath;
+  if (!targetPath) {
+    const candidates = await locateAccrualsSheets(book);
+    if (candidates.length === 0) {
+      throw new Error(
+        "Не удалось найти лист с начислениями. Убедитесь, что в файле есть лист с колонками 'Группа услуг', 'Тип начисления' и 'Сумма итого, руб.'"
+      );
+    }
+    targetPath = candidates[0].path;
   }
 
-  const sheetText = await sheetFile.async("text");
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(sheetText, "application/xml");
-  const rows = doc.getElementsByTagName("row");
+  const leadingRows = await readLeadingTextRows(book, targetPath, 10);
 
-  if (rows.length === 0) {
+  if (leadingRows.length === 0) {
     throw new Error("Таблица Excel пуста");
   }
 
+  const diagnostics = createImportDiagnostics("Отчет о начислениях", file.name);
+  const sheetName = book.sheets.find(s => s.path === targetPath)?.name;
+  if (sheetName) {
+    diagnostics.source = `${file.name} / ${sheetName}`;
+  }
+
   let period = "";
-  const header: string[] = [];
-  let totalInflow = 0;
-  let totalOutflow = 0;
-  const breakdownMap: Record<string, number> = {};
 
-  // Extract period from Row 1 if present
-  const r1Cells = rows[0].getElementsByTagName("c");
-  if (r1Cells.length > 0) {
-    const cell = r1Cells[0];
-    const t = cell.getAttribute("t");
-    const vNode = cell.getElementsByTagName("v")[0];
-    const isNode = cell.getElementsByTagName("is")[0];
-    let val = "";
-    if (t === "s" && vNode) {
-      val = sharedStrings[parseInt(vNode.textContent || "0", 10)] || "";
-    } else if (isNode) {
-      val = isNode.textContent || "";
-    } else if (vNode) {
-      val = vNode.textContent || "";
-    }
+  // Header row is usually Row 2, but re-saved reports may carry extra title rows above it
+  let headerRowIdx = findAccrualsHeaderRow(leadingRows);
+  if (headerRowIdx === -1) {
+    headerRowIdx = Math.min(1, leadingRows.length - 1);
+    diagnostics.notes.push(`Строка заголовков не распознана, использована строка ${headerRowIdx + 1}`);
+  }
+  diagnostics.headerRow = headerRowIdx + 1;
+
+  // Extract period from the title rows above the header if present
+  for (let r = 0; r < headerRowIdx && !period; r++) {
+    const val = leadingRows[r].find(v => v) || "";
     if (val.includes("Период") || val.toLowerCase().includes("period")) {
       period = val;
     }
   }
 
-  // Extract headers from Row 2
-  if (rows.length > 1) {
-    const r2Cells = rows[1].getElementsByTagName("c");
-    let currentIdx = 0;
-    for (let i = 0; i < r2Cells.length; i++) {
-      const cell = r2Cells[i];
-      const rAttr = cell.getAttribute("r");
-      if (rAttr) {
-        currentIdx = getColIndex(rAttr);
-      }
-      
-      const t = cell.getAttribute("t");
-      const vNode = cell.getElementsByTagName("v")[0];
-      const isNode = cell.getElementsByTagName("is")[0];
-      let val = "";
-      if (t === "s" && vNode) {
-        val = sharedStrings[parseInt(vNode.textContent || "0", 10)] || "";
-      } else if (isNode) {
-        val = isNode.textContent || "";
-      } else if (vNode) {
-        val = vNode.textContent || "";
-      }
-
-      header[currentIdx] = val.trim();
-      
-      if (!rAttr) {
-        currentIdx++;
-      }
-    }
-  }
+  const header = leadingRows[headerRowIdx];
 
   // Find target column indices
   const groupColIdx = header.findIndex(h => h && h.toLowerCase().includes("группа услуг"));
@@ -129,6 +200,31 @@ export const parseAccrualsReport = async (file: File): Promise<AccrualsSummary>
   const amountColIdx = header.findIndex(h => h && h.toLowerCase().includes("сумма итого"));
   const skuColIdx = header.findIndex(h => h && h.toLowerCase().includes("артикул"));
   const qtyColIdx = header.findIndex(h => h && h.toLowerCase().includes("количество"));
+  const postingColIdx = header.findIndex(h => h && h.toLowerCase().includes("номер отправления"));
+  const accrualIdColIdx = header.findIndex(h => {
+    const lower = (h || "").toLowerCase();
+    return lower.includes("id начисления") || lower.includes("идентификатор начисления");
+  });
+  let dateColIdx = header.findIndex(h => {
+    const lower = (h || "").toLowerCase();
+    return lower.includes("дата начисления") || lower.includes("дата операции");
+  });
+  if (dateColIdx === -1) {
+    dateColIdx = header.findIndex(h => h && h.toLowerCase().startsWith("дата"));
+  }
+
+  recordColumn(diagnostics, "Группа услуг", header[groupColIdx], true);
+  recordColumn(diagnostics, "Тип начисления", header[typeColIdx], true);
+  recordColumn(diagnostics, "Сумма итого", header[amountColIdx], true);
+  recordColumn(diagnostics, "Артикул", header[skuColIdx], false);
+  recordColumn(diagnostics, "Количество", header[qtyColIdx], false);
+  recordColumn(diagnostics, "Дата", header[dateColIdx], false);
+  recordColumn(diagnostics, "Номер отправления", header[postingColIdx], false);
+  recordColumn(diagnostics, "ID начисления", header[accrualIdColIdx], false);
+
+  if (!period) {
+    diagnostics.notes.push("Период не найден в шапке отчета, вместо него используется имя файла");
+  }
 
   if (groupColIdx === -1 || typeColIdx === -1 || amountColIdx === -1) {
     throw new Error(
@@ -137,80 +233,89 @@ export const parseAccrualsReport = async (file: File): Promise<AccrualsSummary>
   }
 
   const skuTransactions: SkuTransaction[] = [];
+  const textAt = (values: CellValue[], idx: number): string => (idx !== -1 ? cellToString(values[idx]) : "");
+  // Non-empty cells that are not numbers are reported instead of silently becoming zero
+  const numberAt = (values: CellValue[], idx: number, row: number): number => {
+    if (idx === -1) return 0;
+    const num = cellToNumber(values[idx]);
+    if (num === null) {
+      const text = cellToString(values[idx]);
+      if (text) recordUnparsedNumber(diagnostics, row, header[idx], text);
+      return 0;
+    }
+    return num;
+  };
 
-  // Parse remaining data rows
-  for (let r = 2; r < rows.length; r++) {
-    const rowEl = rows[r];
-    const cells = rowEl.getElementsByTagName("c");
-    
-    let grp = "Без группы";
-    let typ = "Без типа";
-    let amount = 0;
-    let sku = "";
-    let qty = 0;
-    
-    let currentIdx = 0;
-    for (let c = 0; c < cells.length; c++) {
-      const cell = cells[c];
-      const rAttr = cell.getAttribute("r");
-      if (rAttr) {
-        currentIdx = getColIndex(rAttr);
-      }
-
-      const t = cell.getAttribute("t");
-      const vNode = cell.getElementsByTagName("v")[0];
-      const isNode = cell.getElementsByTagName("is")[0];
-      
-      let val = "";
-      if (t === "s" && vNode) {
-        val = sharedStrings[parseInt(vNode.textContent || "0", 10)] || "";
-      } else if (isNode) {
-        val = isNode.textContent || "";
-      } else if (vNode) {
-        val = vNode.textContent || "";
-      }
-
-      if (currentIdx === groupColIdx) {
-        grp = val.trim() || "Без группы";
-      } else if (currentIdx === typeColIdx) {
-        typ = val.trim() || "Без типа";
-      } else if (currentIdx === amountColIdx) {
-        amount = parseFloat(val) || 0;
-      } else if (skuColIdx !== -1 && currentIdx === skuColIdx) {
-        sku = val.trim();
-        if (sku.endsWith(".0")) {
-          sku = sku.slice(0, -2);
-        }
-      } else if (qtyColIdx !== -1 && currentIdx === qtyColIdx) {
-        qty = parseFloat(val) || 0;
-      }
+  let reportedTotal: number | null = null;
+  let parsedTotal = 0;
 
-      if (!rAttr) {
-        currentIdx++;
-      }
+  // Parse remaining data rows
+  await readSheetRows(book, targetPath, ({ index, values }) => {
+    if (index <= headerRowIdx) return;
+    const row = index + 1;
+    diagnostics.rowsRead++;
+
+    // The report's own total row: kept aside to cross-check the imported sum
+    if (values.slice(0, Math.max(groupColIdx, typeColIdx) + 1).some(v => isTotalsRowLabel(cellToString(v)))) {
+      reportedTotal = (reportedTotal ?? 0) + (cellToNumber(values[amountColIdx]) ?? 0);
+      recordSkippedRow(diagnostics, row, "Строка итогов отчета");
+      return;
     }
 
-    if (amount !== 0) {
-      const key = `${grp}::${typ}`;
-      breakdownMap[key] = (breakdownMap[key] || 0) + amount;
-      if (amount > 0) {
-        totalInflow += amount;
-      } else {
-        totalOutflow += amount;
-      }
-    }
+    const amount = numberAt(values, amountColIdx, row);
+    const sku = stripIntegerSuffix(textAt(values, skuColIdx));
 
-    if (sku) {
+    // Keep every meaningful row, including operations without an SKU
+    if (sku || amount !== 0) {
+      diagnostics.rowsImported++;
+      parsedTotal += amount;
       skuTransactions.push({
         sku,
-        group: grp,
-        type: typ,
-        quantity: qty,
-        amount
+        group: textAt(values, groupColIdx) || "Без группы",
+        type: textAt(values, typeColIdx) || "Без типа",
+        quantity: numberAt(values, qtyColIdx, row),
+        amount,
+        date: dateColIdx !== -1 ? parseReportDate(values[dateColIdx], book.date1904) : null,
+        postingNumber: textAt(values, postingColIdx),
+        accrualId: stripIntegerSuffix(textAt(values, accrualIdColIdx)),
+        sourcePeriod: period || file.name
       });
+    } else if (values.some(v => cellToString(v))) {
+      recordSkippedRow(diagnostics, row, "Нет артикула и нулевая сумма");
+    } else {
+      recordSkippedRow(diagnostics, row, "Пустая строка");
     }
+  }, onProgress);
+
+  if (reportedTotal !== null) {
+    diagnostics.totalsChecks.push({ label: "Сумма итого, руб.", reported: reportedTotal, parsed: parsedTotal });
   }
 
+  return buildAccrualsSummary(period, [{ fileName: file.name, period }], skuTransactions, [diagnostics]);
+};
+
+// Totals and breakdown are always derived from the transactions, so merged reports stay consistent
+const buildAccrualsSummary = (
+  period: string,
+  sources: AccrualsSource[],
+  skuTransactions: SkuTransaction[],
+  diagnostics: ImportDiagnostics[]
+): AccrualsSummary => {
+  let totalInflow = 0;
+  let totalOutflow = 0;
+  const breakdownMap: Record<string, number> = {};
+
+  skuTransactions.forEach((tx) => {
+    if (tx.amount === 0) return;
+    const key = `${tx.group}::${tx.type}`;
+    breakdownMap[key] = (breakdownMap[key] || 0) + tx.amount;
+    if (tx.amount > 0) {
+      totalInflow += tx.amount;
+    } else {
+      totalOutflow += tx.amount;
+    }
+  });
+
   const breakdown: AccrualsBreakdownItem[] = [];
   for (const [key, amount] of Object.entries(breakdownMap)) {
     const [group, type] = key.split("::");
@@ -237,31 +342,183 @@ export const parseAccrualsReport = async (file: File): Promise<AccrualsSummary>
 
   return {
     period,
+    sources,
     totalInflow,
     totalOutflow,
     netResult: totalInflow + totalOutflow,
     breakdown,
-    skuTransactions
+    skuTransactions,
+    diagnostics
   };
 };
 
-export const parseCogsCsv = (csvText: string): Record<string, number> => {
-  const lines = csvText.split(/\r?\n/);
-  if (lines.length < 2) return {};
+const formatPeriodDate = (date: Date): string => date.toLocaleDateString("ru-RU");
+
+// Rows repeated in several files (overlapping periods) share an accrual ID; older exports
+// without that column fall back to the full row content
+const getTransactionKey = (tx: SkuTransaction): string => {
+  if (tx.accrualId) return `id:${tx.accrualId}`;
+  return [
+    tx.date ? tx.date.getTime() : "",
+    tx.postingNumber,
+    tx.group,
+    tx.type,
+    tx.sku,
+    tx.quantity,
+    tx.amount
+  ].join("|");
+};
+
+export const mergeAccrualsSummaries = (summaries: AccrualsSummary[]): AccrualsSummary => {
+  if (summaries.length === 1) return summaries[0];
+
+  const sources: AccrualsSource[] = [];
+  const skuTransactions: SkuTransaction[] = [];
+  const diagnostics: ImportDiagnostics[] = [];
+  const takenCounts: Record<string, number> = {};
+
+  summaries.forEach((summary) => {
+    sources.push(...summary.sources);
+    let duplicates = 0;
+
+    // Identical rows inside one file are legitimate, so only occurrences beyond
+    // what earlier files already contributed are added
+    const localCounts: Record<string, number> = {};
+    summary.skuTransactions.forEach((tx) => {
+      const key = getTransactionKey(tx);
+      localCounts[key] = (localCounts[key] || 0) + 1;
+      if (localCounts[key] > (takenCounts[key] || 0)) {
+        skuTransactions.push(tx);
+      } else {
+        duplicates++;
+      }
+    });
+    for (const [key, count] of Object.entries(localCounts)) {
+      takenCounts[key] = Math.max(takenCounts[key] || 0, count);
+    }
+
+    // Report the overlap on the file that lost its rows, without touching the per-file result
+    summary.diagnostics.forEach((d, idx) => {
+      diagnostics.push(idx === 0 && duplicates > 0
+        ? { ...d, skippedRows: [...d.skippedRows, { reason: "Уже есть в ранее загруженном файле", count: duplicates, sampleRows: [] }] }
+        : d);
+    });
+  });
+
+  // Prefer the bounds printed in the report headers, fall back to operation dates
+  const boundaryDates: Date[] = [];
+  sources.forEach((source) => {
+    for (const match of source.period.matchAll(/\d{1,2}\.\d{1,2}\.\d{4}/g)) {
+      const date = parseReportDate(match[0]);
+      if (date) boundaryDates.push(date);
+    }
+  });
+  if (boundaryDates.length === 0) {
+    skuTransactions.forEach((tx) => {
+      if (tx.date) boundaryDates.push(tx.date);
+    });
+  }
+
+  let minDate: Date | null = null;
+  let maxDate: Date | null = null;
+  for (const date of boundaryDates) {
+    if (!minDate || date < minDate) minDate = date;
+    if (!maxDate || date > maxDate) maxDate = date;
+  }
+
+  const period = minDate && maxDate
+    ? `Период: ${formatPeriodDate(minDate)} - ${formatPeriodDate(maxDate)}`
+    : sources.map(s => s.period || s.fileName).join(" + ");
+
+  return buildAccrualsSummary(period, sources, skuTransactions, diagnostics);
+};
+
+// Operations dated within [start, end); undated rows can't be placed in an interval and are left out
+export const sliceAccrualsSummary = (summary: AccrualsSummary, start: Date, end: Date): AccrualsSummary => {
+  const skuTransactions = summary.skuTransactions.filter(tx => tx.date && tx.date >= start && tx.date < end);
+  const lastDay = new Date(end.getTime() - 1);
+  const period = `Период: ${formatPeriodDate(start)} - ${formatPeriodDate(lastDay)}`;
+  return buildAccrualsSummary(period, summary.sources, skuTransactions, summary.diagnostics);
+};
+
+// Ozon templates carry their download date in the name, e.g. "Шаблон для обновления цен_18.06.26"
+const parseFileNameDate = (fileName: string): Date | null => {
+  const match = fileName.match(/(?<!\d)(\d{2})\.(\d{2})\.(\d{4}|\d{2})(?!\d)/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+  return new Date(year, +match[2] - 1, +match[1]);
+};
+
+const isValidFromHeader = (header: string): boolean => /^(действует с|дата)/i.test(header.trim());
+
+const recordComponentColumns = (diagnostics: ImportDiagnostics, columns: CostComponentColumns, header: string[]) => {
+  COST_COMPONENTS.forEach((component) => {
+    const unitIdx = columns.perUnit[component];
+    const shipmentIdx = columns.perShipment[component];
+    if (unitIdx !== undefined) recordColumn(diagnostics, COST_COMPONENT_LABELS[component], header[unitIdx], false);
+    if (shipmentIdx !== undefined) {
+      recordColumn(diagnostics, `${COST_COMPONENT_LABELS[component]} за партию`, header[shipmentIdx], false);
+    }
+  });
+  if (Object.keys(columns.perShipment).length > 0) {
+    recordColumn(diagnostics, "Штук в партии", header[columns.batchQty], true);
+  }
+};
+
+const noteMissingBatch = (diagnostics: ImportDiagnostics, rows: number) => {
+  if (rows > 0) {
+    diagnostics.notes.push(`В ${rows} стр. расходы за партию не учтены: не указано «Штук в партии»`);
+  }
+};
+
+// Each cost is valid from the row's own date column, else the date in the file name, else defaultValidFrom.
+// Raw bytes are decoded as UTF-8 or, failing that, as Windows-1251 (1C exports)
+export const parseCogsCsv = (input: string | ArrayBuffer, fileName: string, defaultValidFrom: Date | null = null): CogsImport => {
+  const diagnostics = createImportDiagnostics("Себестоимость (CSV)", fileName);
+  let csvText: string;
+  if (typeof input === "string") {
+    csvText = input;
+  } else {
+    const decoded = decodeCsvBytes(input);
+    csvText = decoded.text;
+    if (decoded.encoding === "windows-1251") diagnostics.notes.push("Файл прочитан в кодировке Windows-1251");
+  }
+
+  const table = parseCsvTable(csvText);
+  const rows = table.rows;
+  if (rows.length < 2) {
+    diagnostics.notes.push("Файл пуст или содержит только одну строку");
+    return { entries: [], diagnostics };
+  }
+  if (table.delimiter !== ";") {
+    diagnostics.notes.push(`Разделитель колонок: ${formatCsvDelimiter(table.delimiter)}`);
+  }
 
   // Find the header row (usually the one containing Артикул and Себестоимость)
   let headerIndex = -1;
   let skuIndex = -1;
   let cogsIndex = -1;
-
-  for (let i = 0; i < Math.min(lines.length, 10); i++) {
-    const cols = lines[i].split(";");
-    const skuIdx = cols.findIndex(c => c.trim().toLowerCase().includes("артикул"));
-    const cogsIdx = cols.findIndex(c => c.trim().toLowerCase() === "себестоимость");
-    if (skuIdx !== -1 && cogsIdx !== -1) {
+  let dateIndex = -1;
+  let headerCols: string[] = [];
+  let componentColumns = findCostComponentColumns([]);
+
+  // Either a total "Себестоимость" column or landed-cost component columns are enough
+  for (let i = 0; i < Math.min(rows.length, 10); i++) {
+    const cols = rows[i].cells.map(c => c.trim());
+    const skuIdx = cols.findIndex(c => c.toLowerCase().includes("артикул"));
+    const cogsIdx = cols.findIndex(c => c.toLowerCase() === "себестоимость");
+    const components = findCostComponentColumns(cols);
+    if (skuIdx !== -1 && (cogsIdx !== -1 || hasCostComponentColumns(components))) {
       headerIndex = i;
       skuIndex = skuIdx;
       cogsIndex = cogsIdx;
+      headerCols = cols;
+      componentColumns = components;
+      dateIndex = cols.findIndex(isValidFromHeader);
+      recordColumn(diagnostics, "Артикул", cols[skuIdx], true);
+      recordColumn(diagnostics, "Себестоимость", cols[cogsIdx], !hasCostComponentColumns(components));
+      recordColumn(diagnostics, "Действует с", cols[dateIndex], false);
+      recordComponentColumns(diagnostics, componentColumns, cols);
       break;
     }
   }
@@ -269,198 +526,177 @@ export const parseCogsCsv = (csvText: string): Record<string, number> => {
   if (headerIndex === -1) {
     throw new Error("Не удалось найти колонки 'SKU' и 'Себестоимость' в CSV-файле");
   }
+  diagnostics.headerRow = rows[headerIndex].line;
+
+  // Rows the tokenizer choked on are reported and left out, the rest of the file is still imported
+  const brokenLines = new Set(table.errors.map(e => e.line));
+  table.errors.slice(0, 5).forEach(e => diagnostics.notes.push(`Строка ${e.line}: ${e.message}`));
+  if (table.errors.length > 5) {
+    diagnostics.notes.push(`И еще ${table.errors.length - 5} ошибок разбора CSV`);
+  }
 
-  const skuCogs: Record<string, number> = {};
+  const fileValidFrom = parseFileNameDate(fileName) ?? defaultValidFrom;
+  const entries: CogsEntry[] = [];
+  let unparsedDates = 0;
+  let missingBatchRows = 0;
 
   // Data starts after the header. We also skip helper text lines (like row 3 and 4)
-  for (let i = headerIndex + 1; i < lines.length; i++) {
-    const row = lines[i].split(";");
-    if (row.length > Math.max(skuIndex, cogsIndex)) {
-      let sku = row[skuIndex].trim();
-      if (sku.startsWith('"') && sku.endsWith('"')) {
-        sku = sku.slice(1, -1);
-      }
-      
-      const cogsStr = row[cogsIndex].trim().replace(/\s/g, "").replace(",", ".");
-      if (sku && cogsStr) {
-        if (sku.toLowerCase().includes("нередактируемое") || cogsStr.toLowerCase().includes("нередактируемое")) {
-          continue;
-        }
-        const cogs = parseFloat(cogsStr);
-        if (!isNaN(cogs)) {
-          skuCogs[sku] = cogs;
-        }
-      }
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const { cells: row, line: lineNumber } = rows[i];
+    if (row.every(c => !c.trim())) {
+      if (i < rows.length - 1) recordSkippedRow(diagnostics, lineNumber, "Пустая строка");
+      continue;
     }
-  }
+    diagnostics.rowsRead++;
 
-  return skuCogs;
-};
-
-export const parseCogsXlsx = async (file: File): Promise<Record<string, number>> => {
-  const zip = await JSZip.loadAsync(file);
-
-  // 1. Parse shared strings
-  const sharedStrings: string[] = [];
-  const sharedStringsFile = zip.file("xl/sharedStrings.xml");
-  if (sharedStringsFile) {
-    const ssText = await sharedStringsFile.async("text");
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(ssText, "application/xml");
-    const siElements = doc.getElementsByTagName("si");
-    for (let i = 0; i < siElements.length; i++) {
-      sharedStrings.push(siElements[i].textContent || "");
+    if (brokenLines.has(lineNumber)) {
+      recordSkippedRow(diagnostics, lineNumber, "Ошибка разбора CSV");
+      continue;
+    }
+    if (row.length <= Math.max(skuIndex, cogsIndex)) {
+      recordSkippedRow(diagnostics, lineNumber, "Не хватает колонок");
+      continue;
     }
-  }
 
-  // 2. Find target worksheet from xl/workbook.xml
-  let sheetPath = "xl/worksheets/sheet1.xml"; // default fallback
-  const workbookFile = zip.file("xl/workbook.xml");
-  if (workbookFile) {
-    const wbText = await workbookFile.async("text");
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(wbText, "application/xml");
-    const sheets = doc.getElementsByTagName("sheet");
-    
-    // Look for sheet named "Товары и цены"
-    let targetSheetId = "";
-    for (let i = 0; i < sheets.length; i++) {
-      const name = sheets[i].getAttribute("name") || "";
-      if (name.toLowerCase().includes("товары и цены") || name.toLowerCase().includes("товары")) {
-        const sheetIdAttr = sheets[i].getAttribute("sheetId");
-        if (sheetIdAttr) {
-          targetSheetId = sheetIdAttr;
-        }
-        break;
-      }
+    const sku = row[skuIndex].trim();
+    const rawCogs = cogsIndex !== -1 ? row[cogsIndex].trim() : "";
+    if (sku.toLowerCase().includes("нередактируемое") || rawCogs.toLowerCase().includes("нередактируемое")) {
+      recordSkippedRow(diagnostics, lineNumber, "Служебная строка шаблона");
+      continue;
     }
-    
-    if (targetSheetId) {
-      const path1 = `xl/worksheets/sheet${targetSheetId}.xml`;
-      if (zip.file(path1)) {
-        sheetPath = path1;
-      } else {
-        const matches = Object.keys(zip.files).filter(k => k.startsWith("xl/worksheets/sheet"));
-        if (matches.length >= parseInt(targetSheetId, 10)) {
-          sheetPath = matches[parseInt(targetSheetId, 10) - 1];
-        }
-      }
+
+    const readNumber = (idx: number): number | null => {
+      const raw = (row[idx] || "").trim();
+      if (!raw) return null;
+      const num = parseCsvNumber(raw);
+      if (num === null) recordUnparsedNumber(diagnostics, lineNumber, headerCols[idx], raw);
+      return num;
+    };
+    const components = readCostComponents(componentColumns, readNumber, () => missingBatchRows++);
+    if (!sku || (!components && !rawCogs)) {
+      recordSkippedRow(diagnostics, lineNumber, !sku ? "Нет артикула" : "Не указана себестоимость");
+      continue;
     }
+    const cogs = components ? sumCostComponents(components) : readNumber(cogsIndex);
+    if (cogs === null) continue;
+
+    const rawDate = dateIndex !== -1 ? (row[dateIndex] || "").trim() : "";
+    const rowValidFrom = rawDate ? parseReportDate(rawDate) : null;
+    if (rawDate && !rowValidFrom) unparsedDates++;
+    entries.push({ sku, cost: cogs, validFrom: rowValidFrom ?? fileValidFrom, ...(components && { components }) });
+    diagnostics.rowsImported++;
   }
 
-  const sheetFile = zip.file(sheetPath);
-  if (!sheetFile) {
-    throw new Error(`Не удалось найти лист с товарами в файле ${sheetPath}`);
+  if (unparsedDates > 0) {
+    diagnostics.notes.push(`Не удалось разобрать дату «Действует с» в ${unparsedDates} стр., для них использована дата файла`);
   }
+  noteMissingBatch(diagnostics, missingBatchRows);
 
-  const sheetText = await sheetFile.async("text");
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(sheetText, "application/xml");
-  const rows = doc.getElementsByTagName("row");
+  return { entries, diagnostics };
+};
 
-  if (rows.length < 2) {
+export const parseCogsXlsx = async (
+  file: File,
+  onProgress?: (processedRows: number) => void,
+  defaultValidFrom: Date | null = null
+): Promise<CogsImport> => {
+  const book = await openSpreadsheet(file);
+
+  // Find target worksheet ("Товары и цены") from xl/workbook.xml
+  const targetSheet =
+    book.sheets.find(s => s.name.toLowerCase().includes("товары и цены")) ||
+    book.sheets.find(s => s.name.toLowerCase().includes("товары")) ||
+    book.sheets[0];
+  if (!targetSheet) {
+    throw new Error("Не удалось найти лист с товарами в файле себестоимости");
+  }
+
+  const diagnostics = createImportDiagnostics("Себестоимость (шаблон Excel)", `${file.name} / ${targetSheet.name}`);
+  if (!targetSheet.name.toLowerCase().includes("товары")) {
+    diagnostics.notes.push(`Лист «Товары и цены» не найден, использован лист «${targetSheet.name}»`);
+  }
+
+  const leadingRows = await readLeadingTextRows(book, targetSheet.path, 2);
+
+  if (leadingRows.length < 2) {
     throw new Error("Файл себестоимости пуст");
   }
 
   // Find headers from row 2 (index 1)
-  const header: string[] = [];
-  const r2Cells = rows[1].getElementsByTagName("c");
-  let currentIdx = 0;
-  for (let i = 0; i < r2Cells.length; i++) {
-    const cell = r2Cells[i];
-    const rAttr = cell.getAttribute("r");
-    if (rAttr) {
-      currentIdx = getColIndex(rAttr);
-    }
-    const t = cell.getAttribute("t");
-    const vNode = cell.getElementsByTagName("v")[0];
-    const isNode = cell.getElementsByTagName("is")[0];
-    let val = "";
-    if (t === "s" && vNode) {
-      val = sharedStrings[parseInt(vNode.textContent || "0", 10)] || "";
-    } else if (isNode) {
-      val = isNode.textContent || "";
-    } else if (vNode) {
-      val = vNode.textContent || "";
-    }
-    header[currentIdx] = val.trim();
-    if (!rAttr) {
-      currentIdx++;
-    }
-  }
+  const header = leadingRows[1];
+  diagnostics.headerRow = 2;
 
   const artColIdx = header.findIndex(h => h && h.toLowerCase().includes("артикул"));
   const cogsColIdx = header.findIndex(h => h && h.toLowerCase() === "себестоимость");
   const newCogsColIdx = header.findIndex(h => h && h.toLowerCase().includes("новая себестоимость"));
+  const dateColIdx = header.findIndex(h => h && isValidFromHeader(h));
+  const ozonSkuColIdx = header.findIndex(h => h && h.trim() === "SKU");
+  const barcodeColIdx = header.findIndex(h => h && h.trim().startsWith("Штрихкод"));
+
+  recordColumn(diagnostics, "Артикул", header[artColIdx], true);
+  recordColumn(diagnostics, "Себестоимость", header[cogsColIdx], newCogsColIdx === -1);
+  recordColumn(diagnostics, "Новая себестоимость", header[newCogsColIdx], false);
+  recordColumn(diagnostics, "Действует с", header[dateColIdx], false);
+  const componentColumns = findCostComponentColumns(header);
+  recordComponentColumns(diagnostics, componentColumns, header);
 
   if (artColIdx === -1) {
     throw new Error("Не удалось найти колонку 'Артикул' в файле шаблона себестоимости");
   }
-  if (cogsColIdx === -1 && newCogsColIdx === -1) {
+  if (cogsColIdx === -1 && newCogsColIdx === -1 && !hasCostComponentColumns(componentColumns)) {
     throw new Error("Не удалось найти колонку 'Себестоимость' или 'Новая себестоимость' в файле шаблона");
   }
 
-  const skuCogs: Record<string, number> = {};
+  const fileValidFrom = parseFileNameDate(file.name) ?? defaultValidFrom;
+  const entries: CogsEntry[] = [];
+  const links: SkuLink[] = [];
+  let missingBatchRows = 0;
+
+  // Non-numeric text in a cost cell is reported rather than treated as "no cost"
+  const readCost = (values: CellValue[], idx: number, row: number): number | null => {
+    if (idx === -1) return null;
+    const num = cellToNumber(values[idx]);
+    const text = cellToString(values[idx]);
+    if (num === null && text && !text.toLowerCase().includes("редактируемое")) {
+      recordUnparsedNumber(diagnostics, row, header[idx], text);
+    }
+    return num;
+  };
 
   // Parse data rows (start from row 3, index 2)
-  for (let r = 2; r < rows.length; r++) {
-    const rowEl = rows[r];
-    const cells = rowEl.getElementsByTagName("c");
-    let art = "";
-    let cogsVal = NaN;
-    let newCogsVal = NaN;
-
-    let cIdx = 0;
-    for (let i = 0; i < cells.length; i++) {
-      const cell = cells[i];
-      const rAttr = cell.getAttribute("r");
-      if (rAttr) {
-        cIdx = getColIndex(rAttr);
-      }
-      const t = cell.getAttribute("t");
-      const vNode = cell.getElementsByTagName("v")[0];
-      const isNode = cell.getElementsByTagName("is")[0];
-      let val = "";
-      if (t === "s" && vNode) {
-        val = sharedStrings[parseInt(vNode.textContent || "0", 10)] || "";
-      } else if (isNode) {
-        val = isNode.textContent || "";
-      } else if (vNode) {
-        val = vNode.textContent || "";
-      }
-
-      if (cIdx === artColIdx) {
-        art = val.trim();
-      } else if (cIdx === cogsColIdx) {
-        cogsVal = parseFloat(val);
-      } else if (cIdx === newCogsColIdx) {
-        newCogsVal = parseFloat(val);
-      }
-
-      if (!rAttr) {
-        cIdx++;
-      }
+  await readSheetRows(book, targetSheet.path, ({ index, values }) => {
+    if (index < 2) return;
+    const row = index + 1;
+    diagnostics.rowsRead++;
+
+    const art = cellToString(values[artColIdx]);
+    if (!art) {
+      recordSkippedRow(diagnostics, row, values.some(v => cellToString(v)) ? "Нет артикула" : "Пустая строка");
+      return;
+    }
+    if (art.toLowerCase().includes("нередактируемое")) {
+      recordSkippedRow(diagnostics, row, "Служебная строка шаблона");
+      return;
     }
 
-    if (art) {
-      if (art.toLowerCase().includes("нередактируемое")) {
-        continue;
-      }
-      
-      let finalCogs = NaN;
-      if (!isNaN(newCogsVal)) {
-        finalCogs = newCogsVal;
-      } else if (!isNaN(cogsVal)) {
-        finalCogs = cogsVal;
-      }
-
-      if (!isNaN(finalCogs)) {
-        skuCogs[art] = finalCogs;
-      }
+    const ozonSku = ozonSkuColIdx !== -1 ? cellToString(values[ozonSkuColIdx]) : "";
+    const barcodes = barcodeColIdx !== -1 ? splitBarcodes(cellToString(values[barcodeColIdx])) : [];
+    if (ozonSku || barcodes.length > 0) links.push({ offerId: art, ozonSku, barcodes });
+
+    const components = readCostComponents(componentColumns, idx => readCost(values, idx, row), () => missingBatchRows++);
+    const newCogsVal = readCost(values, newCogsColIdx, row);
+    const cogsVal = readCost(values, cogsColIdx, row);
+    const finalCogs = components ? sumCostComponents(components) : newCogsVal ?? cogsVal;
+
+    if (finalCogs !== null) {
+      const validFrom = dateColIdx !== -1 ? parseReportDate(values[dateColIdx], book.date1904) : null;
+      entries.push({ sku: art, cost: finalCogs, validFrom: validFrom ?? fileValidFrom, ...(components && { components }) });
+      diagnostics.rowsImported++;
+    } else {
+      recordSkippedRow(diagnostics, row, "Не указана себестоимость");
     }
-  }
+  }, onProgress);
+  noteMissingBatch(diagnostics, missingBatchRows);
 
-  return skuCogs;
+  return { entries, diagnostics, links };
 };
-
-
@@ -0,0 +1,78 @@
+import type { AccrualsSheetCandidate, AccrualsSummary, CogsImport } from "@/lib/parseAccruals";
+import type { ParsedTemplate } from "@/lib/repricer";
+
+export type ParseTask =
+  | { kind: "accrualsSheets"; file: File }
+  | { kind: "accruals"; file: File; sheetPath?: string }
+  | { kind: "cogsXlsx"; file: File; validFrom?: Date | null }
+  | { kind: "ozonTemplate"; file: File };
+
+export interface ParseTaskResults {
+  accrualsSheets: AccrualsSheetCandidate[];
+  accruals: AccrualsSummary;
+  cogsXlsx: CogsImport;
+  ozonTemplate: ParsedTemplate;
+}
+
+export type ParseWorkerMessage =
+  | { type: "progress"; processed: number }
+  | { type: "result"; result: ParseTaskResults[ParseTask["kind"]] }
+  | { type: "error"; message: string };
+
+export interface ParseTaskOptions {
+  onProgress?: (processedRows: number) => void;
+  signal?: AbortSignal;
+}
+
+const createCancelError = () => new DOMException("Обработка отменена", "AbortError");
+
+export const isParseCancelled = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === "AbortError";
+
+// Runs a parser off the main thread; every task gets its own worker so a cancel simply terminates it
+export const runParseTask = <T extends ParseTask>(
+  task: T,
+  options: ParseTaskOptions = {}
+): Promise<ParseTaskResults[T["kind"]]> => {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCancelError());
+      return;
+    }
+
+    const worker = new Worker(new URL("./parse.worker.ts", import.meta.url));
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(createCancelError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.processed);
+      } else if (message.type === "result") {
+        finish();
+        resolve(message.result as ParseTaskResults[T["kind"]]);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Ошибка фоновой обработки файла"));
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+    worker.postMessage(task);
+  });
+};
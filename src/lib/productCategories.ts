@@ -0,0 +1,71 @@
+import { createId, createStoredSetting } from "@/lib/storedSettings";
+
+export interface CategoryRule {
+  id: string;
+  name: string;
+  pattern: string; // "|"-separated substrings of the article
+}
+
+export interface ProductCategories {
+  rules: CategoryRule[]; // checked top to bottom, the first match wins
+  overrides: Record<string, string>; // article -> category, takes precedence over the rules
+}
+
+export const FALLBACK_CATEGORY = "Прочее";
+
+export const DEFAULT_PRODUCT_CATEGORIES: ProductCategories = {
+  rules: [
+    { id: "slippers", name: "Тапочки", pattern: "тапоч|тапок" },
+    { id: "vests", name: "Жилеты", pattern: "жилет" },
+    { id: "shirts", name: "Рубашки", pattern: "рубашк" },
+    { id: "socks", name: "Носки", pattern: "носк" }
+  ],
+  overrides: {}
+};
+
+export const getProductCategory = (categories: ProductCategories, article: string): string => {
+  const override = categories.overrides[article]?.trim();
+  if (override) return override;
+
+  const lower = article.toLowerCase();
+  const rule = categories.rules.find(r => {
+    if (!r.name.trim()) return false;
+    const alternatives = r.pattern.toLowerCase().split("|").map(p => p.trim()).filter(Boolean);
+    return alternatives.some(p => lower.includes(p));
+  });
+  return rule ? rule.name.trim() : FALLBACK_CATEGORY;
+};
+
+// Every category name a user can pick from, in rule order
+export const listCategoryNames = (categories: ProductCategories): string[] => {
+  const names = new Set<string>();
+  categories.rules.forEach(r => { if (r.name.trim()) names.add(r.name.trim()); });
+  Object.values(categories.overrides).forEach(name => { if (name.trim()) names.add(name.trim()); });
+  names.add(FALLBACK_CATEGORY);
+  return Array.from(names);
+};
+
+export const createCategoryRuleId = (): string => createId("category");
+
+const STORAGE_KEY = "ozon-count:product-categories";
+
+const isCategoryRule = (value: unknown): value is CategoryRule => {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === "string" && typeof rule.name === "string" && typeof rule.pattern === "string";
+};
+
+const isProductCategories = (value: unknown): value is ProductCategories => {
+  if (!value || typeof value !== "object") return false;
+  const { rules, overrides } = value as Record<string, unknown>;
+  return Array.isArray(rules) && rules.every(isCategoryRule) &&
+    !!overrides && typeof overrides === "object" &&
+    Object.values(overrides).every(v => typeof v === "string");
+};
+
+export const { load: loadProductCategories, save: saveProductCategories } = createStoredSetting<ProductCategories>(
+  STORAGE_KEY,
+  DEFAULT_PRODUCT_CATEGORIES,
+  parsed => isProductCategories(parsed) ? parsed : null,
+  "категории товаров"
+);
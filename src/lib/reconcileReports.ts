@@ -0,0 +1,233 @@
+import type { AnalysisResult, ArticleRow } from "@/lib/parse";
+import type { SkuTransaction } from "@/lib/parseAccruals";
+import type { SkuResolver } from "@/lib/skuIdentity";
+import { classifyExpense, type ExpenseClass, type ExpenseRule } from "@/lib/expenseRules";
+
+export type ReconciliationMetric = "revenue" | "commission" | "logistics" | "acquiring" | "returns";
+
+export const RECONCILIATION_METRICS: ReconciliationMetric[] = ["revenue", "commission", "logistics", "acquiring", "returns"];
+
+export const RECONCILIATION_METRIC_LABELS: Record<ReconciliationMetric, string> = {
+  revenue: "Выручка",
+  commission: "Комиссия",
+  logistics: "Логистика",
+  acquiring: "Эквайринг",
+  returns: "Возвраты"
+};
+
+export interface ReconciliationTolerance {
+  absolute: number; // roubles
+  percent: number; // of the larger of the two amounts
+}
+
+export const DEFAULT_RECONCILIATION_TOLERANCE: ReconciliationTolerance = { absolute: 10, percent: 1 };
+
+export interface ReconciliationExplanation {
+  group: string;
+  type: string;
+  amount: number;
+  // "extra": the accrual type sits in the metric and matches the gap, the report has no such charge;
+  // "elsewhere": the type matches the gap with the opposite sign, the report counts it under this metric
+  kind: "extra" | "elsewhere";
+}
+
+export interface ReconciliationCell {
+  report: number;
+  accruals: number;
+  delta: number; // accruals minus report
+  isMismatch: boolean;
+  explanations: ReconciliationExplanation[];
+}
+
+export interface ReconciliationRow {
+  sku: string;
+  name: string;
+  presence: "both" | "reportOnly" | "accrualsOnly";
+  cells: Record<ReconciliationMetric, ReconciliationCell>;
+  mismatchCount: number;
+}
+
+export interface ReconciliationResult {
+  rows: ReconciliationRow[];
+  totals: Record<ReconciliationMetric, ReconciliationCell>;
+  periodStart: Date | null;
+  periodEnd: Date | null; // exclusive
+  excludedTransactions: number; // dated outside the report period
+  unassignedAmount: number; // accruals without a SKU (ads, subscription), not comparable per product
+}
+
+// Report costs and accrual expenses are both negative. Revenue on both sides is sales plus points and
+// partner programs net of returned revenue, the same base the accruals page uses for output VAT
+const getReportMetrics = (article: ArticleRow): Record<ReconciliationMetric, number> => ({
+  revenue: article.revenue + article.discountPoints + article.partnerPrograms,
+  commission: article.marketplaceCommission,
+  logistics: article.logisticsCost,
+  acquiring: article.acquiringCost,
+  returns: article.returnsCost
+});
+
+const METRIC_BY_CLASS: Partial<Record<ExpenseClass, ReconciliationMetric>> = {
+  commission: "commission",
+  logistics: "logistics",
+  acquiring: "acquiring",
+  returns: "returns"
+};
+
+const isRevenueTransaction = (tx: SkuTransaction): boolean =>
+  tx.amount > 0 || tx.type.toLowerCase().includes("возврат выручки");
+
+// "Период: 01.02.2026 - 16.02.2026" or "Period: …", the end date is inclusive in the label
+export const parseReportPeriod = (period: string | undefined): { start: Date; end: Date } | null => {
+  const match = period?.match(/(\d{2})\.(\d{2})\.(\d{4})\s*-\s*(\d{2})\.(\d{2})\.(\d{4})/);
+  if (!match) return null;
+  const [, d1, m1, y1, d2, m2, y2] = match.map(Number);
+  return { start: new Date(y1, m1 - 1, d1), end: new Date(y2, m2 - 1, d2 + 1) };
+};
+
+const isMismatch = (report: number, accruals: number, tolerance: ReconciliationTolerance): boolean => {
+  const delta = Math.abs(accruals - report);
+  return delta > tolerance.absolute && delta > Math.max(Math.abs(report), Math.abs(accruals)) * tolerance.percent / 100;
+};
+
+// A single accrual type explains a gap when its amount equals the gap within the tolerance
+const matchesGap = (amount: number, gap: number, tolerance: ReconciliationTolerance): boolean =>
+  Math.abs(amount - gap) <= Math.max(tolerance.absolute, Math.abs(gap) * tolerance.percent / 100);
+
+const emptyCell = (): ReconciliationCell => ({ report: 0, accruals: 0, delta: 0, isMismatch: false, explanations: [] });
+
+const createCells = (): Record<ReconciliationMetric, ReconciliationCell> => ({
+  revenue: emptyCell(),
+  commission: emptyCell(),
+  logistics: emptyCell(),
+  acquiring: emptyCell(),
+  returns: emptyCell()
+});
+
+// Numeric columns of a report line, summed when several lines resolve to the same article
+const getNumericFields = (article: ArticleRow) =>
+  (Object.keys(article) as (keyof ArticleRow)[]).filter((key): key is Exclude<keyof ArticleRow, "sku" | "name"> =>
+    typeof article[key] === "number"
+  );
+
+interface TypeAmount {
+  group: string;
+  type: string;
+  amount: number;
+  metric: ReconciliationMetric | null; // null for classes the report doesn't show per SKU (storage, ads, other)
+}
+
+export const reconcileReports = (
+  report: AnalysisResult,
+  transactions: SkuTransaction[],
+  rules: ExpenseRule[],
+  resolveSku: SkuResolver,
+  tolerance: ReconciliationTolerance = DEFAULT_RECONCILIATION_TOLERANCE
+): ReconciliationResult => {
+  const period = parseReportPeriod(report.period);
+  const classCache = new Map<string, ReconciliationMetric | null>();
+  const typesBySku = new Map<string, Map<string, TypeAmount>>();
+  let excludedTransactions = 0;
+  let unassignedAmount = 0;
+
+  transactions.forEach((tx) => {
+    if (period && tx.date && (tx.date < period.start || tx.date >= period.end)) {
+      excludedTransactions++;
+      return;
+    }
+    if (!tx.sku) {
+      unassignedAmount += tx.amount;
+      return;
+    }
+    const key = `${tx.group}::${tx.type}`;
+    let metric = classCache.get(key);
+    if (metric === undefined) {
+      metric = METRIC_BY_CLASS[classifyExpense(rules, tx.group, tx.type).expenseClass] ?? null;
+      classCache.set(key, metric);
+    }
+    if (isRevenueTransaction(tx)) metric = "revenue";
+    // Sales are positive and revenue returns negative, so revenue types are split by sign
+    const typeKey = metric === "revenue" ? `${key}::${tx.amount > 0 ? "+" : "-"}` : key;
+    const sku = resolveSku(tx.sku);
+    let types = typesBySku.get(sku);
+    if (!types) {
+      types = new Map();
+      typesBySku.set(sku, types);
+    }
+    const entry = types.get(typeKey);
+    if (entry) entry.amount += tx.amount;
+    else types.set(typeKey, { group: tx.group, type: tx.type, amount: tx.amount, metric });
+  });
+
+  const articlesBySku = new Map<string, ArticleRow>();
+  report.articles.forEach((article) => {
+    const sku = resolveSku(article.sku);
+    const existing = articlesBySku.get(sku);
+    if (!existing) {
+      articlesBySku.set(sku, article);
+      return;
+    }
+    const merged = { ...existing };
+    getNumericFields(existing).forEach((field) => {
+      merged[field] += article[field];
+    });
+    articlesBySku.set(sku, merged);
+  });
+
+  const totals = createCells();
+  const skus = new Set([...articlesBySku.keys(), ...typesBySku.keys()]);
+  const rows: ReconciliationRow[] = [];
+
+  skus.forEach((sku) => {
+    const article = articlesBySku.get(sku);
+    const types = [...(typesBySku.get(sku)?.values() ?? [])];
+    const reportMetrics = article ? getReportMetrics(article) : null;
+    const cells = createCells();
+    let mismatchCount = 0;
+
+    RECONCILIATION_METRICS.forEach((metric) => {
+      const report = reportMetrics?.[metric] ?? 0;
+      const accruals = types.filter(t => t.metric === metric).reduce((sum, t) => sum + t.amount, 0);
+      const delta = accruals - report;
+      const mismatch = isMismatch(report, accruals, tolerance);
+      const explanations: ReconciliationExplanation[] = [];
+      if (mismatch) {
+        types.forEach((t) => {
+          if (t.metric === metric && matchesGap(t.amount, delta, tolerance)) {
+            explanations.push({ group: t.group, type: t.type, amount: t.amount, kind: "extra" });
+          } else if (t.metric === null && matchesGap(t.amount, -delta, tolerance)) {
+            explanations.push({ group: t.group, type: t.type, amount: t.amount, kind: "elsewhere" });
+          }
+        });
+        mismatchCount++;
+      }
+      cells[metric] = { report, accruals, delta, isMismatch: mismatch, explanations };
+      totals[metric].report += report;
+      totals[metric].accruals += accruals;
+    });
+
+    rows.push({
+      sku,
+      name: article?.name ?? "",
+      presence: article && types.length > 0 ? "both" : article ? "reportOnly" : "accrualsOnly",
+      cells,
+      mismatchCount
+    });
+  });
+
+  RECONCILIATION_METRICS.forEach((metric) => {
+    const cell = totals[metric];
+    cell.delta = cell.accruals - cell.report;
+    cell.isMismatch = isMismatch(cell.report, cell.accruals, tolerance);
+  });
+
+  rows.sort((a, b) => b.mismatchCount - a.mismatchCount || Math.abs(b.cells.revenue.delta) - Math.abs(a.cells.revenue.delta));
+
+  return {
+    rows,
+    totals,
+    periodStart: period?.start ?? null,
+    periodEnd: period?.end ?? null,
+    excludedTransactions,
+    unassignedAmount
+  };
+};
@@ -1,4 +1,7 @@
 import * as XLSX from "xlsx";
+import { openSpreadsheet, readSheetRows, readLeadingRows, toRowGrid, cellToString, cellToNumber, type CellValue } from "@/lib/spreadsheetReader";
+import { createImportDiagnostics, recordColumn, recordSkippedRow, recordUnparsedNumber, type ImportDiagnostics } from "@/lib/importDiagnostics";
+import { splitBarcodes, type SkuLink } from "@/lib/skuIdentity";
 
 export interface RepricerItem {
   id: string; // The SKU or Article
@@ -11,130 +14,164 @@ export interface RepricerItem {
   ozonDiscountPct: number; // calculated discount percentage provided by Ozon
   rowIndex: number; // to keep track of where to write back
   needsAttention?: boolean; // highlight if no index was found
+  category?: string; // from 'Категория' when the template has it
+  ozonSku?: string; // from 'SKU'
+  barcodes?: string[]; // from 'Штрихкод'
 }
 
 export interface ParsedTemplate {
   items: RepricerItem[];
-  workbook: XLSX.WorkBook;
+  file: File; // the workbook is re-read on export instead of being kept in memory
   sheetName: string;
   headerRowIndex: number;
+  diagnostics: ImportDiagnostics;
 }
 
-export async function parseOzonTemplate(file: File): Promise<ParsedTemplate> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: "array" });
-        
-        let sheetName: string = workbook.SheetNames.find(s => s === "Товары и цены") || 
-                                workbook.SheetNames.find(s => s !== "Инструкция" && s !== "Как работать с шаблоном") || 
-                                workbook.SheetNames[0];
-
-        const sheet = workbook.Sheets[sheetName];
-        if (!sheet) {
-          throw new Error("Не найден лист 'Товары и цены' или аналогичный.");
-        }
-
-        const json = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 });
-        
-        let headerRowIndex = -1;
-        for (let i = 0; i < Math.min(10, json.length); i++) {
-          const row = json[i];
-          if (row && row.includes("Артикул")) {
-            headerRowIndex = i;
-            break;
-          }
-        }
-
-        if (headerRowIndex === -1) {
-          throw new Error("Не удалось найти заголовки таблицы. Убедитесь, что это правильный шаблон обновления цен.");
-        }
-
-        const headers = json[headerRowIndex];
-        const articleCol = headers.indexOf("Артикул");
-        const oldPriceCol = headers.findIndex((h: string) => h && h.includes("Цена до скидки"));
-        const currentPriceCol = headers.findIndex((h: string) => h && h.includes("Текущая цена (со скидкой)"));
-        const newPriceCol = headers.findIndex((h: string) => h && h.includes("Новая цена (со скидкой)"));
-        const priceIndexCol = headers.findIndex((h: string) => h && h.includes("Ценовой индекс товара на рынке на мои товары"));
-        const customerPriceCol = headers.findIndex((h: string) => h && h.includes("Цена с учетом скидки от Ozon"));
-
-        if (articleCol === -1) throw new Error("Не найден столбец 'Артикул'");
-        if (currentPriceCol === -1) throw new Error("Не найден столбец 'Текущая цена (со скидкой)'");
-        if (newPriceCol === -1) throw new Error("Не найден столбец 'Новая цена (со скидкой)'");
-
-        const items: RepricerItem[] = [];
-
-        // Data starts typically after headers + 1 (the 'Нередактируемое/Редактируемое' row) or immediately after headers
-        const dataStartIndex = headerRowIndex + 2; 
-
-        for (let i = dataStartIndex; i < json.length; i++) {
-          const row = json[i];
-          if (!row || row.length === 0) continue;
-          
-          const article = row[articleCol];
-          if (!article) continue; // Skip empty rows
-
-          const currentPrice = parseFloat(String(row[currentPriceCol]).replace(",", ".")) || 0;
-          const oldPrice = oldPriceCol !== -1 ? parseFloat(String(row[oldPriceCol]).replace(",", ".")) || 0 : 0;
-          
-          let newPrice: number | null = parseFloat(String(row[newPriceCol]).replace(",", "."));
-          if (isNaN(newPrice)) {
-            newPrice = null;
-          }
-          
-          let priceIndex: number | null = priceIndexCol !== -1 ? parseFloat(String(row[priceIndexCol]).replace(",", ".")) : null;
-          if (isNaN(priceIndex as number) || priceIndex === 0) {
-            priceIndex = null;
-          }
+export async function parseOzonTemplate(
+  file: File,
+  onProgress?: (processedRows: number) => void
+): Promise<ParsedTemplate> {
+  const book = await openSpreadsheet(file);
 
-          let customerPrice: number | null = customerPriceCol !== -1 ? parseFloat(String(row[customerPriceCol]).replace(",", ".")) : null;
-          if (isNaN(customerPrice as number)) {
-            customerPrice = null;
-          }
+  const sheet = book.sheets.find(s => s.name === "Товары и цены") ||
+                book.sheets.find(s => s.name !== "Инструкция" && s.name !== "Как работать с шаблоном") ||
+                book.sheets[0];
+  if (!sheet) {
+    throw new Error("Не найден лист 'Товары и цены' или аналогичный.");
+  }
+  const sheetName = sheet.name;
+  const diagnostics = createImportDiagnostics("Шаблон обновления цен", `${file.name} / ${sheetName}`);
+  if (sheetName !== "Товары и цены") {
+    diagnostics.notes.push(`Лист «Товары и цены» не найден, использован лист «${sheetName}»`);
+  }
 
-          let ozonDiscountPct = 0;
-          if (customerPrice && currentPrice > 0 && customerPrice < currentPrice) {
-            ozonDiscountPct = 1 - (customerPrice / currentPrice);
-          }
+  const leadingRows = toRowGrid(await readLeadingRows(book, sheet.path, 10)).map(row => row.map(cellToString));
 
-          let multiplier = 1.5; // default 33% discount
-          if (currentPrice > 0 && oldPrice > currentPrice) {
-            multiplier = oldPrice / currentPrice;
-          }
+  let headerRowIndex = -1;
+  for (let i = 0; i < leadingRows.length; i++) {
+    if (leadingRows[i].includes("Артикул")) {
+      headerRowIndex = i;
+      break;
+    }
+  }
 
-          items.push({
-            id: String(article), // Use article as ID
-            article: String(article),
-            currentPrice,
-            newPrice,
-            multiplier,
-            priceIndex,
-            customerPrice,
-            ozonDiscountPct,
-            rowIndex: i,
-          });
-        }
-
-        resolve({
-          items,
-          workbook,
-          sheetName,
-          headerRowIndex,
-        });
-
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.onerror = (err) => reject(err);
-    reader.readAsArrayBuffer(file);
-  });
+  if (headerRowIndex === -1) {
+    throw new Error("Не удалось найти заголовки таблицы. Убедитесь, что это правильный шаблон обновления цен.");
+  }
+
+  const headers = leadingRows[headerRowIndex];
+  const articleCol = headers.indexOf("Артикул");
+  const oldPriceCol = headers.findIndex(h => h && h.includes("Цена до скидки"));
+  const currentPriceCol = headers.findIndex(h => h && h.includes("Текущая цена (со скидкой)"));
+  const newPriceCol = headers.findIndex(h => h && h.includes("Новая цена (со скидкой)"));
+  const priceIndexCol = headers.findIndex(h => h && h.includes("Ценовой индекс товара на рынке на мои товары"));
+  const customerPriceCol = headers.findIndex(h => h && h.includes("Цена с учетом скидки от Ozon"));
+  const categoryCol = headers.findIndex(h => h && h.trim() === "Категория");
+  const ozonSkuCol = headers.findIndex(h => h && h.trim() === "SKU");
+  const barcodeCol = headers.findIndex(h => h && h.trim().startsWith("Штрихкод"));
+
+  diagnostics.headerRow = headerRowIndex + 1;
+  recordColumn(diagnostics, "Артикул", headers[articleCol], true);
+  recordColumn(diagnostics, "Текущая цена (со скидкой)", headers[currentPriceCol], true);
+  recordColumn(diagnostics, "Новая цена (со скидкой)", headers[newPriceCol], true);
+  recordColumn(diagnostics, "Цена до скидки", headers[oldPriceCol], false);
+  recordColumn(diagnostics, "Ценовой индекс", headers[priceIndexCol], false);
+  recordColumn(diagnostics, "Цена с учетом скидки от Ozon", headers[customerPriceCol], false);
+  recordColumn(diagnostics, "Категория", headers[categoryCol], false);
+  recordColumn(diagnostics, "SKU", headers[ozonSkuCol], false);
+  recordColumn(diagnostics, "Штрихкод", headers[barcodeCol], false);
+
+  if (articleCol === -1) throw new Error("Не найден столбец 'Артикул'");
+  if (currentPriceCol === -1) throw new Error("Не найден столбец 'Текущая цена (со скидкой)'");
+  if (newPriceCol === -1) throw new Error("Не найден столбец 'Новая цена (со скидкой)'");
+
+  const items: RepricerItem[] = [];
+
+  // Data starts typically after headers + 1 (the 'Нередактируемое/Редактируемое' row) or immediately after headers
+  const dataStartIndex = headerRowIndex + 2;
+
+  // Text in a price cell (other than empty) is reported instead of silently becoming "no price"
+  const readPrice = (values: CellValue[], col: number, row: number): number | null => {
+    if (col === -1) return null;
+    const num = cellToNumber(values[col]);
+    const text = cellToString(values[col]);
+    if (num === null && text) {
+      recordUnparsedNumber(diagnostics, row, headers[col], text);
+    }
+    return num;
+  };
+
+  await readSheetRows(book, sheet.path, ({ index, values }) => {
+    if (index < dataStartIndex) return;
+    const row = index + 1;
+    diagnostics.rowsRead++;
+
+    const article = cellToString(values[articleCol]);
+    if (!article) { // Skip empty rows
+      recordSkippedRow(diagnostics, row, values.some(v => cellToString(v)) ? "Нет артикула" : "Пустая строка");
+      return;
+    }
+
+    const currentPrice = readPrice(values, currentPriceCol, row) || 0;
+    const oldPrice = readPrice(values, oldPriceCol, row) || 0;
+    const newPrice = readPrice(values, newPriceCol, row);
+
+    let priceIndex = readPrice(values, priceIndexCol, row);
+    if (priceIndex === 0) {
+      priceIndex = null;
+    }
+
+    const customerPrice = readPrice(values, customerPriceCol, row);
+
+    let ozonDiscountPct = 0;
+    if (customerPrice && currentPrice > 0 && customerPrice < currentPrice) {
+      ozonDiscountPct = 1 - (customerPrice / currentPrice);
+    }
+
+    let multiplier = 1.5; // default 33% discount
+    if (currentPrice > 0 && oldPrice > currentPrice) {
+      multiplier = oldPrice / currentPrice;
+    }
+
+    const category = categoryCol !== -1 ? cellToString(values[categoryCol]) : "";
+    const ozonSku = ozonSkuCol !== -1 ? cellToString(values[ozonSkuCol]) : "";
+    const barcodes = barcodeCol !== -1 ? splitBarcodes(cellToString(values[barcodeCol])) : [];
+
+    items.push({
+      id: article, // Use article as ID
+      article,
+      currentPrice,
+      newPrice,
+      multiplier,
+      priceIndex,
+      customerPrice,
+      ozonDiscountPct,
+      rowIndex: index,
+      category: category || undefined,
+      ozonSku: ozonSku || undefined,
+      barcodes: barcodes.length > 0 ? barcodes : undefined,
+    });
+    diagnostics.rowsImported++;
+  }, onProgress);
+
+  return {
+    items,
+    file,
+    sheetName,
+    headerRowIndex,
+    diagnostics,
+  };
 }
 
+// The template is the one file that carries both our article and Ozon's ids
+export const getTemplateSkuLinks = (items: RepricerItem[]): SkuLink[] =>
+  items
+    .filter(item => item.ozonSku || item.barcodes)
+    .map(item => ({ offerId: item.article, ozonSku: item.ozonSku || "", barcodes: item.barcodes || [] }));
+
 export async function exportOzonTemplate(parsed: ParsedTemplate, updatedItems: RepricerItem[]): Promise<Blob> {
-  const { workbook, sheetName, headerRowIndex } = parsed;
+  const { file, sheetName, headerRowIndex } = parsed;
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array" });
   const sheet = workbook.Sheets[sheetName];
   
   const json = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 });
@@ -207,3 +244,28 @@ export async function exportOzonTemplate(parsed: ParsedTemplate, updatedItems: R
   const wbout = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
   return new Blob([wbout], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
 }
+
+// Fills the template's cost column ("Новая себестоимость" when present) for the listed articles
+export async function exportCogsTemplate(parsed: ParsedTemplate, costs: Record<string, number>): Promise<Blob> {
+  const { file, sheetName, headerRowIndex } = parsed;
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array" });
+  const sheet = workbook.Sheets[sheetName];
+
+  const json = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  const headers = (json[headerRowIndex] || []).map(h => (h === null || h === undefined ? "" : String(h).toLowerCase()));
+  let cogsCol = headers.findIndex(h => h.includes("новая себестоимость"));
+  if (cogsCol === -1) cogsCol = headers.findIndex(h => h === "себестоимость");
+  if (cogsCol === -1) {
+    throw new Error("В шаблоне нет столбца 'Себестоимость'");
+  }
+
+  parsed.items.forEach((item) => {
+    const cost = costs[item.article];
+    if (cost === undefined) return;
+    const cellRef = XLSX.utils.encode_cell({ c: cogsCol, r: item.rowIndex });
+    sheet[cellRef] = { t: "n", v: cost };
+  });
+
+  const wbout = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+  return new Blob([wbout], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
@@ -0,0 +1,71 @@
+import { createStoredSetting } from "@/lib/storedSettings";
+
+// Our own article (offer_id) is the canonical product key: COGS, categories and the price
+// template all use it. Ozon SKUs, barcodes and manual aliases are resolved to it
+export interface SkuLink {
+  offerId: string;
+  ozonSku: string;
+  barcodes: string[];
+}
+
+export interface SkuIdentityMap {
+  links: Record<string, { ozonSku: string; barcodes: string[] }>; // offer_id -> ids learned from the template
+  aliases: Record<string, string>; // any id -> offer_id, entered manually, wins over learned links
+}
+
+export type SkuResolver = (id: string) => string;
+
+export const EMPTY_SKU_IDENTITY: SkuIdentityMap = { links: {}, aliases: {} };
+
+const normalizeId = (id: string) => id.trim().replace(/\.0$/, "");
+
+export const learnSkuLinks = (identity: SkuIdentityMap, learned: SkuLink[]): SkuIdentityMap => {
+  const links = { ...identity.links };
+  learned.forEach(({ offerId, ozonSku, barcodes }) => {
+    const key = normalizeId(offerId);
+    if (!key) return;
+    links[key] = { ozonSku: normalizeId(ozonSku), barcodes: barcodes.map(normalizeId).filter(Boolean) };
+  });
+  return { ...identity, links };
+};
+
+// Unknown ids resolve to themselves, so files that already use offer_id need no mapping at all
+export const createSkuResolver = (identity: SkuIdentityMap): SkuResolver => {
+  const index = new Map<string, string>();
+  Object.entries(identity.links).forEach(([offerId, link]) => {
+    if (link.ozonSku) index.set(link.ozonSku, offerId);
+    link.barcodes.forEach(barcode => index.set(barcode, offerId));
+  });
+  Object.entries(identity.aliases).forEach(([alias, offerId]) => {
+    if (normalizeId(alias) && offerId.trim()) index.set(normalizeId(alias), offerId.trim());
+  });
+
+  return (id: string) => {
+    const key = normalizeId(id);
+    return index.get(key) ?? key;
+  };
+};
+
+// Splits the template's barcode cell, which may hold several codes
+export const splitBarcodes = (value: string): string[] =>
+  value.split(/[,;\s]+/).map(normalizeId).filter(Boolean);
+
+export const countSkuLinks = (identity: SkuIdentityMap): number => Object.keys(identity.links).length;
+
+const STORAGE_KEY = "ozon-count:sku-identity";
+
+const isSkuIdentityMap = (value: unknown): value is SkuIdentityMap => {
+  if (!value || typeof value !== "object") return false;
+  const { links, aliases } = value as Record<string, unknown>;
+  return !!links && typeof links === "object" &&
+    Object.values(links).every(l => l && typeof l.ozonSku === "string" && Array.isArray(l.barcodes)) &&
+    !!aliases && typeof aliases === "object" &&
+    Object.values(aliases).every(v => typeof v === "string");
+};
+
+export const { load: loadSkuIdentity, save: saveSkuIdentity } = createStoredSetting<SkuIdentityMap>(
+  STORAGE_KEY,
+  EMPTY_SKU_IDENTITY,
+  parsed => isSkuIdentityMap(parsed) ? parsed : null,
+  "соответствие артикулов"
+);
@@ -0,0 +1,254 @@
+import type { AccrualsSummary, SkuTransaction } from "@/lib/parseAccruals";
+import type { SkuResolver } from "@/lib/skuIdentity";
+import { classifyExpense, getVatBaseKind, type ExpenseRule } from "@/lib/expenseRules";
+import { calculateTaxes, type LegalEntity, type TaxBreakdown } from "@/lib/taxRegime";
+
+// VAT bases of one unit besides the price itself, split like the expenses: a share of the price and roubles per unit.
+// "sales" holds revenue returns and compensations, "services" the Ozon services carrying input VAT
+export interface UnitVatBases {
+  salesPct: number;
+  salesRubPerUnit: number;
+  servicesPct: number;
+  servicesRubPerUnit: number;
+}
+
+export interface SkuMetrics {
+  variablePct: number; // share of revenue
+  fixedRubPerUnit: number;
+  quantity: number; // units sold
+  revenue: number;
+  vat: UnitVatBases;
+}
+
+export interface SkuMetricsSummary {
+  skuMetricsMap: Record<string, SkuMetrics>;
+  globalFixedRubPerUnit: number; // operations without a SKU spread over every unit sold
+  globalVariablePct: number; // fallback for articles missing from the accruals report
+  avgSkuFixedRubPerUnit: number;
+  globalVat: UnitVatBases; // operations without a SKU, per unit only
+  avgSkuVat: UnitVatBases; // fallback for articles missing from the accruals report
+}
+
+const EMPTY_VAT_BASES: UnitVatBases = { salesPct: 0, salesRubPerUnit: 0, servicesPct: 0, servicesRubPerUnit: 0 };
+
+export const EMPTY_SKU_METRICS: SkuMetricsSummary = {
+  skuMetricsMap: {},
+  globalFixedRubPerUnit: 0,
+  globalVariablePct: 0,
+  avgSkuFixedRubPerUnit: 0,
+  globalVat: EMPTY_VAT_BASES,
+  avgSkuVat: EMPTY_VAT_BASES
+};
+
+interface VatTotals {
+  variableSales: number;
+  fixedSales: number;
+  variableServices: number;
+  fixedServices: number;
+}
+
+const createVatTotals = (): VatTotals => ({ variableSales: 0, fixedSales: 0, variableServices: 0, fixedServices: 0 });
+
+const toUnitVatBases = (totals: VatTotals, revenue: number, quantity: number): UnitVatBases => ({
+  salesPct: revenue > 0 ? totals.variableSales / revenue : 0,
+  salesRubPerUnit: quantity > 0 ? totals.fixedSales / quantity : 0,
+  servicesPct: revenue > 0 ? totals.variableServices / revenue : 0,
+  servicesRubPerUnit: quantity > 0 ? totals.fixedServices / quantity : 0
+});
+
+// Ozon expenses per SKU, separated into variable (%) and fixed (RUB), and global fixed expenses.
+// VAT bases follow getVatBases, so the forecast taxes match the accruals and unit-economics pages
+export const buildSkuMetrics = (summary: AccrualsSummary, rules: ExpenseRule[], resolveSku: SkuResolver): SkuMetricsSummary => {
+  const map: Record<string, { revenue: number; variableExpenses: number; fixedExpenses: number; salesQuantity: number; vat: VatTotals }> = {};
+  const globalVatTotals = createVatTotals();
+  const skuVatTotals = createVatTotals();
+
+  let totalSkuOutflow = 0;
+  let totalSkuInflow = 0;
+  let totalSalesQuantity = 0;
+
+  summary.skuTransactions.forEach(tx => {
+    const vatKind = getVatBaseKind(rules, tx.group, tx.type, tx.amount);
+    if (!tx.sku) {
+      // non-product operations are covered by the global expenses below
+      if (vatKind === "sales") globalVatTotals.fixedSales += tx.amount;
+      else if (vatKind === "services") globalVatTotals.fixedServices -= tx.amount;
+      return;
+    }
+    const article = resolveSku(tx.sku);
+    if (!map[article]) {
+      map[article] = { revenue: 0, variableExpenses: 0, fixedExpenses: 0, salesQuantity: 0, vat: createVatTotals() };
+    }
+    const vat = map[article].vat;
+
+    const lowerGrp = tx.group.toLowerCase();
+    const lowerType = tx.type.toLowerCase();
+
+    if (tx.amount > 0) {
+      totalSkuInflow += tx.amount;
+      if (lowerGrp === "продажи" || lowerType.includes("выручка") || lowerType.includes("баллы за скидки") || lowerGrp.includes("баллы за скидки")) {
+        map[article].revenue += tx.amount;
+      } else {
+        // Other positive compensations reduce fixed expenses
+        map[article].fixedExpenses -= tx.amount;
+        vat.fixedSales += tx.amount;
+      }
+    } else if (tx.amount < 0) {
+      totalSkuOutflow += tx.amount;
+      const isVariable = classifyExpense(rules, tx.group, tx.type).behavior === "variablePct";
+
+      if (isVariable) {
+        map[article].variableExpenses += Math.abs(tx.amount);
+      } else {
+        map[article].fixedExpenses += Math.abs(tx.amount);
+      }
+      if (vatKind === "sales") {
+        if (isVariable) vat.variableSales += tx.amount;
+        else vat.fixedSales += tx.amount;
+      } else if (vatKind === "services") {
+        if (isVariable) vat.variableServices -= tx.amount;
+        else vat.fixedServices -= tx.amount;
+      }
+    }
+
+    // Track quantity for weighted average margin ONLY from actual revenue rows to prevent double-counting compensation rows
+    if (tx.group === "Продажи" && tx.quantity > 0 && tx.amount > 0 && (lowerType.includes("выручка") || lowerType.includes("доставлен покупателю"))) {
+      map[article].salesQuantity += tx.quantity;
+      totalSalesQuantity += tx.quantity;
+    }
+  });
+
+  let totalVar = 0;
+  let totalRev = 0;
+  let totalSkuFixed = 0;
+
+  const skuMetricsMap: Record<string, SkuMetrics> = {};
+  for (const [sku, data] of Object.entries(map)) {
+    skuMetricsMap[sku] = {
+      variablePct: data.revenue > 0 ? (data.variableExpenses / data.revenue) : 0,
+      fixedRubPerUnit: data.salesQuantity > 0 ? (data.fixedExpenses / data.salesQuantity) : 0,
+      quantity: data.salesQuantity,
+      revenue: data.revenue,
+      vat: toUnitVatBases(data.vat, data.revenue, data.salesQuantity)
+    };
+    totalVar += data.variableExpenses;
+    totalRev += data.revenue;
+    totalSkuFixed += data.fixedExpenses;
+    skuVatTotals.variableSales += data.vat.variableSales;
+    skuVatTotals.fixedSales += data.vat.fixedSales;
+    skuVatTotals.variableServices += data.vat.variableServices;
+    skuVatTotals.fixedServices += data.vat.fixedServices;
+  }
+
+  const globalOutflow = summary.totalOutflow - totalSkuOutflow; // both negative
+  const globalInflow = summary.totalInflow - totalSkuInflow;
+  const netGlobalExpenses = Math.max(0, Math.abs(globalOutflow) - globalInflow);
+  const globalFixedRubPerUnit = totalSalesQuantity > 0 ? (netGlobalExpenses / totalSalesQuantity) : 0;
+
+  const globalVariablePct = totalRev > 0 ? (totalVar / totalRev) : 0;
+  const avgSkuFixedRubPerUnit = totalSalesQuantity > 0 ? (totalSkuFixed / totalSalesQuantity) : 0;
+
+  return {
+    skuMetricsMap,
+    globalFixedRubPerUnit,
+    globalVariablePct,
+    avgSkuFixedRubPerUnit,
+    globalVat: toUnitVatBases(globalVatTotals, totalRev, totalSalesQuantity),
+    avgSkuVat: toUnitVatBases(skuVatTotals, totalRev, totalSalesQuantity)
+  };
+};
+
+export interface UnitProfitForecast {
+  price: number;
+  variablePct: number;
+  variableCost: number;
+  fixedSkuCost: number; // per unit, from the article's own operations (or the average when it has none)
+  fixedGlobalCost: number; // per unit, share of operations without a SKU
+  cogs: number;
+  taxes: TaxBreakdown;
+  profit: number;
+  marginPct: number; // share of the price
+  isFallback: boolean; // the article has no operations, report-wide averages were used
+}
+
+// Expected profit of one unit at the given price; null when there are neither operations nor a cost to go by
+export const forecastUnitProfit = (
+  price: number,
+  sku: string,
+  metrics: SkuMetricsSummary,
+  cogs: number,
+  legalEntity: LegalEntity
+): UnitProfitForecast | null => {
+  const skuMetrics = metrics.skuMetricsMap[sku];
+  if (!skuMetrics && cogs <= 0) return null;
+
+  const variablePct = skuMetrics ? skuMetrics.variablePct : metrics.globalVariablePct;
+  const fixedSkuCost = skuMetrics ? skuMetrics.fixedRubPerUnit : metrics.avgSkuFixedRubPerUnit;
+  const variableCost = price * variablePct;
+  const fixExp = fixedSkuCost + metrics.globalFixedRubPerUnit;
+  const taxableProfit = price - variableCost - fixExp - cogs;
+
+  const vat = skuMetrics ? skuMetrics.vat : metrics.avgSkuVat;
+  const vatSales = price * (1 + vat.salesPct) + vat.salesRubPerUnit + metrics.globalVat.salesRubPerUnit;
+  const vatServices = price * vat.servicesPct + vat.servicesRubPerUnit + metrics.globalVat.servicesRubPerUnit;
+  const taxes = calculateTaxes(legalEntity, vatSales, vatServices, taxableProfit);
+  const profit = taxableProfit - taxes.total;
+
+  return {
+    price,
+    variablePct,
+    variableCost,
+    fixedSkuCost,
+    fixedGlobalCost: metrics.globalFixedRubPerUnit,
+    cogs,
+    taxes,
+    profit,
+    marginPct: price > 0 ? profit / price : 0,
+    isFallback: !skuMetrics
+  };
+};
+
+export interface SkuTransactionTypeTotal {
+  type: string;
+  count: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface SkuTransactionGroupTotal {
+  group: string;
+  count: number;
+  amount: number;
+  types: SkuTransactionTypeTotal[];
+}
+
+// Every operation of an article grouped by "Группа услуг" and "Тип начисления", largest amounts first
+export const groupSkuTransactions = (transactions: SkuTransaction[], sku: string, resolveSku: SkuResolver): SkuTransactionGroupTotal[] => {
+  const groups = new Map<string, Map<string, SkuTransactionTypeTotal>>();
+  transactions.forEach((tx) => {
+    if (!tx.sku || resolveSku(tx.sku) !== sku) return;
+    let types = groups.get(tx.group);
+    if (!types) {
+      types = new Map();
+      groups.set(tx.group, types);
+    }
+    const total = types.get(tx.type) ?? { type: tx.type, count: 0, quantity: 0, amount: 0 };
+    total.count++;
+    total.quantity += tx.quantity;
+    total.amount += tx.amount;
+    types.set(tx.type, total);
+  });
+
+  const byAmount = (a: { amount: number }, b: { amount: number }) => Math.abs(b.amount) - Math.abs(a.amount);
+  return [...groups.entries()]
+    .map(([group, types]) => {
+      const list = [...types.values()].sort(byAmount);
+      return {
+        group,
+        count: list.reduce((sum, t) => sum + t.count, 0),
+        amount: list.reduce((sum, t) => sum + t.amount, 0),
+        types: list
+      };
+    })
+    .sort(byAmount);
+};
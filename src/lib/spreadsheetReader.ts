@@ -0,0 +1,546 @@
+import JSZip from "jszip";
+
+// A decoded cell: shared/inline/rich strings become text, numbers in date formats become Date
+export type CellValue = string | number | boolean | Date | null;
+
+export interface SheetRow {
+  index: number; // zero-based sheet row number; empty rows are skipped, not renumbered
+  values: CellValue[]; // indexed by column, missing cells are null
+}
+
+export interface WorkbookSheet {
+  name: string;
+  path: string;
+}
+
+export interface SpreadsheetBook {
+  zip: JSZip;
+  sheets: WorkbookSheet[];
+  sharedStrings: string[];
+  dateStyles: boolean[]; // per cellXfs index: does the number format display a date
+  date1904: boolean;
+}
+
+const PROGRESS_STEP = 1000;
+
+// --- Minimal SAX tokenizer -------------------------------------------------
+
+interface SaxHandlers {
+  onOpenTag?: (name: string, attrs: Record<string, string>, selfClosing: boolean) => void;
+  onCloseTag?: (name: string) => void;
+  onText?: (text: string) => void;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, code: string) => {
+    if (code[0] === "#") {
+      return String.fromCodePoint(code[1] === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return XML_ENTITIES[code];
+  });
+
+// Element names lose their namespace prefix ("x:row" -> "row"), attribute names keep it ("r:id")
+const getLocalName = (name: string): string => name.slice(name.indexOf(":") + 1);
+
+const parseAttrs = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const attrRe = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrRe.exec(source))) {
+    attrs[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attrs;
+};
+
+// Finds the closing ">" of a tag, skipping quoted attribute values
+const findTagEnd = (buffer: string, from: number): number => {
+  let quote = "";
+  for (let i = from; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === "\"" || ch === "'") {
+      quote = ch;
+    } else if (ch === ">") {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const createSaxParser = (handlers: SaxHandlers) => {
+  let buffer = "";
+
+  const emitText = (text: string) => {
+    if (text && handlers.onText) handlers.onText(decodeXml(text));
+  };
+
+  const consume = (isFinal: boolean) => {
+    let pos = 0;
+    while (pos < buffer.length) {
+      const lt = buffer.indexOf("<", pos);
+      if (lt === -1) {
+        // Text may continue in the next chunk (possibly in the middle of an entity)
+        if (isFinal) {
+          emitText(buffer.slice(pos));
+          pos = buffer.length;
+        }
+        break;
+      }
+      emitText(buffer.slice(pos, lt));
+      pos = lt;
+
+      if (buffer.startsWith("<![CDATA[", lt)) {
+        const end = buffer.indexOf("]]>", lt);
+        if (end === -1) break;
+        const data = buffer.slice(lt + 9, end);
+        if (data && handlers.onText) handlers.onText(data);
+        pos = end + 3;
+        continue;
+      }
+      if (buffer.startsWith("<!--", lt)) {
+        const end = buffer.indexOf("-->", lt);
+        if (end === -1) break;
+        pos = end + 3;
+        continue;
+      }
+      if (buffer.startsWith("<?", lt) || buffer.startsWith("<!", lt)) {
+        const end = buffer.indexOf(">", lt);
+        if (end === -1) break;
+        pos = end + 1;
+        continue;
+      }
+
+      const gt = findTagEnd(buffer, lt + 1);
+      if (gt === -1) break;
+      const tag = buffer.slice(lt + 1, gt);
+      pos = gt + 1;
+
+      if (tag[0] === "/") {
+        handlers.onCloseTag?.(getLocalName(tag.slice(1).trim()));
+        continue;
+      }
+
+      const selfClosing = tag.endsWith("/");
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s/);
+      const name = getLocalName(nameEnd === -1 ? body : body.slice(0, nameEnd));
+      const attrs = nameEnd === -1 ? {} : parseAttrs(body.slice(nameEnd));
+      handlers.onOpenTag?.(name, attrs, selfClosing);
+      if (selfClosing) {
+        handlers.onCloseTag?.(name);
+      }
+    }
+    buffer = buffer.slice(pos);
+  };
+
+  return {
+    write: (chunk: string) => {
+      buffer += chunk;
+      consume(false);
+    },
+    end: () => consume(true)
+  };
+};
+
+// JSZipObject.internalStream exists at runtime but is missing from the published typings
+type StreamableEntry = JSZip.JSZipObject & {
+  internalStream: (type: "string") => JSZip.JSZipStreamHelper<string>;
+};
+
+// Feeds a zip entry to the SAX parser chunk by chunk; shouldStop() ends reading early
+const streamEntry = (
+  entry: JSZip.JSZipObject,
+  handlers: SaxHandlers,
+  shouldStop: () => boolean = () => false
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const parser = createSaxParser(handlers);
+    const stream = (entry as StreamableEntry).internalStream("string");
+    let isDone = false;
+
+    stream
+      .on("data", (chunk) => {
+        if (isDone) return;
+        try {
+          parser.write(chunk);
+          if (shouldStop()) {
+            isDone = true;
+            stream.pause();
+            resolve();
+          }
+        } catch (err) {
+          isDone = true;
+          stream.pause();
+          reject(err);
+        }
+      })
+      .on("error", (err) => {
+        if (isDone) return;
+        isDone = true;
+        reject(err);
+      })
+      .on("end", () => {
+        if (isDone) return;
+        isDone = true;
+        try {
+          parser.end();
+          resolve();
+        } catch (err) {
+          reject(err);
+        }
+      })
+      .resume();
+  });
+
+// --- Workbook parts --------------------------------------------------------
+
+// Text of a string item: plain <t> or rich-text runs, without phonetic hints (<rPh>)
+const createStringCollector = () => {
+  let text = "";
+  let inText = false;
+  let phoneticDepth = 0;
+
+  return {
+    reset: () => {
+      text = "";
+    },
+    get text() {
+      return text;
+    },
+    onOpenTag: (name: string, selfClosing: boolean) => {
+      if (name === "rPh" && !selfClosing) phoneticDepth++;
+      if (name === "t" && !selfClosing && phoneticDepth === 0) inText = true;
+    },
+    onCloseTag: (name: string) => {
+      if (name === "rPh" && phoneticDepth > 0) phoneticDepth--;
+      if (name === "t") inText = false;
+    },
+    onText: (chunk: string) => {
+      if (inText) text += chunk;
+    }
+  };
+};
+
+const loadSharedStrings = async (zip: JSZip): Promise<string[]> => {
+  const entry = zip.file("xl/sharedStrings.xml");
+  const sharedStrings: string[] = [];
+  if (!entry) return sharedStrings;
+
+  const collector = createStringCollector();
+  await streamEntry(entry, {
+    onOpenTag: (name, _attrs, selfClosing) => {
+      if (name === "si") collector.reset();
+      collector.onOpenTag(name, selfClosing);
+    },
+    onCloseTag: (name) => {
+      collector.onCloseTag(name);
+      if (name === "si") sharedStrings.push(collector.text);
+    },
+    onText: collector.onText
+  });
+  return sharedStrings;
+};
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+const isDateFormatCode = (code: string): boolean => {
+  // Elapsed time sections like [h]:mm are dates too
+  if (/\[(h+|m+|s+)\]/i.test(code)) return true;
+  // Drop quoted literals, escapes, padding/fill characters and [color]/[$-419] sections before looking for date tokens
+  const cleaned = code
+    .replace(/"[^"]*"/g, "")
+    .replace(/[\\_*]./g, "")
+    .replace(/\[[^\]]*\]/g, "");
+  return /[dmyhs]/i.test(cleaned);
+};
+
+const loadDateStyles = async (zip: JSZip): Promise<boolean[]> => {
+  const entry = zip.file("xl/styles.xml");
+  const dateStyles: boolean[] = [];
+  if (!entry) return dateStyles;
+
+  const customFormats: Record<number, string> = {};
+  const xfFormatIds: number[] = [];
+  let inCellXfs = false;
+
+  await streamEntry(entry, {
+    onOpenTag: (name, attrs, selfClosing) => {
+      if (name === "numFmt") {
+        customFormats[parseInt(attrs.numFmtId, 10)] = attrs.formatCode || "";
+      } else if (name === "cellXfs" && !selfClosing) {
+        inCellXfs = true;
+      } else if (name === "xf" && inCellXfs) {
+        xfFormatIds.push(parseInt(attrs.numFmtId || "0", 10));
+      }
+    },
+    onCloseTag: (name) => {
+      if (name === "cellXfs") inCellXfs = false;
+    }
+  });
+
+  xfFormatIds.forEach((fmtId, idx) => {
+    const code = customFormats[fmtId];
+    dateStyles[idx] = code !== undefined ? isDateFormatCode(code) : BUILTIN_DATE_FORMATS.has(fmtId);
+  });
+  return dateStyles;
+};
+
+// Relationship targets are either package-absolute ("/xl/worksheets/sheet1.xml")
+// or relative to the xl/ folder ("worksheets/sheet1.xml")
+const resolveRelTarget = (target: string): string => {
+  if (target.startsWith("/")) {
+    return target.slice(1);
+  }
+  const parts = ["xl"];
+  for (const part of target.split("/")) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part && part !== ".") {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+};
+
+// Lists worksheets in workbook order, resolving each one through xl/_rels/workbook.xml.rels
+const loadWorkbook = async (zip: JSZip): Promise<{ sheets: WorkbookSheet[]; date1904: boolean }> => {
+  const workbookEntry = zip.file("xl/workbook.xml");
+  const relsEntry = zip.file("xl/_rels/workbook.xml.rels");
+  let date1904 = false;
+
+  if (workbookEntry && relsEntry) {
+    const targets: Record<string, string> = {};
+    await streamEntry(relsEntry, {
+      onOpenTag: (name, attrs) => {
+        if (name === "Relationship" && attrs.Id && attrs.Target) {
+          targets[attrs.Id] = resolveRelTarget(attrs.Target);
+        }
+      }
+    });
+
+    const sheets: WorkbookSheet[] = [];
+    await streamEntry(workbookEntry, {
+      onOpenTag: (name, attrs) => {
+        if (name === "workbookPr") {
+          date1904 = attrs.date1904 === "1" || attrs.date1904 === "true";
+        } else if (name === "sheet") {
+          // The relationship attribute is namespaced, usually as r:id
+          const relIdKey = Object.keys(attrs).find(k => k.endsWith(":id"));
+          const path = relIdKey ? targets[attrs[relIdKey]] : undefined;
+          if (path && zip.file(path)) {
+            sheets.push({ name: attrs.name || path, path });
+          }
+        }
+      }
+    });
+    if (sheets.length > 0) {
+      return { sheets, date1904 };
+    }
+  }
+
+  // Fallback for archives without a workbook manifest: take worksheet files as they are
+  const sheets = Object.keys(zip.files)
+    .filter(k => /^xl\/worksheets\/[^/]+\.xml$/.test(k))
+    .sort((a, b) => a.localeCompare(b, "en", { numeric: true }))
+    .map(path => ({ name: path.replace(/^.*\//, "").replace(/\.xml$/, ""), path }));
+  return { sheets, date1904 };
+};
+
+export const openSpreadsheet = async (file: Blob | ArrayBuffer): Promise<SpreadsheetBook> => {
+  const zip = await JSZip.loadAsync(file);
+  const { sheets, date1904 } = await loadWorkbook(zip);
+  const sharedStrings = await loadSharedStrings(zip);
+  const dateStyles = await loadDateStyles(zip);
+  return { zip, sheets, sharedStrings, dateStyles, date1904 };
+};
+
+// --- Cell decoding ---------------------------------------------------------
+
+// Excel serials count days from 1899-12-30 (or 1904-01-01); the result is local wall-clock time
+export const excelSerialToDate = (serial: number, date1904: boolean = false): Date => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const utc = new Date(epoch + Math.round(serial * 86400000));
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds());
+};
+
+export const getColIndex = (cellRef: string): number => {
+  let index = 0;
+  for (let i = 0; i < cellRef.length; i++) {
+    const code = cellRef.charCodeAt(i);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+};
+
+const decodeCell = (
+  book: SpreadsheetBook,
+  type: string,
+  styleIdx: number,
+  raw: string,
+  inlineText: string
+): CellValue => {
+  switch (type) {
+    case "s":
+      return book.sharedStrings[parseInt(raw, 10)] ?? null;
+    case "inlineStr":
+      return inlineText;
+    case "str":
+    case "e":
+      return raw;
+    case "b":
+      return raw === "1" || raw.toLowerCase() === "true";
+    case "d": {
+      const date = new Date(raw);
+      return isNaN(date.getTime()) ? raw : date;
+    }
+    default: {
+      if (raw === "") return null;
+      const num = Number(raw);
+      if (isNaN(num)) return raw;
+      return book.dateStyles[styleIdx] ? excelSerialToDate(num, book.date1904) : num;
+    }
+  }
+};
+
+// Streams worksheet rows in order; return false from onRow to stop reading. Resolves with the number of rows read
+export const readSheetRows = async (
+  book: SpreadsheetBook,
+  sheetPath: string,
+  onRow: (row: SheetRow) => boolean | void,
+  onProgress?: (processedRows: number) => void
+): Promise<number> => {
+  const entry = book.zip.file(sheetPath);
+  if (!entry) {
+    throw new Error(`Не удалось найти рабочий лист ${sheetPath} в архиве Excel`);
+  }
+
+  let rowCount = 0;
+  let isStopped = false;
+  let row: SheetRow | null = null;
+  let nextRowIndex = 0;
+  let nextColIndex = 0;
+
+  let cellCol = 0;
+  let cellType = "";
+  let cellStyle = 0;
+  let cellRaw = "";
+  let inValue = false;
+  let inInline = false;
+  const inlineCollector = createStringCollector();
+
+  const finishRow = () => {
+    if (!row || isStopped) return;
+    rowCount++;
+    if (onProgress && rowCount % PROGRESS_STEP === 0) {
+      onProgress(rowCount);
+    }
+    if (onRow(row) === false) {
+      isStopped = true;
+    }
+    row = null;
+  };
+
+  await streamEntry(
+    entry,
+    {
+      onOpenTag: (name, attrs, selfClosing) => {
+        if (isStopped) return;
+        if (name === "row") {
+          const rowIndex = attrs.r ? parseInt(attrs.r, 10) - 1 : nextRowIndex;
+          nextRowIndex = rowIndex + 1;
+          nextColIndex = 0;
+          row = { index: rowIndex, values: [] };
+        } else if (name === "c" && row) {
+          cellCol = attrs.r ? getColIndex(attrs.r) : nextColIndex;
+          nextColIndex = cellCol + 1;
+          cellType = attrs.t || "n";
+          cellStyle = attrs.s ? parseInt(attrs.s, 10) : 0;
+          cellRaw = "";
+          inlineCollector.reset();
+        } else if (name === "v" && !selfClosing) {
+          inValue = true;
+        } else if (name === "is" && !selfClosing) {
+          inInline = true;
+        } else if (inInline) {
+          inlineCollector.onOpenTag(name, selfClosing);
+        }
+      },
+      onCloseTag: (name) => {
+        if (isStopped) return;
+        if (name === "v") {
+          inValue = false;
+        } else if (name === "is") {
+          inInline = false;
+        } else if (inInline) {
+          inlineCollector.onCloseTag(name);
+        } else if (name === "c" && row) {
+          const value = decodeCell(book, cellType, cellStyle, cellRaw, inlineCollector.text);
+          // Fill the gap left by sparse cells so callers can index any column
+          for (let i = row.values.length; i < cellCol; i++) row.values[i] = null;
+          row.values[cellCol] = value;
+        } else if (name === "row") {
+          finishRow();
+        }
+      },
+      onText: (text) => {
+        if (inValue) {
+          cellRaw += text;
+        } else if (inInline) {
+          inlineCollector.onText(text);
+        }
+      }
+    },
+    () => isStopped
+  );
+
+  onProgress?.(rowCount);
+  return rowCount;
+};
+
+// Reads rows that sit within the first `count` sheet rows: title rows plus the header
+export const readLeadingRows = async (book: SpreadsheetBook, sheetPath: string, count: number): Promise<SheetRow[]> => {
+  const rows: SheetRow[] = [];
+  await readSheetRows(book, sheetPath, (row) => {
+    if (row.index >= count) return false;
+    rows.push(row);
+  });
+  return rows;
+};
+
+// Spreads rows by their sheet index so row N is at position N
+export const toRowGrid = (rows: SheetRow[]): CellValue[][] => {
+  const grid: CellValue[][] = [];
+  rows.forEach((row) => {
+    for (let i = grid.length; i < row.index; i++) grid[i] = [];
+    grid[row.index] = row.values;
+  });
+  return grid;
+};
+
+// --- Value helpers shared by the parsers -----------------------------------
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+export const cellToString = (value: CellValue | undefined): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    const day = `${pad2(value.getDate())}.${pad2(value.getMonth() + 1)}.${value.getFullYear()}`;
+    const hasTime = value.getHours() || value.getMinutes() || value.getSeconds();
+    return hasTime ? `${day} ${pad2(value.getHours())}:${pad2(value.getMinutes())}:${pad2(value.getSeconds())}` : day;
+  }
+  return String(value).trim();
+};
+
+// Numbers come either typed or as text with spaces and a decimal comma ("1 234,50")
+export const cellToNumber = (value: CellValue | undefined): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const cleaned = value.replace(/\s/g, "").replace(",", ".");
+  if (!cleaned || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
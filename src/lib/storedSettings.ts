@@ -0,0 +1,35 @@
+// Settings kept in localStorage between sessions, one JSON value per key
+export interface StoredSetting<T> {
+  load: () => T;
+  save: (value: T) => void;
+}
+
+// read validates the parsed JSON (and may upgrade older shapes), null falls back to the default.
+// label names the setting in the save error, e.g. "правила расходов"
+export const createStoredSetting = <T>(
+  key: string,
+  fallback: T,
+  read: (parsed: unknown) => T | null,
+  label: string
+): StoredSetting<T> => ({
+  load: () => {
+    if (typeof window === "undefined") return fallback;
+    try {
+      const raw = window.localStorage.getItem(key);
+      if (!raw) return fallback;
+      return read(JSON.parse(raw)) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  },
+  save: (value) => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (err) {
+      console.error(`Не удалось сохранить ${label}:`, err);
+    }
+  }
+});
+
+// Unique enough for ids of user-created items in one browser
+export const createId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
@@ -0,0 +1,120 @@
+import { createId, createStoredSetting } from "@/lib/storedSettings";
+
+export type TaxRegime = "osno" | "usnIncome" | "usnProfit" | "ausnIncome" | "ausnProfit";
+
+interface TaxRegimeInfo {
+  label: string; // short, fits a card title
+  title: string;
+  base: "income" | "profit";
+  rate: number;
+  minimumRate?: number; // share of income due when the profit tax comes out lower
+  noVat?: boolean; // АУСН payers are not VAT payers
+}
+
+export const TAX_REGIMES: Record<TaxRegime, TaxRegimeInfo> = {
+  osno: { label: "ОСНО 25%", title: "ОСНО — налог на прибыль", base: "profit", rate: 0.25 },
+  usnIncome: { label: "УСН 6%", title: "УСН «Доходы»", base: "income", rate: 0.06 },
+  usnProfit: { label: "УСН 15%", title: "УСН «Доходы минус расходы»", base: "profit", rate: 0.15, minimumRate: 0.01 },
+  ausnIncome: { label: "АУСН 8%", title: "АУСН «Доходы»", base: "income", rate: 0.08, noVat: true },
+  ausnProfit: { label: "АУСН 20%", title: "АУСН «Доходы минус расходы»", base: "profit", rate: 0.2, minimumRate: 0.03, noVat: true }
+};
+
+export const TAX_REGIME_IDS = Object.keys(TAX_REGIMES) as TaxRegime[];
+
+// 0 means the entity doesn't charge VAT (УСН under the threshold or an exemption)
+export const VAT_RATES = [0, 0.05, 0.07, 0.2, 0.22];
+
+export const formatVatRate = (rate: number): string =>
+  rate === 0 ? "Без НДС" : `НДС ${Math.round(rate * 100)}%`;
+
+// Ozon bills its services at the general rate, 22% since 2026
+const OZON_SERVICES_VAT_RATE = 0.22;
+
+// Reduced УСН rates of 5% and 7% give no right to deduct input VAT, it stays inside the expenses
+const isInputVatDeductible = (vatRate: number) => vatRate >= 0.2;
+
+export interface LegalEntity {
+  id: string;
+  name: string;
+  regime: TaxRegime;
+  vatRate: number;
+}
+
+export interface TaxSettings {
+  entities: LegalEntity[];
+  activeId: string;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  entities: [{ id: "default", name: "Основное юрлицо", regime: "osno", vatRate: 0 }],
+  activeId: "default"
+};
+
+export const getActiveLegalEntity = (settings: TaxSettings): LegalEntity =>
+  settings.entities.find(e => e.id === settings.activeId) ?? settings.entities[0] ?? DEFAULT_TAX_SETTINGS.entities[0];
+
+export const getEffectiveVatRate = (entity: LegalEntity): number =>
+  TAX_REGIMES[entity.regime].noVat ? 0 : entity.vatRate;
+
+export const formatLegalEntityTaxes = (entity: LegalEntity): string =>
+  `${TAX_REGIMES[entity.regime].label} · ${formatVatRate(getEffectiveVatRate(entity))}`;
+
+export const createLegalEntityId = (): string => createId("entity");
+
+// The minimum tax is annual by law; applied per period it is an estimate of the same burden
+const calculateIncomeTax = (regime: TaxRegime, income: number, profitBeforeTax: number): number => {
+  const { base, rate, minimumRate } = TAX_REGIMES[regime];
+  if (base === "income") return Math.max(0, income * rate);
+  const tax = Math.max(0, profitBeforeTax * rate);
+  return minimumRate ? Math.max(tax, Math.max(0, income) * minimumRate) : tax;
+};
+
+export interface TaxBreakdown {
+  outputVat: number; // charged on sales
+  inputVat: number; // recovered from Ozon services
+  vatPayable: number; // negative when the deduction exceeds the charged VAT
+  incomeTax: number;
+  total: number;
+}
+
+// All amounts include VAT, as they appear in Ozon reports: sales is revenue net of returns, ozonServices
+// is the positive sum of Ozon's commission, logistics and other services, profitBeforeTax is sales
+// minus every expense and COGS. VAT is taken out of both the income and the profit tax bases
+export const calculateTaxes = (
+  entity: LegalEntity,
+  sales: number,
+  ozonServices: number,
+  profitBeforeTax: number
+): TaxBreakdown => {
+  const vatRate = getEffectiveVatRate(entity);
+  const outputVat = vatRate > 0 ? Math.max(0, sales) * vatRate / (1 + vatRate) : 0;
+  const inputVat = isInputVatDeductible(vatRate)
+    ? Math.max(0, ozonServices) * OZON_SERVICES_VAT_RATE / (1 + OZON_SERVICES_VAT_RATE)
+    : 0;
+  const vatPayable = outputVat - inputVat;
+  const incomeTax = calculateIncomeTax(entity.regime, sales - outputVat, profitBeforeTax - vatPayable);
+  return { outputVat, inputVat, vatPayable, incomeTax, total: vatPayable + incomeTax };
+};
+
+const STORAGE_KEY = "ozon-count:tax-settings";
+
+const isLegalEntity = (value: unknown): value is LegalEntity => {
+  if (!value || typeof value !== "object") return false;
+  const entity = value as Record<string, unknown>;
+  return typeof entity.id === "string" && typeof entity.name === "string" &&
+    typeof entity.regime === "string" && entity.regime in TAX_REGIMES &&
+    typeof entity.vatRate === "number" && VAT_RATES.includes(entity.vatRate);
+};
+
+const isTaxSettings = (value: unknown): value is TaxSettings => {
+  if (!value || typeof value !== "object") return false;
+  const { entities, activeId } = value as Record<string, unknown>;
+  return Array.isArray(entities) && entities.length > 0 && entities.every(isLegalEntity) && typeof activeId === "string";
+};
+
+export const { load: loadTaxSettings, save: saveTaxSettings } = createStoredSetting<TaxSettings>(
+  STORAGE_KEY,
+  DEFAULT_TAX_SETTINGS,
+  parsed => isTaxSettings(parsed) ? parsed : null,
+  "налоговые настройки"
+);
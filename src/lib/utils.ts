@@ -19,3 +19,14 @@ export function formatCompactCurrency(amount: number): string {
     maximumFractionDigits: 1,
   }).format(amount);
 }
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}